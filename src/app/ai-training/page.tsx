@@ -1,10 +1,14 @@
 'use client';
 
 import React, { useState, useEffect } from 'react';
-import { Brain, Play, Square, Trophy, TrendingUp, Settings, Save, Download, Users, Zap, Target, Clock, TestTube } from 'lucide-react';
+import { Brain, Play, Square, Trophy, TrendingUp, Settings, Save, Download, Upload, Users, Zap, Target, Clock, TestTube } from 'lucide-react';
 import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, BarChart, Bar, PieChart, Pie, Cell } from 'recharts';
+import { Chess } from 'chess.js';
 import { useTraining } from '../../hooks/useTraining';
-import { LearningParameters } from '../../lib/ai/ChessAIAgent';
+import { LearningParameters, MoveDecision } from '../../lib/ai/ChessAIAgent';
+import MoveExplanationPanel from '../../components/MoveExplanationPanel';
+
+const START_FEN = 'rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1';
 
 export default function AITrainingPage() {
   const { state, actions } = useTraining();
@@ -19,7 +23,13 @@ export default function AITrainingPage() {
     learningRate: 0.01,
     explorationRate: 0.1,
     discountFactor: 0.95,
+    lambda: 0.7,
   });
+  const [explainFen, setExplainFen] = useState(START_FEN);
+  const [explainedMove, setExplainedMove] = useState<MoveDecision | null>(null);
+  const [explainError, setExplainError] = useState<string | null>(null);
+  const [isExplaining, setIsExplaining] = useState(false);
+  const [bookMessage, setBookMessage] = useState<string | null>(null);
 
   // Create default agents if none exist
   useEffect(() => {
@@ -83,6 +93,55 @@ export default function AITrainingPage() {
 
   const getAgent = (id: string) => state.agents.find(a => a.id === id);
 
+  const handleImportPolyglot = async (agentId: string, file: File | undefined) => {
+    const agent = getAgent(agentId);
+    if (!agent || !file) return;
+
+    try {
+      const positions = agent.importPolyglotBook(await file.arrayBuffer());
+      setBookMessage(`Loaded ${positions} positions from ${file.name} into ${agent.name}'s book`);
+    } catch (error) {
+      setBookMessage(error instanceof Error ? error.message : 'Could not read the book');
+    }
+  };
+
+  const handleExportPolyglot = (agentId: string) => {
+    const agent = getAgent(agentId);
+    if (!agent) return;
+
+    const blob = new Blob([agent.exportPolyglotBook()], { type: 'application/octet-stream' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `agent_${agent.name}_book.bin`;
+    a.click();
+  };
+
+  const handleExplainMove = async () => {
+    const agent = getAgent(selectedAgent1);
+    if (!agent) return;
+
+    setIsExplaining(true);
+    setExplainError(null);
+    try {
+      const decision = await agent.makeMove(new Chess(explainFen), { depth: 3, moveTime: 5000 }, { explain: true });
+      setExplainedMove(decision);
+    } catch (error) {
+      setExplainedMove(null);
+      setExplainError(error instanceof Error ? error.message : 'Invalid position');
+    } finally {
+      setIsExplaining(false);
+    }
+  };
+
+  // Position before the last move of a finished game, to see what the agent would play there
+  const loadGamePosition = (moves: string[]) => {
+    const chess = new Chess();
+    moves.slice(0, -1).forEach(move => chess.move(move));
+    setExplainFen(chess.fen());
+    setExplainedMove(null);
+  };
+
   // Prepare chart data
   const eloProgressData = state.metrics ? [
     ...state.metrics.agent1Stats.learningProgress.map((elo, index) => ({
@@ -445,7 +504,11 @@ export default function AITrainingPage() {
             {state.recentGames.length > 0 ? (
               <div className="space-y-3 max-h-64 overflow-y-auto">
                 {state.recentGames.map((game, index) => (
-                  <div key={game.gameId} className="flex justify-between items-center p-3 bg-gray-700/50 rounded-lg">
+                  <div
+                    key={game.gameId}
+                    onClick={() => loadGamePosition(game.moves)}
+                    className="flex justify-between items-center p-3 bg-gray-700/50 hover:bg-gray-700 rounded-lg cursor-pointer"
+                  >
                     <div className="flex items-center space-x-3">
                       <div className="text-sm font-medium text-white">
                         Game #{state.recentGames.length - index}
@@ -536,6 +599,26 @@ export default function AITrainingPage() {
                       <Download className="h-3 w-3 mr-1" />
                       Export
                     </button>
+                    <label className="flex items-center px-3 py-1 bg-gray-600 hover:bg-gray-500 text-white text-xs rounded transition-colors cursor-pointer">
+                      <Upload className="h-3 w-3 mr-1" />
+                      Load .bin
+                      <input
+                        type="file"
+                        accept=".bin"
+                        className="hidden"
+                        onChange={(e) => {
+                          handleImportPolyglot(selectedAgent1, e.target.files?.[0]);
+                          e.target.value = '';
+                        }}
+                      />
+                    </label>
+                    <button 
+                      onClick={() => handleExportPolyglot(selectedAgent1)}
+                      className="flex items-center px-3 py-1 bg-gray-600 hover:bg-gray-500 text-white text-xs rounded transition-colors"
+                    >
+                      <Download className="h-3 w-3 mr-1" />
+                      Book .bin
+                    </button>
                   </div>
                 </div>
 
@@ -590,13 +673,72 @@ export default function AITrainingPage() {
                         <Download className="h-3 w-3 mr-1" />
                         Export
                       </button>
+                      <label className="flex items-center px-3 py-1 bg-gray-600 hover:bg-gray-500 text-white text-xs rounded transition-colors cursor-pointer">
+                        <Upload className="h-3 w-3 mr-1" />
+                        Load .bin
+                        <input
+                          type="file"
+                          accept=".bin"
+                          className="hidden"
+                          onChange={(e) => {
+                            handleImportPolyglot(selectedAgent2, e.target.files?.[0]);
+                            e.target.value = '';
+                          }}
+                        />
+                      </label>
+                      <button 
+                        onClick={() => handleExportPolyglot(selectedAgent2)}
+                        className="flex items-center px-3 py-1 bg-gray-600 hover:bg-gray-500 text-white text-xs rounded transition-colors"
+                      >
+                        <Download className="h-3 w-3 mr-1" />
+                        Book .bin
+                      </button>
                     </div>
                   </div>
                 )}
+
+                {bookMessage && <p className="text-sm text-gray-300">{bookMessage}</p>}
               </div>
             )}
           </div>
         </div>
+
+        {/* Move Explanation */}
+        {selectedAgent1 && getAgent(selectedAgent1) && (
+          <div className="mt-8 bg-gray-800/50 backdrop-blur-sm border border-gray-700 rounded-2xl p-6">
+            <h3 className="text-xl font-semibold text-white mb-4 flex items-center">
+              <Target className="h-5 w-5 mr-2 text-cyan-400" />
+              Move Explanation: {getAgent(selectedAgent1)!.name}
+            </h3>
+
+            <div className="flex space-x-3 mb-4">
+              <input
+                type="text"
+                value={explainFen}
+                onChange={(e) => setExplainFen(e.target.value)}
+                className="flex-1 bg-gray-700 border border-gray-600 rounded-lg px-3 py-2 text-white font-mono text-sm"
+                placeholder="Position (FEN), or click a recent game"
+              />
+              <button
+                onClick={handleExplainMove}
+                disabled={isExplaining}
+                className="bg-purple-600 hover:bg-purple-700 disabled:bg-gray-600 text-white px-4 py-2 rounded-lg font-medium transition-colors"
+              >
+                {isExplaining ? 'Thinking...' : 'Explain Move'}
+              </button>
+            </div>
+
+            {explainError && <p className="text-red-400 text-sm">{explainError}</p>}
+            {explainedMove?.explanation && (
+              <MoveExplanationPanel
+                move={explainedMove.move}
+                evaluation={explainedMove.evaluation}
+                depth={explainedMove.depth}
+                explanation={explainedMove.explanation}
+              />
+            )}
+          </div>
+        )}
       </main>
 
       {/* Agent Creator Modal */}
@@ -661,6 +803,21 @@ export default function AITrainingPage() {
                   className="w-full"
                 />
               </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-300 mb-2">
+                  TD Lambda: {learningParams.lambda}
+                </label>
+                <input
+                  type="range"
+                  min="0"
+                  max="1"
+                  step="0.05"
+                  value={learningParams.lambda}
+                  onChange={(e) => setLearningParams(prev => ({ ...prev, lambda: parseFloat(e.target.value) }))}
+                  className="w-full"
+                />
+              </div>
             </div>
 
             <div className="flex space-x-3 mt-6">
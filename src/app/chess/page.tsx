@@ -4,6 +4,8 @@ import { useState, useEffect } from 'react';
 import { Chess } from 'chess.js';
 import { ArrowLeft, Play, Pause, RotateCcw, Settings, Brain } from 'lucide-react';
 import Link from 'next/link';
+import { ChessAIAgent, MoveDecision } from '@/lib/ai/ChessAIAgent';
+import MoveExplanationPanel from '@/components/MoveExplanationPanel';
 
 // Chess piece unicode symbols
 const pieceSymbols: { [key: string]: string } = {
@@ -11,18 +13,45 @@ const pieceSymbols: { [key: string]: string } = {
   'bK': '♚', 'bQ': '♛', 'bR': '♜', 'bB': '♝', 'bN': '♞', 'bP': '♟'
 };
 
+const AI_MOVE_TIME = 3000; // ms per move, on top of the depth limit
+
+// Target Elo per difficulty level (null plays at full strength)
+const difficultyLevels: { label: string; elo: number | null }[] = [
+  { label: 'Beginner (800)', elo: 800 },
+  { label: 'Casual (1200)', elo: 1200 },
+  { label: 'Club (1600)', elo: 1600 },
+  { label: 'Expert (2000)', elo: 2000 },
+  { label: 'Full strength', elo: null },
+];
+
+const createAgent = () => new ChessAIAgent('chess-ai', 'Chess AI', {
+  learningRate: 0.01,
+  explorationRate: 0.1,
+  discountFactor: 0.95,
+  lambda: 0.7,
+  memorySize: 10000,
+  batchSize: 32,
+  updateFrequency: 10,
+  temperature: 1.0,
+});
+
 export default function ChessPage() {
   const [game, setGame] = useState(new Chess());
   const [selectedSquare, setSelectedSquare] = useState<string | null>(null);
   const [gameMode, setGameMode] = useState<'human-vs-ai' | 'ai-vs-ai'>('human-vs-ai');
   const [isTraining, setIsTraining] = useState(false);
   const [aiThinking, setAiThinking] = useState(false);
+  const [agent] = useState(createAgent);
+  const [searchDepth, setSearchDepth] = useState(3);
+  const [difficulty, setDifficulty] = useState(difficultyLevels.length - 1);
+  const [lastDecision, setLastDecision] = useState<MoveDecision | null>(null);
 
   // Reset game
   const resetGame = () => {
     setGame(new Chess());
     setSelectedSquare(null);
     setAiThinking(false);
+    setLastDecision(null);
   };
 
   // Handle square click
@@ -42,13 +71,10 @@ export default function ChessPage() {
           setGame(new Chess(game.fen()));
           setSelectedSquare(null);
           
-          // Simulate AI response
+          // AI response
           if (!game.isGameOver()) {
             setAiThinking(true);
-            setTimeout(() => {
-              makeAiMove();
-              setAiThinking(false);
-            }, 1000);
+            makeAiMove().finally(() => setAiThinking(false));
           }
         } else {
           setSelectedSquare(square);
@@ -61,28 +87,33 @@ export default function ChessPage() {
     }
   };
 
-  // Simple AI move (random for demo)
-  const makeAiMove = () => {
-    const moves = game.moves();
-    if (moves.length > 0) {
-      const randomMove = moves[Math.floor(Math.random() * moves.length)];
-      game.move(randomMove);
-      setGame(new Chess(game.fen()));
-    }
+  const changeDifficulty = (level: number) => {
+    setDifficulty(level);
+    agent.setStrength(difficultyLevels[level].elo);
+  };
+
+  // Agent move, with an explanation of why it was chosen
+  const makeAiMove = async () => {
+    if (game.isGameOver()) return;
+    const decision = await agent.makeMove(
+      game,
+      { depth: searchDepth, moveTime: AI_MOVE_TIME },
+      { explain: true, alternatives: 3 }
+    );
+    game.move(decision.move);
+    setGame(new Chess(game.fen()));
+    setLastDecision(decision);
   };
 
   // AI vs AI mode
-  const startAiVsAi = () => {
+  const startAiVsAi = async () => {
     if (gameMode === 'ai-vs-ai' && !isTraining) {
       setIsTraining(true);
-      const aiInterval = setInterval(() => {
-        if (game.isGameOver()) {
-          clearInterval(aiInterval);
-          setIsTraining(false);
-          return;
-        }
-        makeAiMove();
-      }, 1500);
+      while (!game.isGameOver()) {
+        await makeAiMove();
+        await new Promise(resolve => setTimeout(resolve, 500));
+      }
+      setIsTraining(false);
     }
   };
 
@@ -239,12 +270,25 @@ export default function ChessPage() {
               <h3 className="text-lg font-semibold text-white mb-4">AI Configuration</h3>
               <div className="space-y-4">
                 <div>
-                  <label className="block text-sm text-gray-300 mb-2">Search Depth</label>
+                  <label className="block text-sm text-gray-300 mb-2">Difficulty</label>
+                  <select
+                    value={difficulty}
+                    onChange={(e) => changeDifficulty(parseInt(e.target.value))}
+                    className="w-full bg-gray-700 border border-gray-600 rounded-lg px-3 py-2 text-white"
+                  >
+                    {difficultyLevels.map((level, index) => (
+                      <option key={level.label} value={index}>{level.label}</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm text-gray-300 mb-2">Search Depth: {searchDepth}</label>
                   <input
                     type="range"
                     min="1"
                     max="10"
-                    defaultValue="5"
+                    value={searchDepth}
+                    onChange={(e) => setSearchDepth(parseInt(e.target.value))}
                     className="w-full accent-purple-500"
                   />
                   <div className="flex justify-between text-xs text-gray-400 mt-1">
@@ -285,6 +329,21 @@ export default function ChessPage() {
               </div>
             </div>
 
+            {/* Move Explanation */}
+            <div className="bg-gray-800/50 backdrop-blur-sm border border-gray-700 rounded-2xl p-6">
+              <h3 className="text-lg font-semibold text-white mb-4">Why This Move</h3>
+              {lastDecision?.explanation ? (
+                <MoveExplanationPanel
+                  move={lastDecision.move}
+                  evaluation={lastDecision.evaluation}
+                  depth={lastDecision.depth}
+                  explanation={lastDecision.explanation}
+                />
+              ) : (
+                <p className="text-gray-400 text-sm">The reasoning behind each AI move appears here.</p>
+              )}
+            </div>
+
             {/* Recent Moves */}
             <div className="bg-gray-800/50 backdrop-blur-sm border border-gray-700 rounded-2xl p-6">
               <h3 className="text-lg font-semibold text-white mb-4">Move History</h3>
@@ -0,0 +1,220 @@
+"use client";
+
+import { useState, useEffect } from 'react';
+import { Chess } from 'chess.js';
+import { ArrowLeft, BookOpen, RotateCcw, Undo2 } from 'lucide-react';
+import Link from 'next/link';
+import { ChessLearningEngine } from '@/lib/ai/ChessLearningEngine';
+import { ExplorerGame } from '@/lib/ai/PositionIndex';
+import { classifyOpening } from '@/lib/ai/EcoClassifier';
+import { chessLiteratureLibrary, samplePGNDatabase } from '@/lib/data/chessLiterature';
+
+// Chess piece unicode symbols
+const pieceSymbols: { [key: string]: string } = {
+  'wK': '♔', 'wQ': '♕', 'wR': '♖', 'wB': '♗', 'wN': '♘', 'wP': '♙',
+  'bK': '♚', 'bQ': '♛', 'bR': '♜', 'bB': '♝', 'bN': '♞', 'bP': '♟'
+};
+
+const TOP_GAMES_SHOWN = 8;
+
+const percent = (part: number, total: number) => (total > 0 ? (100 * part) / total : 0);
+
+export default function OpeningExplorerPage() {
+  const [engine] = useState(() => new ChessLearningEngine());
+  const [line, setLine] = useState<string[]>([]);
+  const [gamesLoaded, setGamesLoaded] = useState(0);
+  const [pgnText, setPgnText] = useState('');
+
+  // The bundled master games
+  useEffect(() => {
+    const load = async () => {
+      if (engine.getLearningStats().booksLoaded > 0) return; // effects run twice in development
+      for (const book of chessLiteratureLibrary) await engine.loadChessBook(book);
+      await engine.loadPGNDatabase(samplePGNDatabase, 'sample database');
+      setGamesLoaded(engine.getLearningStats().gamesInDatabase);
+    };
+    load();
+  }, [engine]);
+
+  const addGames = async () => {
+    if (!pgnText.trim()) return;
+    await engine.loadPGNDatabase(pgnText, 'pasted PGN');
+    setGamesLoaded(engine.getLearningStats().gamesInDatabase);
+    setPgnText('');
+  };
+
+  const chess = new Chess();
+  line.forEach(move => chess.move(move));
+  const position = gamesLoaded > 0 ? engine.explore(chess.fen()) : null;
+  const opening = classifyOpening(line);
+
+  const topGames: ExplorerGame[] = [];
+  for (const entry of position?.moves || []) {
+    for (const game of entry.topGames) {
+      if (!topGames.some(known => known.id === game.id)) topGames.push(game);
+    }
+  }
+  topGames.sort((a, b) => b.rating - a.rating);
+
+  const renderBoard = () => {
+    const board = [];
+    const boardArray = chess.board();
+
+    for (let row = 0; row < 8; row++) {
+      for (let col = 0; col < 8; col++) {
+        const square = String.fromCharCode(97 + col) + (8 - row);
+        const piece = boardArray[row][col];
+        const isLight = (row + col) % 2 === 0;
+
+        board.push(
+          <div
+            key={square}
+            className={`w-12 h-12 flex items-center justify-center text-3xl ${isLight ? 'bg-amber-100' : 'bg-amber-800'}`}
+          >
+            {piece && (
+              <span className={piece.color === 'w' ? 'text-white' : 'text-black'}>
+                {pieceSymbols[piece.color + piece.type.toUpperCase()]}
+              </span>
+            )}
+          </div>
+        );
+      }
+    }
+
+    return board;
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-gray-900 via-purple-900 to-blue-900">
+      {/* Header */}
+      <header className="p-6 border-b border-gray-700">
+        <div className="max-w-7xl mx-auto flex items-center space-x-4">
+          <Link href="/" className="text-gray-300 hover:text-white transition-colors">
+            <ArrowLeft className="h-6 w-6" />
+          </Link>
+          <BookOpen className="h-8 w-8 text-purple-400" />
+          <h1 className="text-2xl font-bold text-white">Opening Explorer</h1>
+          <span className="text-gray-400">{gamesLoaded} games</span>
+        </div>
+      </header>
+
+      <div className="max-w-7xl mx-auto px-6 py-8">
+        <div className="grid lg:grid-cols-2 gap-8">
+          {/* Position */}
+          <div className="bg-gray-800/50 backdrop-blur-sm border border-gray-700 rounded-2xl p-6">
+            <div className="flex items-center justify-between mb-6">
+              <h2 className="text-xl font-semibold text-white">Position</h2>
+              <div className="flex space-x-2">
+                <button
+                  onClick={() => setLine(line.slice(0, -1))}
+                  disabled={line.length === 0}
+                  className="p-2 text-gray-300 hover:text-white transition-colors disabled:opacity-50"
+                >
+                  <Undo2 className="h-5 w-5" />
+                </button>
+                <button
+                  onClick={() => setLine([])}
+                  className="p-2 text-gray-300 hover:text-white transition-colors"
+                >
+                  <RotateCcw className="h-5 w-5" />
+                </button>
+              </div>
+            </div>
+
+            <div className="flex justify-center">
+              <div className="grid grid-cols-8 border-4 border-amber-900 rounded-lg overflow-hidden shadow-2xl">
+                {renderBoard()}
+              </div>
+            </div>
+
+            <p className="mt-6 text-white text-center">
+              {line.length === 0
+                ? 'Starting position'
+                : line.map((move, index) => (index % 2 === 0 ? `${index / 2 + 1}. ${move}` : move)).join(' ')}
+            </p>
+            {opening && (
+              <p className="mt-2 text-purple-300 text-center text-sm">
+                {opening.eco} {opening.name}{opening.variation ? `: ${opening.variation}` : ''}
+              </p>
+            )}
+          </div>
+
+          <div className="space-y-6">
+            {/* Moves played here */}
+            <div className="bg-gray-800/50 backdrop-blur-sm border border-gray-700 rounded-2xl p-6">
+              <h3 className="text-lg font-semibold text-white mb-4">Moves</h3>
+              {position ? (
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-gray-400 text-left">
+                      <th className="pb-2">Move</th>
+                      <th className="pb-2">Games</th>
+                      <th className="pb-2 w-1/2">White / Draw / Black</th>
+                      <th className="pb-2 text-right">Avg rating</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {position.moves.map(entry => (
+                      <tr
+                        key={entry.move}
+                        onClick={() => setLine([...line, entry.move])}
+                        className="cursor-pointer hover:bg-gray-700/50"
+                      >
+                        <td className="py-1 text-white font-medium">{entry.move}</td>
+                        <td className="py-1 text-gray-300">{entry.games}</td>
+                        <td className="py-1">
+                          <div className="flex h-4 rounded overflow-hidden">
+                            <div className="bg-gray-100" style={{ width: `${percent(entry.whiteWins, entry.games)}%` }} />
+                            <div className="bg-gray-500" style={{ width: `${percent(entry.draws, entry.games)}%` }} />
+                            <div className="bg-gray-900" style={{ width: `${percent(entry.blackWins, entry.games)}%` }} />
+                          </div>
+                        </td>
+                        <td className="py-1 text-right text-gray-300">{entry.averageRating > 0 ? Math.round(entry.averageRating) : '–'}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              ) : (
+                <p className="text-gray-400 text-sm">No games reached this position.</p>
+              )}
+            </div>
+
+            {/* Who played it */}
+            <div className="bg-gray-800/50 backdrop-blur-sm border border-gray-700 rounded-2xl p-6">
+              <h3 className="text-lg font-semibold text-white mb-4">Top Games</h3>
+              {topGames.length > 0 ? (
+                <div className="space-y-2">
+                  {topGames.slice(0, TOP_GAMES_SHOWN).map(game => (
+                    <div key={game.id} className="flex justify-between text-sm">
+                      <span className="text-white">{game.white} – {game.black}</span>
+                      <span className="text-gray-400">{game.result} · {game.date}{game.rating > 0 ? ` · ${Math.round(game.rating)}` : ''}</span>
+                    </div>
+                  ))}
+                </div>
+              ) : (
+                <p className="text-gray-400 text-sm">Games that reached this position appear here.</p>
+              )}
+            </div>
+
+            {/* More games */}
+            <div className="bg-gray-800/50 backdrop-blur-sm border border-gray-700 rounded-2xl p-6">
+              <h3 className="text-lg font-semibold text-white mb-4">Add Games</h3>
+              <textarea
+                value={pgnText}
+                onChange={(e) => setPgnText(e.target.value)}
+                placeholder="Paste PGN games here"
+                className="w-full h-32 bg-gray-700 border border-gray-600 rounded-lg px-3 py-2 text-white text-sm font-mono"
+              />
+              <button
+                onClick={addGames}
+                className="mt-3 px-4 py-2 bg-purple-600 hover:bg-purple-700 text-white rounded-lg transition-colors"
+              >
+                Add to explorer
+              </button>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
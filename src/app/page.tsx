@@ -24,6 +24,9 @@ export default function Home() {
             <Link href="/training" className="text-gray-300 hover:text-white transition-colors">
               Training Dashboard
             </Link>
+            <Link href="/explorer" className="text-gray-300 hover:text-white transition-colors">
+              Opening Explorer
+            </Link>
             <Link href="/analytics" className="text-gray-300 hover:text-white transition-colors">
               Analytics
             </Link>
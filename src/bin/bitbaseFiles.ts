@@ -0,0 +1,24 @@
+import { existsSync, readdirSync, readFileSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { EndgameBitbase } from '../lib/ai/EndgameBitbase';
+
+/**
+ * Bitbase files
+ * One `<signature>.bitbase` file per table in a directory
+ */
+
+const BITBASE_EXTENSION = '.bitbase';
+
+export function readBitbases(directory: string): EndgameBitbase[] {
+  if (!existsSync(directory)) return [];
+  return readdirSync(directory)
+    .filter(file => file.endsWith(BITBASE_EXTENSION))
+    .sort()
+    .map(file => EndgameBitbase.deserialize(new Uint8Array(readFileSync(join(directory, file)))));
+}
+
+export function writeBitbase(directory: string, bitbase: EndgameBitbase): string {
+  const path = join(directory, bitbase.signature + BITBASE_EXTENSION);
+  writeFileSync(path, bitbase.serialize());
+  return path;
+}
@@ -0,0 +1,26 @@
+import { mkdirSync } from 'fs';
+import { BitbaseSet, BITBASE_MATERIALS } from '../lib/ai/EndgameBitbase';
+import { readBitbases, writeBitbase } from './bitbaseFiles';
+
+/**
+ * Bitbase generator
+ * Builds endgame bitbases by retrograde analysis, with the subtables they need,
+ * skipping tables already in the directory:
+ *   npx tsx src/bin/generateBitbases.ts [directory] [KQvK KRvKP ...]
+ */
+
+const directory = process.argv[2] || 'bitbases';
+const signatures = process.argv.length > 3 ? process.argv.slice(3) : BITBASE_MATERIALS;
+
+mkdirSync(directory, { recursive: true });
+const bitbases = new BitbaseSet();
+for (const bitbase of readBitbases(directory)) bitbases.add(bitbase);
+
+for (const signature of signatures) {
+  console.log(`${signature}:`);
+  const generated = bitbases.generate(signature, (bitbase, time) => {
+    const path = writeBitbase(directory, bitbase);
+    console.log(`  ${path}: ${bitbase.byteLength} bytes in ${(time / 1000).toFixed(1)} s`);
+  });
+  if (generated.length === 0) console.log('  already generated');
+}
@@ -0,0 +1,61 @@
+import { PgnGameStore, PgnImportProgress, importPgnFile, importPgnStream } from '../lib/ai/PgnGameStore';
+import { PgnGameFilter, TimeControlCategory } from '../lib/ai/PgnParser';
+
+/**
+ * PGN importer
+ * Streams a PGN file (or `-` for stdin, e.g. from zstdcat) into a game store
+ * directory, keeping only the games that pass the filters:
+ *   npx tsx src/bin/importPgn.ts games.pgn [directory] [--min-rating 2200]
+ *     [--time-control blitz,rapid] [--from 2020.01.01] [--to 2020.12.31]
+ *     [--result 1-0,0-1] [--player Carlsen]
+ */
+
+const PROGRESS_INTERVAL = 1000; // ms
+
+const positional: string[] = [];
+const filter: PgnGameFilter = {};
+for (let i = 2; i < process.argv.length; i++) {
+  const argument = process.argv[i];
+  const value = () => process.argv[++i] || '';
+  switch (argument) {
+    case '--min-rating': filter.minRating = parseInt(value()); break;
+    case '--time-control': filter.timeControls = value().split(',') as TimeControlCategory[]; break;
+    case '--from': filter.fromDate = value(); break;
+    case '--to': filter.toDate = value(); break;
+    case '--result': filter.results = value().split(','); break;
+    case '--player': filter.player = value(); break;
+    default: positional.push(argument);
+  }
+}
+
+const [input, directory = 'games'] = positional;
+if (!input) {
+  console.error('usage: importPgn <games.pgn | -> [directory] [filters]');
+  process.exit(1);
+}
+
+let lastReport = 0;
+const report = (progress: PgnImportProgress) => {
+  const done = progress.totalBytes ? ` ${(100 * progress.bytesRead / progress.totalBytes).toFixed(1)}%` : '';
+  console.log(`${(progress.bytesRead / 1e6).toFixed(1)} MB${done}: ${progress.gamesRead} games read, ` +
+    `${progress.gamesImported} imported, ${progress.gamesSkipped} filtered out, ${progress.gamesWithErrors} with errors`);
+};
+const onProgress = (progress: PgnImportProgress) => {
+  if (Date.now() - lastReport < PROGRESS_INTERVAL) return;
+  lastReport = Date.now();
+  report(progress);
+};
+
+const store = new PgnGameStore(directory);
+const importing = input === '-'
+  ? importPgnStream(process.stdin, store, { filter, onProgress })
+  : importPgnFile(input, store, { filter, onProgress });
+
+importing.then(progress => {
+  report(progress);
+  store.close();
+  console.log(`${directory}: ${store.size} games`);
+}).catch(error => {
+  console.error(`Cannot import ${input}:`, error instanceof Error ? error.message : error);
+  process.exit(1);
+});
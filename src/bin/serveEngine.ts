@@ -0,0 +1,73 @@
+import { readFileSync } from 'fs';
+import { createInterface } from 'readline';
+import { ChessAIAgent } from '../lib/ai/ChessAIAgent';
+import { ChessTrainingEngine } from '../lib/ai/TrainingEngine';
+import { EngineFrontend } from '../lib/ai/EngineFrontend';
+import { syzygyDirectorySource } from '../lib/ai/SyzygyFiles';
+import { readBitbases } from './bitbaseFiles';
+
+/**
+ * Engine host
+ * Loads an agent from an exported knowledge file (first command line argument),
+ * with the endgame bitbases in a directory (second argument), and runs a
+ * protocol frontend for it over stdin/stdout
+ */
+
+const DEFAULT_ENGINE_NAME = 'Chess AI Agent';
+
+function loadAgent(path: string | undefined): ChessAIAgent {
+  let knowledge: string | null = null;
+  let name = DEFAULT_ENGINE_NAME;
+
+  if (path && path !== '-') { // `-`: an untrained agent
+    try {
+      knowledge = readFileSync(path, 'utf8');
+      const parsed = JSON.parse(knowledge);
+      if (typeof parsed.name === 'string') name = parsed.name;
+    } catch (error) {
+      console.error(`Cannot load knowledge file ${path}:`, error instanceof Error ? error.message : error);
+      process.exit(1);
+    }
+  }
+
+  const agent = new ChessTrainingEngine().createAgent(name);
+  if (knowledge) agent.importKnowledge(knowledge);
+  agent.adjustLearningParameters({ explorationRate: 0 }); // play the best move, not exploratory ones
+  return agent;
+}
+
+function loadBitbases(agent: ChessAIAgent, directory: string | undefined): void {
+  if (!directory) return;
+  try {
+    for (const bitbase of readBitbases(directory)) agent.loadBitbase(bitbase);
+  } catch (error) {
+    console.error(`Cannot load bitbases from ${directory}:`, error instanceof Error ? error.message : error);
+    process.exit(1);
+  }
+}
+
+export function serveEngine(createFrontend: (agent: ChessAIAgent, output: (line: string) => void) => EngineFrontend): void {
+  // stdout carries the protocol only; the agent's own logging goes to stderr
+  console.log = (...args: unknown[]) => console.error(...args);
+
+  const agent = loadAgent(process.argv[2]);
+  loadBitbases(agent, process.argv[3]);
+  const engine = createFrontend(agent, line => process.stdout.write(line + '\n'));
+  engine.setSyzygySource(syzygyDirectorySource);
+  const input = createInterface({ input: process.stdin, terminal: false });
+
+  // Lines are handled in order; a search yields to this loop between root moves, so stop requests get through
+  let queue: Promise<boolean> = Promise.resolve(true);
+  input.on('line', line => {
+    queue = queue.then(running => (running ? engine.handleLine(line) : false)).then(running => {
+      if (!running) {
+        input.close();
+        process.exit(0);
+      }
+      return running;
+    });
+  });
+  input.on('close', () => {
+    queue.then(() => engine.handleLine('quit')).then(() => process.exit(0));
+  });
+}
@@ -0,0 +1,10 @@
+import { UciEngine } from '../lib/ai/UciEngine';
+import { serveEngine } from './serveEngine';
+
+/**
+ * UCI entry point
+ * Runs a trained agent as a UCI engine over stdin/stdout:
+ *   npx tsx src/bin/uci.ts [knowledge.json] [bitbase directory]
+ */
+
+serveEngine((agent, output) => new UciEngine(agent, output));
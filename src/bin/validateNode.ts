@@ -0,0 +1,9 @@
+import { NodeValidator } from '../tests/NodeValidator';
+
+/**
+ * Node validation entry point
+ * Runs the tests of the Node-only parts (engine processes, files on disk):
+ *   npx tsx src/bin/validateNode.ts
+ */
+
+NodeValidator.runAllTests().then(({ passed, total }) => process.exit(passed === total ? 0 : 1));
@@ -0,0 +1,10 @@
+import { XBoardEngine } from '../lib/ai/XBoardEngine';
+import { serveEngine } from './serveEngine';
+
+/**
+ * XBoard entry point
+ * Runs a trained agent as a CECP (xboard) engine over stdin/stdout:
+ *   npx tsx src/bin/xboard.ts [knowledge.json] [bitbase directory]
+ */
+
+serveEngine((agent, output) => new XBoardEngine(agent, output));
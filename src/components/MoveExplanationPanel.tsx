@@ -0,0 +1,122 @@
+"use client";
+
+import { MoveExplanation, MoveSource } from '@/lib/ai/ChessAIAgent';
+import { EVALUATION_TERMS, EvaluationTerm } from '@/lib/ai/PositionEvaluator';
+
+const sourceLabels: { [source in MoveSource]: { label: string; className: string } } = {
+  book: { label: 'Opening book', className: 'bg-blue-600' },
+  search: { label: 'Search', className: 'bg-purple-600' },
+  tablebase: { label: 'Tablebase', className: 'bg-green-600' },
+  random: { label: 'Exploration', className: 'bg-yellow-600' },
+  blunder: { label: 'Deliberate blunder', className: 'bg-red-600' },
+};
+
+const termLabels: { [term in EvaluationTerm]: string } = {
+  material: 'Material',
+  pieceSquare: 'Piece placement',
+  passedPawns: 'Passed pawns',
+  isolatedPawns: 'Isolated pawns',
+  doubledPawns: 'Doubled pawns',
+  kingSafety: 'King safety',
+  bishopPair: 'Bishop pair',
+  rookFiles: 'Rooks on open files',
+  mobility: 'Mobility',
+};
+
+// Centipawns from White's point of view, shown in pawns
+const formatScore = (centipawns: number) => {
+  const pawns = centipawns / 100;
+  return `${pawns > 0 ? '+' : ''}${pawns.toFixed(2)}`;
+};
+
+interface MoveExplanationPanelProps {
+  move: string;
+  evaluation: number;
+  depth: number;
+  explanation: MoveExplanation;
+}
+
+export default function MoveExplanationPanel({ move, evaluation, depth, explanation }: MoveExplanationPanelProps) {
+  const source = sourceLabels[explanation.source];
+  const { breakdown } = explanation;
+
+  return (
+    <div className="space-y-4 text-sm">
+      <div className="flex items-center justify-between">
+        <span className="text-white font-medium text-lg">{move}</span>
+        <span className={`px-2 py-1 rounded text-xs text-white ${source.className}`}>{source.label}</span>
+      </div>
+
+      <div className="flex justify-between">
+        <span className="text-gray-300">Evaluation:</span>
+        <span className="text-white font-medium">
+          {formatScore(evaluation)}{depth > 0 && <span className="text-gray-400 ml-1">(depth {depth})</span>}
+        </span>
+      </div>
+
+      {explanation.pv.length > 1 && (
+        <div>
+          <span className="text-gray-300">Expected line:</span>
+          <p className="text-white font-mono mt-1">{explanation.pv.join(' ')}</p>
+        </div>
+      )}
+
+      {explanation.bookHit && (
+        <div className="flex justify-between">
+          <span className="text-gray-300">Book move {explanation.bookHit.move}:</span>
+          <span className="text-blue-400">
+            played {explanation.bookHit.games}×, {((explanation.bookHit.wins + explanation.bookHit.draws / 2) / Math.max(1, explanation.bookHit.games) * 100).toFixed(0)}% score
+          </span>
+        </div>
+      )}
+
+      {explanation.alternatives.length > 0 && (
+        <div>
+          <span className="text-gray-300">Alternatives considered:</span>
+          <div className="mt-1 space-y-1">
+            {explanation.alternatives.map(alternative => (
+              <div key={alternative.move} className="flex justify-between">
+                <span className="text-white font-mono">{alternative.pv.join(' ')}</span>
+                <span className="text-gray-400">{formatScore(alternative.evaluation)}</span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <div>
+        <span className="text-gray-300">Evaluation terms at the end of the line:</span>
+        <div className="mt-1 space-y-1">
+          {EVALUATION_TERMS.filter(term => Math.abs(breakdown.terms[term]) >= 1).map(term => (
+            <div key={term} className="flex justify-between">
+              <span className="text-gray-400">{termLabels[term]}</span>
+              <span className={breakdown.terms[term] >= 0 ? 'text-green-400' : 'text-red-400'}>
+                {formatScore(breakdown.terms[term])}
+              </span>
+            </div>
+          ))}
+          {breakdown.network !== undefined && (
+            <div className="flex justify-between">
+              <span className="text-gray-400">Learned adjustment</span>
+              <span className={breakdown.network >= 0 ? 'text-green-400' : 'text-red-400'}>
+                {formatScore(breakdown.network)}
+              </span>
+            </div>
+          )}
+          {breakdown.style !== undefined && Math.abs(breakdown.style) >= 1 && (
+            <div className="flex justify-between">
+              <span className="text-gray-400">Playing style</span>
+              <span className={breakdown.style >= 0 ? 'text-green-400' : 'text-red-400'}>
+                {formatScore(breakdown.style)}
+              </span>
+            </div>
+          )}
+          <div className="flex justify-between border-t border-gray-700 pt-1">
+            <span className="text-gray-300">Total</span>
+            <span className="text-white font-medium">{formatScore(breakdown.total)}</span>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
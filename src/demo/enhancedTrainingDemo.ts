@@ -22,6 +22,7 @@ async function runEnhancedTrainingDemo() {
       learningRate: 0.1,
       explorationRate: 0.3,
       discountFactor: 0.95,
+      lambda: 0.7,
       memorySize: 50000,
       batchSize: 32,
       updateFrequency: 100,
@@ -32,6 +33,7 @@ async function runEnhancedTrainingDemo() {
       learningRate: 0.15,
       explorationRate: 0.25,
       discountFactor: 0.9,
+      lambda: 0.7,
       memorySize: 75000,
       batchSize: 64,
       updateFrequency: 50,
@@ -42,6 +44,7 @@ async function runEnhancedTrainingDemo() {
       learningRate: 0.12,
       explorationRate: 0.2,
       discountFactor: 0.92,
+      lambda: 0.7,
       memorySize: 60000,
       batchSize: 48,
       updateFrequency: 75,
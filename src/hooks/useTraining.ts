@@ -1,7 +1,7 @@
 'use client';
 
 import { useState, useEffect, useCallback, useRef } from 'react';
-import { ChessTrainingEngine, TrainingSession, TrainingMetrics, GameResult } from '../lib/ai/TrainingEngine';
+import { ChessTrainingEngine, TrainingSession, TrainingMetrics, TrainingTimeControl, GameResult } from '../lib/ai/TrainingEngine';
 import { ChessAIAgent, LearningParameters } from '../lib/ai/ChessAIAgent';
 
 export interface TrainingState {
@@ -16,7 +16,7 @@ export interface TrainingState {
 export interface UseTrainingReturn {
   state: TrainingState;
   actions: {
-    startTraining: (agent1: ChessAIAgent, agent2: ChessAIAgent, targetGames?: number) => Promise<string>;
+    startTraining: (agent1: ChessAIAgent, agent2: ChessAIAgent, targetGames?: number, timeControl?: TrainingTimeControl) => Promise<string>;
     stopTraining: () => void;
     createAgent: (name: string, learningParams?: Partial<LearningParameters>) => ChessAIAgent;
     saveAgent: (agent: ChessAIAgent) => void;
@@ -27,6 +27,9 @@ export interface UseTrainingReturn {
   };
 }
 
+// Sessions started from the UI play bullet games: 30 seconds each, plus a fifth of a second per move
+const UI_TRAINING_TIME_CONTROL: TrainingTimeControl = { initial: 30, increment: 0.2 };
+
 export const useTraining = (): UseTrainingReturn => {
   const [state, setState] = useState<TrainingState>({
     isTraining: false,
@@ -89,7 +92,8 @@ export const useTraining = (): UseTrainingReturn => {
   const startTraining = useCallback(async (
     agent1: ChessAIAgent,
     agent2: ChessAIAgent,
-    targetGames: number = 100
+    targetGames: number = 100,
+    timeControl: TrainingTimeControl = UI_TRAINING_TIME_CONTROL
   ): Promise<string> => {
     if (!trainingEngineRef.current) {
       throw new Error('Training engine not initialized');
@@ -99,7 +103,9 @@ export const useTraining = (): UseTrainingReturn => {
       const sessionId = await trainingEngineRef.current.startTrainingSession(
         agent1,
         agent2,
-        targetGames
+        targetGames,
+        undefined,
+        timeControl
       );
 
       currentSessionIdRef.current = sessionId;
@@ -0,0 +1,152 @@
+/**
+ * Attack Maps
+ * Attacked squares and pseudo-legal mobility for both sides, computed straight from the board array
+ */
+
+type BoardSquare = { type: string; color: string } | null;
+type Color = 'w' | 'b';
+
+export interface AttackMaps {
+  attacks: { w: Uint8Array; b: Uint8Array }; // number of attackers per square (0 = a1, 63 = h8)
+  pawnAttacks: { w: Uint8Array; b: Uint8Array };
+  mobility: { w: number; b: number }; // weighted pseudo-legal moves of knights, bishops, rooks, queens
+  moves: { w: number; b: number }; // pseudo-legal move count for all pieces (castling excluded)
+  kings: { w: number; b: number }; // king squares, -1 if missing
+}
+
+const KNIGHT_OFFSETS = [[1, 2], [2, 1], [2, -1], [1, -2], [-1, -2], [-2, -1], [-2, 1], [-1, 2]];
+const KING_OFFSETS = [[1, 0], [1, 1], [0, 1], [-1, 1], [-1, 0], [-1, -1], [0, -1], [1, -1]];
+const BISHOP_DIRECTIONS = [[1, 1], [1, -1], [-1, 1], [-1, -1]];
+const ROOK_DIRECTIONS = [[1, 0], [-1, 0], [0, 1], [0, -1]];
+
+// Value of one reachable square per piece type
+const MOBILITY_WEIGHTS: { [piece: string]: number } = {
+  'n': 4, 'b': 5, 'r': 2, 'q': 1,
+};
+
+/**
+ * Build attack maps for a board as returned by chess.board() (row 0 = rank 8).
+ * Mobility only counts squares not occupied by own pieces and not attacked by enemy pawns.
+ */
+export function computeAttackMaps(board: BoardSquare[][]): AttackMaps {
+  const squares: BoardSquare[] = new Array(64).fill(null);
+  for (let row = 0; row < 8; row++) {
+    for (let file = 0; file < 8; file++) {
+      squares[(7 - row) * 8 + file] = board[row][file];
+    }
+  }
+
+  const maps: AttackMaps = {
+    attacks: { w: new Uint8Array(64), b: new Uint8Array(64) },
+    pawnAttacks: { w: new Uint8Array(64), b: new Uint8Array(64) },
+    mobility: { w: 0, b: 0 },
+    moves: { w: 0, b: 0 },
+    kings: { w: -1, b: -1 },
+  };
+
+  // Pawn attacks first, so piece mobility can exclude squares they cover
+  for (let square = 0; square < 64; square++) {
+    const piece = squares[square];
+    if (!piece || piece.type !== 'p') continue;
+    const color = piece.color as Color;
+    const rank = square >> 3;
+    const file = square & 7;
+    const forward = color === 'w' ? 1 : -1;
+
+    for (const df of [-1, 1]) {
+      const target = squareAt(rank + forward, file + df);
+      if (target < 0) continue;
+      maps.pawnAttacks[color][target]++;
+      maps.attacks[color][target]++;
+      if (squares[target] && squares[target]!.color !== color) maps.moves[color]++;
+    }
+
+    // Pushes (promotions count once)
+    const single = squareAt(rank + forward, file);
+    if (single >= 0 && !squares[single]) {
+      maps.moves[color]++;
+      const startRank = color === 'w' ? 1 : 6;
+      const double = squareAt(rank + 2 * forward, file);
+      if (rank === startRank && double >= 0 && !squares[double]) maps.moves[color]++;
+    }
+  }
+
+  for (let square = 0; square < 64; square++) {
+    const piece = squares[square];
+    if (!piece || piece.type === 'p') continue;
+    const color = piece.color as Color;
+    const enemy: Color = color === 'w' ? 'b' : 'w';
+    const rank = square >> 3;
+    const file = square & 7;
+
+    const targets: number[] = [];
+    switch (piece.type) {
+      case 'n':
+        collectSteps(rank, file, KNIGHT_OFFSETS, targets);
+        break;
+      case 'k':
+        collectSteps(rank, file, KING_OFFSETS, targets);
+        maps.kings[color] = square;
+        break;
+      case 'b':
+        collectRays(squares, rank, file, BISHOP_DIRECTIONS, targets);
+        break;
+      case 'r':
+        collectRays(squares, rank, file, ROOK_DIRECTIONS, targets);
+        break;
+      case 'q':
+        collectRays(squares, rank, file, BISHOP_DIRECTIONS, targets);
+        collectRays(squares, rank, file, ROOK_DIRECTIONS, targets);
+        break;
+    }
+
+    const weight = MOBILITY_WEIGHTS[piece.type] || 0;
+    for (const target of targets) {
+      maps.attacks[color][target]++;
+      const occupant = squares[target];
+      if (occupant && occupant.color === color) continue;
+
+      maps.moves[color]++;
+      if (weight > 0 && maps.pawnAttacks[enemy][target] === 0) {
+        maps.mobility[color] += weight;
+      }
+    }
+  }
+
+  return maps;
+}
+
+/**
+ * Squares around the king (including its own), used for king-safety scoring
+ */
+export function kingZone(kingSquare: number): number[] {
+  if (kingSquare < 0) return [];
+  const zone = [kingSquare];
+  collectSteps(kingSquare >> 3, kingSquare & 7, KING_OFFSETS, zone);
+  return zone;
+}
+
+function squareAt(rank: number, file: number): number {
+  return rank >= 0 && rank < 8 && file >= 0 && file < 8 ? rank * 8 + file : -1;
+}
+
+function collectSteps(rank: number, file: number, offsets: number[][], targets: number[]): void {
+  for (const [dr, df] of offsets) {
+    const target = squareAt(rank + dr, file + df);
+    if (target >= 0) targets.push(target);
+  }
+}
+
+function collectRays(squares: BoardSquare[], rank: number, file: number, directions: number[][], targets: number[]): void {
+  for (const [dr, df] of directions) {
+    let r = rank + dr;
+    let f = file + df;
+    while (r >= 0 && r < 8 && f >= 0 && f < 8) {
+      const target = r * 8 + f;
+      targets.push(target);
+      if (squares[target]) break; // Attacks stop at the first piece either way
+      r += dr;
+      f += df;
+    }
+  }
+}
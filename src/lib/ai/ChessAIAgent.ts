@@ -1,9 +1,25 @@
 import { Chess } from 'chess.js';
+import { TimeManager, SearchLimits } from './TimeManager';
+import { ZobristHasher, ZobristHash } from './Zobrist';
+import { TranspositionTable, TranspositionTableConfig, TranspositionTableStats, BoundType } from './TranspositionTable';
+import { MoveOrderer, MoveOrderingOptions, DEFAULT_MOVE_ORDERING, parseSan } from './MoveOrdering';
+import { EvaluationNetwork, NetworkTrainingSample, encodeBoard } from './EvaluationNetwork';
+import { computeLambdaReturns } from './TemporalDifference';
+import { PositionEvaluator, EvaluationBreakdown, EvaluationWeights } from './PositionEvaluator';
+import { ReplayBuffer, ReplayBufferConfig, ReplayBufferStats, SerializedReplayBuffer } from './ReplayBuffer';
+import { StrengthProfile, CalibrationPoint, strengthProfileForElo, softmaxSelect } from './StrengthLimiter';
+import { Persona, PersonaName, resolvePersona, buildRepertoire, applyPersona, drawScore } from './Persona';
+import { OpeningBook, OpeningBookConfig, BookMove, resultFromLegacy } from './OpeningBook';
+import { PolyglotImportOptions, PolyglotExportOptions, importPolyglotBook, exportPolyglotBook } from './PolyglotBook';
+import { MonteCarloTreeSearch, MCTSConfig, PositionEstimator, PositionEstimate } from './MonteCarloTreeSearch';
+import { BitbaseSet, BitbaseProbe, BitbaseValue, EndgameBitbase } from './EndgameBitbase';
+import { SyzygyTablebase, SyzygyWdl } from './SyzygyTablebase';
 
 export interface LearningParameters {
   learningRate: number;
   explorationRate: number;
   discountFactor: number;
+  lambda: number; // TD(λ) trace decay: 0 = one-step TD, 1 = final outcome only
   memorySize: number;
   batchSize: number;
   updateFrequency: number;
@@ -18,6 +34,84 @@ export interface GameState {
   timeUsed: number;
 }
 
+export interface MoveDecision {
+  move: string;
+  evaluation: number;
+  thinkingTime: number;
+  depth: number; // last fully completed search depth (0 for book/random moves)
+  nodes: number;
+  pv: string[]; // principal variation, starting with the chosen move
+  leafPosition: string; // FEN at the end of the principal variation
+  searchStats: SearchStatistics;
+  source: MoveSource;
+  explanation?: MoveExplanation; // only in explain mode
+}
+
+export type MoveSource = 'book' | 'search' | 'tablebase' | 'random' | 'blunder';
+
+export interface SearchLine {
+  move: string;
+  evaluation: number; // centipawns, White's point of view
+  pv: string[];
+}
+
+export interface MoveExplanation {
+  source: MoveSource;
+  pv: string[];
+  alternatives: SearchLine[]; // best first, chosen move excluded
+  breakdown: EvaluationBreakdown; // static evaluation at the end of the principal variation
+  bookHit: BookMove | null;
+}
+
+export interface PositionAnalysis {
+  fen: string;
+  lines: SearchLine[]; // best first
+  depth: number; // last depth completed for every line
+  nodes: number;
+  time: number; // ms
+  searchStats: SearchStatistics;
+}
+
+export interface MoveOptions {
+  explain?: boolean;
+  alternatives?: number; // how many alternatives to score in explain mode
+  onIteration?: (iteration: SearchIteration) => void; // after each completed depth of the main search
+}
+
+export interface SearchIteration {
+  depth: number;
+  lines: SearchLine[]; // best first
+  nodes: number;
+  time: number; // ms since the search started
+}
+
+export interface SearchStatistics {
+  mainNodes: number;
+  quiescenceNodes: number;
+  transpositionCutoffs: number;
+  betaCutoffs: number;
+  firstMoveCutoffs: number; // beta cutoffs caused by the first move searched
+}
+
+export type SearchAlgorithm = 'alphabeta' | 'mcts';
+
+export interface SearchOptions {
+  algorithm: SearchAlgorithm;
+  quiescence: boolean;
+  maxQuiescencePly: number;
+  moveOrdering: MoveOrderingOptions;
+}
+
+/**
+ * Anything that can choose chess moves: trained agents, external engines
+ */
+export interface MoveProvider {
+  id: string;
+  name: string;
+  makeMove(chess: Chess, limits?: SearchLimits, options?: MoveOptions): Promise<MoveDecision>;
+  analyzePosition(fen: string, limits?: SearchLimits, lineCount?: number): Promise<PositionAnalysis>;
+}
+
 export interface AgentMemory {
   position: string; // FEN notation
   move: string;
@@ -25,10 +119,12 @@ export interface AgentMemory {
   nextPosition: string;
   gameOutcome: 'win' | 'loss' | 'draw';
   evaluation: number;
+  leafPosition?: string; // FEN at the end of the principal variation (TD-Leaf)
+  tdTarget?: number; // λ-return from the mover's point of view, set after the game
 }
 
 export interface AgentKnowledge {
-  openingBook: Map<string, { move: string; frequency: number; winRate: number }>;
+  openingBook: OpeningBook;
   positionEvaluations: Map<string, number>;
   tacticPatterns: Map<string, { pattern: string; solution: string; frequency: number }>;
   endgameTablebase: Map<string, { bestMove: string; evaluation: number }>;
@@ -60,14 +156,80 @@ export interface AgentStats {
   lastUpdated: Date;
 }
 
-export class ChessAIAgent {
+export const MATE_SCORE = 10000; // less the plies to the mate
+const MAX_MATE_PLIES = 1000; // mate scores lie within this many plies of MATE_SCORE
+const MAX_SEARCH_DEPTH = 64;
+const NETWORK_EVAL_SCALE = 300; // centipawns for a predicted certain win
+const MAX_TRAINING_BATCHES = 64; // per network update
+const DEFAULT_EXPLAINED_ALTERNATIVES = 3;
+const MCTS_VALUE_SCALE = 400; // centipawns per unit of atanh(value) for MCTS estimates
+const MCTS_PRIOR_SCALE = 100; // centipawns per unit of softmax logit for evaluation priors
+const BITBASE_WIN_SCORE = MATE_SCORE / 2; // plus progress: below any mate the search finds
+const SYZYGY_WIN_SCORE = BITBASE_WIN_SCORE + 1000; // minus plies to zeroing, when known
+
+/**
+ * Whether a score (from White's point of view) is a forced mate for either side
+ */
+export function isMateScore(score: number): boolean {
+  return Math.abs(score) > MATE_SCORE - MAX_MATE_PLIES;
+}
+
+/**
+ * Plies from the scored position to the mate of a mate score
+ */
+export function matePlies(score: number): number {
+  return MATE_SCORE - Math.abs(score);
+}
+
+// The search counts mates from its root; the transposition table from the
+// position stored, so that an entry holds wherever the position is reached
+function scoreToTable(score: number, ply: number): number {
+  return isMateScore(score) ? score + Math.sign(score) * ply : score;
+}
+
+function scoreFromTable(score: number, ply: number): number {
+  return isMateScore(score) ? score - Math.sign(score) * ply : score;
+}
+
+const DEFAULT_SEARCH_OPTIONS: SearchOptions = {
+  algorithm: 'alphabeta',
+  quiescence: true,
+  maxQuiescencePly: 8,
+  moveOrdering: DEFAULT_MOVE_ORDERING,
+};
+
+function createSearchStatistics(): SearchStatistics {
+  return { mainNodes: 0, quiescenceNodes: 0, transpositionCutoffs: 0, betaCutoffs: 0, firstMoveCutoffs: 0 };
+}
+
+export class ChessAIAgent implements MoveProvider {
   public id: string;
   public name: string;
   public learningParams: LearningParameters;
-  public memory: AgentMemory[] = [];
   public knowledge: AgentKnowledge;
   public stats: AgentStats;
-  private neuralWeights: number[][];
+  private evaluator: PositionEvaluator = new PositionEvaluator();
+  private evaluationNetwork: EvaluationNetwork;
+  private replayBuffer: ReplayBuffer;
+  private timeManager: TimeManager = new TimeManager();
+  private searchOptions: SearchOptions = { ...DEFAULT_SEARCH_OPTIONS };
+  private searchStats: SearchStatistics = createSearchStatistics();
+  private moveOrderer: MoveOrderer = new MoveOrderer();
+  private searchAborted: boolean = false;
+  private canAbortSearch: boolean = false;
+  private stopRequested: boolean = false; // by stopSearch, from outside the running search
+  private zobrist: ZobristHasher = new ZobristHasher();
+  private transpositionTable: TranspositionTable = new TranspositionTable();
+  private rootExclusions: Set<string> = new Set(); // root moves skipped by multi-PV passes
+  private nodeLimit: number = Infinity;
+  private strengthProfile: StrengthProfile | null = null;
+  private strengthCalibration: CalibrationPoint[] = [];
+  private persona: Persona | null = null;
+  private repertoire: Map<string, string[]> = new Map(); // persona opening moves by FEN
+  private searchSide: 'w' | 'b' = 'w'; // side the agent is searching for (contempt and risk)
+  private mcts: MonteCarloTreeSearch = new MonteCarloTreeSearch(this.createEvaluationEstimator());
+  private bitbases: BitbaseSet = new BitbaseSet();
+  private syzygy: SyzygyTablebase | null = null;
 
   constructor(
     id: string,
@@ -78,10 +240,11 @@ export class ChessAIAgent {
     this.id = id;
     this.name = name;
     this.learningParams = learningParams;
+    this.replayBuffer = new ReplayBuffer({ capacity: learningParams.memorySize });
     
     // Initialize knowledge base
     this.knowledge = {
-      openingBook: new Map(),
+      openingBook: new OpeningBook(),
       positionEvaluations: new Map(),
       tacticPatterns: new Map(),
       endgameTablebase: new Map(),
@@ -114,28 +277,13 @@ export class ChessAIAgent {
       lastUpdated: new Date(),
     };
 
-    // Initialize simple neural network weights (position evaluation)
-    this.neuralWeights = this.initializeWeights();
+    // Evaluation network (piece-square inputs, trained on game outcomes)
+    this.evaluationNetwork = new EvaluationNetwork();
     
     // Load basic opening principles
     this.initializeOpeningBook();
   }
 
-  private initializeWeights(): number[][] {
-    const layers = [64, 128, 64, 1]; // Input: 64 squares, Hidden layers, Output: evaluation
-    const weights: number[][] = [];
-    
-    for (let i = 0; i < layers.length - 1; i++) {
-      const layerWeights: number[] = [];
-      for (let j = 0; j < layers[i] * layers[i + 1]; j++) {
-        layerWeights.push((Math.random() - 0.5) * 2); // Random weights between -1 and 1
-      }
-      weights.push(layerWeights);
-    }
-    
-    return weights;
-  }
-
   private initializeOpeningBook(): void {
     // Initialize with basic opening principles
     const openingMoves = [
@@ -147,15 +295,11 @@ export class ChessAIAgent {
     ];
 
     openingMoves.forEach(opening => {
-      this.knowledge.openingBook.set(opening.fen, {
-        move: opening.move,
-        frequency: opening.frequency,
-        winRate: opening.winRate
-      });
+      this.knowledge.openingBook.add(opening.fen, opening.move, resultFromLegacy(opening));
     });
   }
 
-  public async makeMove(chess: Chess): Promise<{ move: string; evaluation: number; thinkingTime: number }> {
+  public async makeMove(chess: Chess, limits: SearchLimits = {}, options: MoveOptions = {}): Promise<MoveDecision> {
     const startTime = Date.now();
     
     const currentFen = chess.fen();
@@ -164,25 +308,116 @@ export class ChessAIAgent {
     if (legalMoves.length === 0) {
       throw new Error('No legal moves available');
     }
+    this.setSearchSide(chess.turn());
 
     let bestMove: string;
     let evaluation: number;
+    let depth = 0;
+    let nodes = 0;
+    let pv: string[] = [];
+    let searchStats = createSearchStatistics();
+    let source: MoveSource;
 
-    // Check opening book first
-    const openingMove = this.knowledge.openingBook.get(currentFen);
-    if (openingMove && Math.random() < (1 - this.learningParams.explorationRate)) {
+    // Check the persona's repertoire and the opening book first, then exact and learned endgame positions
+    const repertoireMoves = (this.repertoire.get(currentFen) || []).filter(move => legalMoves.includes(move));
+    const openingMove = this.knowledge.openingBook.select(currentFen, legalMoves);
+    const bitbaseResult = this.strengthProfile ? null : this.probeBitbase(chess);
+    const syzygyResult = this.strengthProfile || bitbaseResult ? null : this.probeSyzygy(chess);
+    const tablebaseEntry = this.knowledge.endgameTablebase.get(currentFen);
+    const followBook = Math.random() < (1 - this.learningParams.explorationRate);
+    if (repertoireMoves.length > 0 && followBook) {
+      bestMove = repertoireMoves[Math.floor(Math.random() * repertoireMoves.length)];
+      evaluation = this.evaluatePosition(chess);
+      pv = [bestMove];
+      source = 'book';
+    } else if (openingMove && followBook) {
       bestMove = openingMove.move;
       evaluation = this.evaluatePosition(chess);
+      pv = [bestMove];
+      source = 'book';
+    } else if (bitbaseResult && bitbaseResult.moves.length > 0) {
+      // Search only among the moves that keep the bitbase result
+      const excluded = legalMoves.filter(move => !bitbaseResult.moves.includes(move));
+      const result = await this.iterativeDeepening(chess, limits, options.onIteration, excluded);
+      bestMove = result.move || bitbaseResult.moves[0];
+      evaluation = result.move ? result.evaluation : bitbaseResult.evaluation;
+      depth = result.depth;
+      nodes = result.nodes;
+      pv = result.pv.length > 0 ? result.pv : [bestMove];
+      searchStats = result.searchStats;
+      source = 'tablebase';
+    } else if (syzygyResult && syzygyResult.moves.length > 0) {
+      // Likewise among the moves that keep the Syzygy result (the fastest ones when winning)
+      const excluded = legalMoves.filter(move => !syzygyResult.moves.includes(move));
+      const result = await this.iterativeDeepening(chess, limits, options.onIteration, excluded);
+      bestMove = result.move || syzygyResult.moves[0];
+      evaluation = result.move ? result.evaluation : syzygyResult.evaluation;
+      depth = result.depth;
+      nodes = result.nodes;
+      pv = result.pv.length > 0 ? result.pv : [bestMove];
+      searchStats = result.searchStats;
+      source = 'tablebase';
+    } else if (tablebaseEntry && legalMoves.includes(tablebaseEntry.bestMove)) {
+      bestMove = tablebaseEntry.bestMove;
+      evaluation = tablebaseEntry.evaluation;
+      pv = [bestMove];
+      source = 'tablebase';
+    } else if (this.strengthProfile) {
+      const result = await this.searchAtStrength(chess, limits, this.strengthProfile);
+      bestMove = result.move;
+      evaluation = result.evaluation;
+      depth = result.depth;
+      nodes = result.nodes;
+      pv = result.pv;
+      searchStats = result.searchStats;
+      source = result.blunder ? 'blunder' : 'search';
+    } else if (this.searchOptions.algorithm === 'mcts') {
+      const result = await this.mcts.search(chess, limits);
+      bestMove = result.move;
+      evaluation = this.mctsValueToCentipawns(result.value, chess.turn(), result.pv.length);
+      depth = result.pv.length;
+      nodes = result.simulations;
+      pv = result.pv;
+      searchStats = { ...createSearchStatistics(), mainNodes: result.evaluations };
+      source = 'search';
     } else {
-      // Use minimax with alpha-beta pruning
-      const result = this.minimax(chess, this.stats.averageDepth, -Infinity, Infinity, chess.turn() === 'w');
+      // Iterative deepening minimax with alpha-beta pruning
+      const result = await this.iterativeDeepening(chess, limits, options.onIteration);
       bestMove = result.move || legalMoves[0];
       evaluation = result.evaluation;
+      depth = result.depth;
+      nodes = result.nodes;
+      pv = result.pv.length > 0 ? result.pv : [bestMove];
+      searchStats = result.searchStats;
+      source = 'search';
     }
 
     // Apply exploration (random move sometimes)
-    if (Math.random() < this.learningParams.explorationRate) {
-      bestMove = legalMoves[Math.floor(Math.random() * legalMoves.length)];
+    if (source !== 'tablebase' && Math.random() < this.learningParams.explorationRate) {
+      const randomMove = legalMoves[Math.floor(Math.random() * legalMoves.length)];
+      if (randomMove !== bestMove) {
+        bestMove = randomMove;
+        pv = [randomMove];
+        source = 'random';
+      }
+    }
+
+    const leafPosition = this.resolveLeafPosition(currentFen, pv);
+
+    let explanation: MoveExplanation | undefined;
+    if (options.explain) {
+      explanation = {
+        source,
+        pv: [...pv],
+        alternatives: await this.scoreAlternatives(
+          chess,
+          bestMove,
+          Math.max(1, depth),
+          options.alternatives ?? DEFAULT_EXPLAINED_ALTERNATIVES
+        ),
+        breakdown: this.getEvaluationBreakdown(new Chess(leafPosition)),
+        bookHit: openingMove ? { ...openingMove } : null,
+      };
     }
 
     const thinkingTime = Date.now() - startTime;
@@ -191,119 +426,573 @@ export class ChessAIAgent {
     this.stats.positionsAnalyzed++;
     this.stats.averageThinkingTime = (this.stats.averageThinkingTime + thinkingTime) / 2;
     
-    return { move: bestMove, evaluation, thinkingTime };
+    return { move: bestMove, evaluation, thinkingTime, depth, nodes, pv, leafPosition, searchStats, source, explanation };
   }
 
-  private minimax(chess: Chess, depth: number, alpha: number, beta: number, maximizingPlayer: boolean): { move: string | null; evaluation: number } {
-    if (depth === 0 || chess.isGameOver()) {
-      return { move: null, evaluation: this.evaluatePosition(chess) };
+  /**
+   * Strength-limited move: a depth- and node-limited multi-PV search sampled with a
+   * softmax over the lines, occasionally replaced by a deliberate blunder
+   */
+  private async searchAtStrength(chess: Chess, limits: SearchLimits, profile: StrengthProfile): Promise<{
+    move: string;
+    evaluation: number;
+    depth: number;
+    nodes: number;
+    pv: string[];
+    searchStats: SearchStatistics;
+    blunder: boolean;
+  }> {
+    const maximizingPlayer = chess.turn() === 'w';
+
+    if (profile.blunderModel !== 'none' && Math.random() < profile.blunderRate) {
+      if (profile.blunderModel === 'random') {
+        const moves = chess.moves();
+        const move = moves[Math.floor(Math.random() * moves.length)];
+        return { move, evaluation: this.evaluatePosition(chess), depth: 0, nodes: 0, pv: [move], searchStats: createSearchStatistics(), blunder: true };
+      }
+
+      // Shallow blunder: one ply, no quiescence, so every reply is overlooked
+      const savedQuiescence = this.searchOptions.quiescence;
+      this.searchOptions.quiescence = false;
+      try {
+        const result = await this.searchLines(chess, { depth: 1 }, 1);
+        const line = result.lines[0];
+        return { ...line, depth: result.depth, nodes: result.nodes, searchStats: result.searchStats, blunder: true };
+      } finally {
+        this.searchOptions.quiescence = savedQuiescence;
+      }
     }
 
-    const moves = chess.moves();
-    let bestMove: string | null = null;
+    const result = await this.searchLines(chess, {
+      ...limits,
+      depth: Math.min(limits.depth ?? profile.maxDepth, profile.maxDepth),
+      nodes: Math.min(limits.nodes ?? Infinity, profile.nodeBudget),
+    }, profile.candidateMoves);
+    const line = softmaxSelect(result.lines, maximizingPlayer, profile.softmaxScale, this.learningParams.temperature);
 
-    if (maximizingPlayer) {
-      let maxEval = -Infinity;
-      
-      for (const move of moves) {
+    return { ...line, depth: result.depth, nodes: result.nodes, searchStats: result.searchStats, blunder: false };
+  }
+
+  /**
+   * MCTS estimates from the static evaluation: priors are a softmax over the
+   * positions each move leads to, the value is the best of them (one ply ahead)
+   */
+  private createEvaluationEstimator(): PositionEstimator {
+    return (chess: Chess, moves: string[]): PositionEstimate => {
+      const sign = chess.turn() === 'w' ? 1 : -1;
+      const scores = moves.map(move => {
         chess.move(move);
-        const eval_result = this.minimax(chess, depth - 1, alpha, beta, false);
+        const score = sign * this.evaluatePosition(chess, 1);
         chess.undo();
-        
-        if (eval_result.evaluation > maxEval) {
-          maxEval = eval_result.evaluation;
-          bestMove = move;
-        }
-        
-        alpha = Math.max(alpha, eval_result.evaluation);
-        if (beta <= alpha) break; // Alpha-beta pruning
+        return score;
+      });
+
+      const best = Math.max(...scores);
+      const priors = new Map<string, number>();
+      moves.forEach((move, i) => priors.set(move, Math.exp((scores[i] - best) / MCTS_PRIOR_SCALE)));
+
+      return { priors, value: Math.tanh(best / MCTS_VALUE_SCALE) };
+    };
+  }
+
+  /**
+   * MCTS value for the side to move as centipawns from White's point of view; a
+   * certain result is a mate at the end of the principal variation
+   */
+  private mctsValueToCentipawns(value: number, turn: 'w' | 'b', pvPlies: number): number {
+    const sign = turn === 'w' ? 1 : -1;
+    if (Math.abs(value) >= 1) return sign * Math.sign(value) * (MATE_SCORE - pvPlies);
+    return sign * Math.atanh(value) * MCTS_VALUE_SCALE;
+  }
+
+  /**
+   * Make the running search return the move of its last completed depth (it reads
+   * the request between root moves; the first depth always completes)
+   */
+  public stopSearch(): void {
+    this.stopRequested = true;
+    this.mcts.stop();
+  }
+
+  /**
+   * Analysis mode: the best `lineCount` moves of a position, each with its score
+   * and principal variation. Only the search is used, never the book or exploration.
+   */
+  public async analyzePosition(
+    fen: string,
+    limits: SearchLimits = {},
+    lineCount: number = 1,
+    options: Pick<MoveOptions, 'onIteration'> = {}
+  ): Promise<PositionAnalysis> {
+    const startTime = Date.now();
+    const chess = new Chess(fen);
+
+    if (chess.isGameOver()) {
+      return { fen: chess.fen(), lines: [], depth: 0, nodes: 0, time: 0, searchStats: createSearchStatistics() };
+    }
+
+    const result = await this.searchLines(chess, limits, Math.max(1, Math.floor(lineCount)), options.onIteration);
+    this.stats.positionsAnalyzed++;
+
+    return { fen: chess.fen(), ...result, time: Date.now() - startTime };
+  }
+
+  /**
+   * The best `count` root moves other than the chosen one, searched to the same
+   * depth with the table the main search left behind
+   */
+  private async scoreAlternatives(chess: Chess, chosenMove: string, depth: number, count: number): Promise<SearchLine[]> {
+    if (count <= 0) return [];
+
+    this.searchAborted = false;
+    this.canAbortSearch = false;
+    return this.searchRootLines(chess, depth, count, [chosenMove], []);
+  }
+
+  private resolveLeafPosition(fen: string, pv: string[]): string {
+    const board = new Chess(fen);
+    for (const move of pv) {
+      try {
+        board.move(move);
+      } catch {
+        break;
       }
-      
-      return { move: bestMove, evaluation: maxEval };
-    } else {
-      let minEval = Infinity;
-      
-      for (const move of moves) {
-        chess.move(move);
-        const eval_result = this.minimax(chess, depth - 1, alpha, beta, true);
-        chess.undo();
-        
-        if (eval_result.evaluation < minEval) {
-          minEval = eval_result.evaluation;
-          bestMove = move;
-        }
-        
+    }
+    return board.fen();
+  }
+
+  /**
+   * Search one depth at a time until the depth limit or the time budget runs out.
+   * The move from the last completed iteration is returned; an iteration cut
+   * short by the clock is discarded.
+   */
+  private async iterativeDeepening(
+    chess: Chess,
+    limits: SearchLimits,
+    onIteration?: (iteration: SearchIteration) => void,
+    excludedMoves: string[] = []
+  ): Promise<{
+    move: string | null;
+    evaluation: number;
+    depth: number;
+    nodes: number;
+    pv: string[];
+    searchStats: SearchStatistics;
+  }> {
+    const result = await this.searchLines(chess, limits, 1, onIteration, excludedMoves);
+    const best = result.lines[0];
+
+    return {
+      move: best ? best.move : null,
+      evaluation: best ? best.evaluation : 0,
+      depth: result.depth,
+      nodes: result.nodes,
+      pv: best ? best.pv : [],
+      searchStats: result.searchStats,
+    };
+  }
+
+  /**
+   * Iterative deepening over the best `lineCount` root moves (multi-PV)
+   */
+  private async searchLines(
+    chess: Chess,
+    limits: SearchLimits,
+    lineCount: number,
+    onIteration?: (iteration: SearchIteration) => void,
+    excludedMoves: string[] = []
+  ): Promise<{
+    lines: SearchLine[];
+    depth: number;
+    nodes: number;
+    searchStats: SearchStatistics;
+  }> {
+    this.timeManager.start(limits);
+    this.nodeLimit = limits.nodes ?? Infinity;
+    this.setSearchSide(chess.turn());
+    this.searchStats = createSearchStatistics();
+    this.searchAborted = false;
+    this.canAbortSearch = false;
+    this.stopRequested = false;
+
+    const maxDepth = limits.depth
+      ?? (this.timeManager.isTimed() ? MAX_SEARCH_DEPTH : this.stats.averageDepth);
+    this.transpositionTable.newSearch();
+    this.moveOrderer.newSearch();
+
+    let lines: SearchLine[] = [];
+    let completedDepth = 0;
+
+    for (let depth = 1; depth <= maxDepth; depth++) {
+      const iteration = await this.searchRootLines(chess, depth, lineCount, excludedMoves, lines.map(line => line.pv));
+      if (this.searchAborted) break;
+
+      lines = iteration;
+      completedDepth = depth;
+
+      // Once one iteration is complete there is always a move to fall back on
+      this.canAbortSearch = true;
+
+      onIteration?.({
+        depth,
+        lines,
+        nodes: this.searchStats.mainNodes + this.searchStats.quiescenceNodes,
+        time: this.timeManager.elapsed(),
+      });
+
+      if (lines.every(line => isMateScore(line.evaluation))) break; // Every line is decided
+      if (!this.timeManager.canStartIteration() || this.stopRequested) break;
+      if (this.searchStats.mainNodes + this.searchStats.quiescenceNodes >= this.nodeLimit) break;
+    }
+
+    return {
+      lines,
+      depth: completedDepth,
+      nodes: this.searchStats.mainNodes + this.searchStats.quiescenceNodes,
+      searchStats: { ...this.searchStats },
+    };
+  }
+
+  /**
+   * One fixed-depth pass per line: each pass searches the root without the
+   * moves already claimed by better lines (or explicitly excluded)
+   */
+  private async searchRootLines(
+    chess: Chess,
+    depth: number,
+    lineCount: number,
+    excludedMoves: string[],
+    pvHints: string[][]
+  ): Promise<SearchLine[]> {
+    const maximizingPlayer = chess.turn() === 'w';
+    const rootHash = this.zobrist.hashPosition(chess);
+    const lines: SearchLine[] = [];
+    this.rootExclusions = new Set(excludedMoves);
+
+    try {
+      for (let i = 0; i < lineCount; i++) {
+        const result = await this.searchRoot(chess, depth, maximizingPlayer, rootHash, pvHints[i] || []);
+        if (this.searchAborted || !result.move) break;
+
+        lines.push({ move: result.move, evaluation: result.evaluation, pv: result.pv });
+        this.rootExclusions.add(result.move);
+      }
+    } finally {
+      this.rootExclusions = new Set();
+    }
+
+    return lines;
+  }
+
+  /**
+   * The root of a fixed-depth pass: minimax at ply 0, handing control to the
+   * event loop between root moves now and then, so that a stop request (or any
+   * other input) is read while the search runs
+   */
+  private async searchRoot(
+    chess: Chess,
+    depth: number,
+    maximizingPlayer: boolean,
+    hash: ZobristHash,
+    pvHint: string[]
+  ): Promise<{ move: string | null; evaluation: number; pv: string[] }> {
+    this.searchStats.mainNodes++;
+    this.checkTime();
+
+    if (chess.isGameOver()) {
+      return { move: null, evaluation: this.evaluatePosition(chess), pv: [] };
+    }
+
+    // The table only orders the root, which must produce a move
+    const entry = this.transpositionTable.probe(hash);
+    const legalMoves = chess.moves().filter(move => !this.rootExclusions.has(move));
+    const moves = this.moveOrderer.orderMoves(chess, legalMoves, 0, [pvHint[0], entry?.bestMove]);
+
+    let alpha = -Infinity;
+    let beta = Infinity;
+    let bestMove: string | null = null;
+    let bestPv: string[] = [];
+    let bestEval = maximizingPlayer ? -Infinity : Infinity;
+
+    for (const move of moves) {
+      const played = chess.move(move);
+      const childHint = move === pvHint[0] ? pvHint.slice(1) : [];
+      const result = this.minimax(chess, depth - 1, alpha, beta, !maximizingPlayer, this.zobrist.updateHash(hash, played), 1, childHint);
+      chess.undo();
+      if (this.searchAborted) break;
+
+      if (maximizingPlayer ? result.evaluation > bestEval : result.evaluation < bestEval) {
+        bestEval = result.evaluation;
+        bestMove = move;
+        bestPv = [move, ...result.pv];
+      }
+      if (maximizingPlayer) {
+        alpha = Math.max(alpha, result.evaluation);
+      } else {
+        beta = Math.min(beta, result.evaluation);
+      }
+
+      await this.timeManager.yieldIfDue();
+      this.checkTime();
+      if (this.searchAborted) break;
+    }
+
+    // A root searched without some of its moves doesn't have its true score
+    if (!this.searchAborted && this.rootExclusions.size === 0) {
+      this.transpositionTable.store(hash, depth, bestEval, 'exact', bestMove);
+    }
+
+    return { move: bestMove, evaluation: bestEval, pv: bestPv };
+  }
+
+  private minimax(
+    chess: Chess,
+    depth: number,
+    alpha: number,
+    beta: number,
+    maximizingPlayer: boolean,
+    hash: ZobristHash,
+    ply: number = 0,
+    pvHint: string[] = []
+  ): { move: string | null; evaluation: number; pv: string[] } {
+    this.searchStats.mainNodes++;
+    this.checkTime();
+
+    if (chess.isGameOver()) {
+      return { move: null, evaluation: this.evaluatePosition(chess, ply), pv: [] };
+    }
+    // Bitbase draws need no search; wins and losses still do, to make progress
+    if (ply > 0 && this.bitbases.size > 0 && this.bitbases.probe(chess)?.value === 'draw') {
+      return { move: null, evaluation: drawScore(this.persona, this.searchSide), pv: [] };
+    }
+    // Syzygy results are exact right after a capture or pawn move (no fifty-move history to account for)
+    if (ply > 0 && this.syzygy && chess.fen().split(' ')[4] === '0') {
+      const wdl = this.syzygy.probeWdl(chess);
+      if (wdl !== null) return { move: null, evaluation: this.syzygyScore(chess, wdl, null), pv: [] };
+    }
+    if (depth === 0) {
+      const evaluation = this.searchOptions.quiescence
+        ? this.quiescence(chess, alpha, beta, maximizingPlayer, ply, 0)
+        : this.evaluatePosition(chess, ply);
+      return { move: null, evaluation, pv: [] };
+    }
+
+    // Probe the transposition table (never cut off at the root, which must produce a move)
+    const entry = this.transpositionTable.probe(hash);
+    if (entry && entry.depth >= depth && ply > 0) {
+      const score = scoreFromTable(entry.score, ply);
+      if (entry.bound === 'exact') {
+        this.searchStats.transpositionCutoffs++;
+        return { move: entry.bestMove, evaluation: score, pv: entry.bestMove ? [entry.bestMove] : [] };
+      }
+      if (entry.bound === 'lower') alpha = Math.max(alpha, score);
+      if (entry.bound === 'upper') beta = Math.min(beta, score);
+      if (alpha >= beta) {
+        this.searchStats.transpositionCutoffs++;
+        return { move: entry.bestMove, evaluation: score, pv: entry.bestMove ? [entry.bestMove] : [] };
+      }
+    }
+
+    // Previous iteration's principal variation and the hash move first, then captures, killers, history
+    const legalMoves = ply === 0 && this.rootExclusions.size > 0
+      ? chess.moves().filter(move => !this.rootExclusions.has(move))
+      : chess.moves();
+    const moves = this.moveOrderer.orderMoves(chess, legalMoves, ply, [pvHint[0], entry?.bestMove]);
+
+    const alphaOriginal = alpha;
+    const betaOriginal = beta;
+    let bestMove: string | null = null;
+    let bestPv: string[] = [];
+    let bestEval = maximizingPlayer ? -Infinity : Infinity;
+
+    for (let i = 0; i < moves.length; i++) {
+      const move = moves[i];
+      const played = chess.move(move);
+      const childHash = this.zobrist.updateHash(hash, played);
+      const childHint = move === pvHint[0] ? pvHint.slice(1) : [];
+      const eval_result = this.minimax(chess, depth - 1, alpha, beta, !maximizingPlayer, childHash, ply + 1, childHint);
+      chess.undo();
+      if (this.searchAborted) break;
+
+      if (maximizingPlayer ? eval_result.evaluation > bestEval : eval_result.evaluation < bestEval) {
+        bestEval = eval_result.evaluation;
+        bestMove = move;
+        bestPv = [move, ...eval_result.pv];
+      }
+
+      if (maximizingPlayer) {
+        alpha = Math.max(alpha, eval_result.evaluation);
+      } else {
         beta = Math.min(beta, eval_result.evaluation);
-        if (beta <= alpha) break; // Alpha-beta pruning
       }
-      
-      return { move: bestMove, evaluation: minEval };
+      if (beta <= alpha) {
+        // Alpha-beta pruning; remember the refutation for sibling nodes
+        this.searchStats.betaCutoffs++;
+        if (i === 0) this.searchStats.firstMoveCutoffs++;
+        this.moveOrderer.recordCutoff(chess, move, ply, depth);
+        break;
+      }
     }
+
+    // A root searched without some of its moves doesn't have its true score
+    if (!this.searchAborted && !(ply === 0 && this.rootExclusions.size > 0)) {
+      // Scores are from White's point of view, so bounds are too
+      let bound: BoundType = 'exact';
+      if (bestEval <= alphaOriginal) bound = 'upper';
+      else if (bestEval >= betaOriginal) bound = 'lower';
+      this.transpositionTable.store(hash, depth, scoreToTable(bestEval, ply), bound, bestMove);
+    }
+
+    return { move: bestMove, evaluation: bestEval, pv: bestPv };
   }
 
-  private evaluatePosition(chess: Chess): number {
-    if (chess.isCheckmate()) {
-      return chess.turn() === 'w' ? -10000 : 10000;
+  /**
+   * Resolve captures (and checks on the first ply) until the position is quiet,
+   * so the static evaluation is never taken in the middle of an exchange
+   */
+  private quiescence(
+    chess: Chess,
+    alpha: number,
+    beta: number,
+    maximizingPlayer: boolean,
+    ply: number,
+    qply: number
+  ): number {
+    this.searchStats.quiescenceNodes++;
+    this.checkTime();
+
+    if (chess.isGameOver()) {
+      return this.evaluatePosition(chess, ply + qply);
     }
-    
-    if (chess.isDraw()) {
-      return 0;
+
+    const inCheck = chess.inCheck();
+    const standPat = this.evaluatePosition(chess, ply + qply);
+    if (qply >= this.searchOptions.maxQuiescencePly || this.searchAborted) {
+      return standPat;
     }
 
-    let evaluation = 0;
-    const board = chess.board();
+    let best: number;
+    let moves: string[];
 
-    // Piece values
-    const pieceValues: { [key: string]: number } = {
-      'p': 100, 'n': 320, 'b': 330, 'r': 500, 'q': 900, 'k': 20000,
-    };
+    if (inCheck) {
+      // No standing pat in check: every evasion has to be searched
+      best = maximizingPlayer ? -Infinity : Infinity;
+      moves = this.moveOrderer.orderMoves(chess, chess.moves(), ply + qply);
+    } else {
+      best = standPat;
+      if (maximizingPlayer) {
+        if (standPat >= beta) return standPat;
+        alpha = Math.max(alpha, standPat);
+      } else {
+        if (standPat <= alpha) return standPat;
+        beta = Math.min(beta, standPat);
+      }
 
-    // Material evaluation
-    for (let rank = 0; rank < 8; rank++) {
-      for (let file = 0; file < 8; file++) {
-        const square = board[rank][file];
-        if (square) {
-          const pieceValue = pieceValues[square.type] || 0;
-          evaluation += square.color === 'w' ? pieceValue : -pieceValue;
-          
-          // Position-based bonuses
-          evaluation += this.getPositionalValue(square.type, square.color, rank, file);
-        }
+      const tactical = chess.moves().filter(move => {
+        const info = parseSan(move);
+        return info.isCapture || info.promotion !== null || (qply === 0 && info.isCheck);
+      });
+      moves = this.moveOrderer.orderCaptures(chess, tactical);
+    }
+
+    for (const move of moves) {
+      chess.move(move);
+      const score = this.quiescence(chess, alpha, beta, !maximizingPlayer, ply, qply + 1);
+      chess.undo();
+      if (this.searchAborted) break;
+
+      if (maximizingPlayer) {
+        best = Math.max(best, score);
+        alpha = Math.max(alpha, score);
+      } else {
+        best = Math.min(best, score);
+        beta = Math.min(beta, score);
       }
+      if (beta <= alpha) break;
     }
 
-    // Add mobility bonus
-    const whiteMoves = chess.turn() === 'w' ? chess.moves().length : 0;
-    chess.load(chess.fen().replace(' w ', ' b '));
-    const blackMoves = chess.turn() === 'b' ? chess.moves().length : 0;
-    chess.load(chess.fen().replace(' b ', ' w '));
-    
-    evaluation += (whiteMoves - blackMoves) * 5;
+    return best;
+  }
 
-    return evaluation;
+  private checkTime(): void {
+    const nodes = this.searchStats.mainNodes + this.searchStats.quiescenceNodes;
+    if (!this.canAbortSearch) return;
+    if (this.stopRequested || nodes >= this.nodeLimit || ((nodes & 31) === 0 && this.timeManager.isTimeUp())) {
+      this.searchAborted = true;
+    }
   }
 
-  private getPositionalValue(piece: string, color: string, rank: number, file: number): number {
-    // Simple position tables for better play
-    const centerBonus = Math.max(0, 3 - Math.abs(3.5 - rank)) + Math.max(0, 3 - Math.abs(3.5 - file));
+  /**
+   * Static score from White's point of view; a mate counts the plies from the
+   * root of the search, so nearer mates score higher
+   */
+  private evaluatePosition(chess: Chess, ply: number = 0): number {
+    if (chess.isCheckmate()) {
+      return chess.turn() === 'w' ? -(MATE_SCORE - ply) : MATE_SCORE - ply;
+    }
     
-    switch (piece) {
-      case 'p':
-        return color === 'w' ? rank * 10 : (7 - rank) * 10; // Pawns advance
-      case 'n':
-      case 'b':
-        return centerBonus * 5; // Knights and bishops like the center
-      case 'k':
-        // King safety in early game, activity in endgame
-        return this.isEndgame() ? centerBonus * 3 : -centerBonus * 5;
-      default:
-        return 0;
+    if (chess.isDraw()) {
+      return drawScore(this.persona, this.searchSide);
     }
+
+    const probe = this.bitbases.probe(chess);
+    if (probe) return this.bitbaseScore(chess, probe);
+
+    return this.getEvaluationBreakdown(chess).total;
   }
 
-  private isEndgame(): boolean {
-    // Simple endgame detection
-    return this.stats.gamesPlayed > 0; // Placeholder - could be more sophisticated
+  /**
+   * Bitbase result as a score: the draw score, or a won position short of a mate
+   * that still rewards progress towards converting it
+   */
+  private bitbaseScore(chess: Chess, probe: BitbaseProbe): number {
+    if (probe.value === 'draw') return drawScore(this.persona, this.searchSide);
+    const score = BITBASE_WIN_SCORE + probe.progress;
+    return (probe.value === 'win') === (chess.turn() === 'w') ? score : -score;
+  }
+
+  /**
+   * Syzygy result as a score: the draw score when the fifty-move rule saves the
+   * game, otherwise a win short of a mate that grows as the next zeroing move nears
+   */
+  private syzygyScore(chess: Chess, wdl: SyzygyWdl, dtz: number | null): number {
+    if (wdl === 1 || wdl === 0 || wdl === -1) return drawScore(this.persona, this.searchSide);
+    const score = SYZYGY_WIN_SCORE - (dtz === null ? 100 : Math.min(Math.abs(dtz), 1000));
+    return (wdl === 2) === (chess.turn() === 'w') ? score : -score;
+  }
+
+  /**
+   * Contempt and risk appetite are scored for the side being searched for,
+   * so cached scores from the other side's searches no longer apply
+   */
+  private setSearchSide(side: 'w' | 'b'): void {
+    if (side === this.searchSide) return;
+    this.searchSide = side;
+    if (this.persona) this.transpositionTable.clear();
+  }
+
+  /**
+   * Static evaluation split into its weighted terms (centipawns, White's point of view)
+   */
+  public getEvaluationBreakdown(chess: Chess): EvaluationBreakdown {
+    const breakdown = this.evaluator.evaluate(chess);
+    if (this.persona) applyPersona(breakdown, this.persona, this.searchSide);
+
+    // Learned term: expected outcome predicted by the network
+    breakdown.network = this.evaluationNetwork.predict(encodeBoard(chess.board())) * NETWORK_EVAL_SCALE;
+    breakdown.total += breakdown.network;
+
+    return breakdown;
+  }
+
+  public getEvaluationWeights(): EvaluationWeights {
+    return this.evaluator.getWeights();
+  }
+
+  public setEvaluationWeights(weights: Partial<EvaluationWeights>): void {
+    this.evaluator.setWeights(weights);
+    this.transpositionTable.clear();
+    this.mcts.reset();
   }
 
   public recordGameResult(outcome: 'win' | 'loss' | 'draw', gameMemory: AgentMemory[]): void {
@@ -325,16 +1014,9 @@ export class ChessAIAgent {
     const winRate = this.stats.wins / this.stats.gamesPlayed;
     this.stats.eloRating = 1500 + (winRate - 0.5) * 400;
     
-    // Store game memory for learning
-    this.memory.push(...gameMemory);
-    
-    // Limit memory size
-    if (this.memory.length > this.learningParams.memorySize) {
-      this.memory = this.memory.slice(-this.learningParams.memorySize);
-    }
-
-    // Learn from the game
+    // Learn from the game (also stores its positions in the replay buffer)
     this.learnFromGame(gameMemory, outcome);
+    this.mcts.reset();
     
     // Update learning progress
     this.stats.learningProgress.push(this.stats.eloRating);
@@ -347,50 +1029,328 @@ export class ChessAIAgent {
 
   private learnFromGame(gameMemory: AgentMemory[], outcome: 'win' | 'loss' | 'draw'): void {
     const outcomeReward = outcome === 'win' ? 1 : outcome === 'loss' ? -1 : 0;
+
+    // TD(λ) / TD-Leaf targets from successive evaluations within the game
+    const tdTargets = this.applyTemporalDifference(gameMemory, outcomeReward);
     
-    // Update position evaluations based on game outcome
+    // Update position evaluations towards the TD targets
     gameMemory.forEach((memory, index) => {
-      const discountedReward = outcomeReward * Math.pow(this.learningParams.discountFactor, gameMemory.length - index);
-      
-      // Update position evaluation
       const currentEval = this.knowledge.positionEvaluations.get(memory.position) || 0;
-      const newEval = currentEval + this.learningParams.learningRate * (discountedReward - currentEval);
+      const newEval = currentEval + this.learningParams.learningRate * (tdTargets[index] - currentEval);
       this.knowledge.positionEvaluations.set(memory.position, newEval);
       
       // Update opening book
       if (index < 10) { // First 10 moves are considered opening
-        const openingEntry = this.knowledge.openingBook.get(memory.position);
-        if (openingEntry && openingEntry.move === memory.move) {
-          openingEntry.frequency++;
-          openingEntry.winRate = (openingEntry.winRate + (outcomeReward + 1) / 2) / 2;
-        } else {
-          this.knowledge.openingBook.set(memory.position, {
-            move: memory.move,
-            frequency: 1,
-            winRate: (outcomeReward + 1) / 2
-          });
-        }
+        this.knowledge.openingBook.addGame(memory.position, memory.move, outcome, this.stats.eloRating);
       }
     });
 
-    // Update neural network weights (simplified gradient descent)
-    this.updateNeuralWeights(gameMemory, outcomeReward);
+    // Train the evaluation network every `updateFrequency` games
+    const updateFrequency = Math.max(1, Math.floor(this.learningParams.updateFrequency));
+    if (this.stats.gamesPlayed % updateFrequency === 0) {
+      this.trainEvaluationNetwork();
+    }
   }
 
-  private updateNeuralWeights(gameMemory: AgentMemory[], reward: number): void {
-    // Simplified neural network weight update
-    const learningRate = this.learningParams.learningRate;
-    
-    // Update weights based on game outcome (placeholder implementation)
-    for (let layer = 0; layer < this.neuralWeights.length; layer++) {
-      for (let weight = 0; weight < this.neuralWeights[layer].length; weight++) {
-        this.neuralWeights[layer][weight] += learningRate * reward * (Math.random() - 0.5) * 0.01;
+  /**
+   * Update the evaluation network from one game. Each position is valued by the
+   * network (at its principal-variation leaf when known, i.e. TD-Leaf) and moved
+   * towards its λ-return. Returns the targets from the agent's point of view.
+   */
+  private applyTemporalDifference(gameMemory: AgentMemory[], outcomeReward: number): number[] {
+    const encoded = gameMemory.map(memory => this.encodeMemory(memory));
+    const values = encoded.map(entry =>
+      entry ? this.evaluationNetwork.predict(entry.features) * entry.perspective : 0
+    );
+
+    const targets = computeLambdaReturns(values, outcomeReward, {
+      discountFactor: this.learningParams.discountFactor,
+      lambda: this.learningParams.lambda,
+    });
+
+    const samples: NetworkTrainingSample[] = [];
+    gameMemory.forEach((memory, index) => {
+      memory.tdTarget = targets[index];
+      this.replayBuffer.add(memory, targets[index] - values[index]);
+
+      const entry = encoded[index];
+      if (entry) {
+        samples.push({ features: entry.features, target: targets[index] * entry.perspective });
+      }
+    });
+
+    if (samples.length > 0) {
+      this.evaluationNetwork.train(samples, this.learningParams.learningRate, this.learningParams.batchSize);
+      this.transpositionTable.clear();
+    }
+
+    return targets;
+  }
+
+  /**
+   * Backpropagation on mini-batches of `batchSize` drawn from the replay buffer.
+   * Sampled entries get their TD error as new priority before each update.
+   * Returns the mean squared error of the sampled positions.
+   */
+  public trainEvaluationNetwork(): number {
+    if (this.replayBuffer.size === 0) return 0;
+
+    const batchSize = Math.max(1, Math.floor(this.learningParams.batchSize));
+    const batches = Math.min(MAX_TRAINING_BATCHES, Math.ceil(this.replayBuffer.size / batchSize));
+    let totalLoss = 0;
+
+    for (let b = 0; b < batches; b++) {
+      const keys: string[] = [];
+      const errors: number[] = [];
+      const samples: NetworkTrainingSample[] = [];
+
+      for (const { key, memory, weight } of this.replayBuffer.sample(batchSize)) {
+        const sample = this.createTrainingSample(memory);
+        if (!sample) continue;
+        keys.push(key);
+        errors.push(sample.target - this.evaluationNetwork.predict(sample.features));
+        samples.push({ ...sample, weight });
+
+        // Tune the evaluation term weights on the first batch only; full evaluations are costly
+        if (b === 0) this.tuneEvaluationWeights(memory, sample.target);
       }
+
+      this.replayBuffer.updatePriorities(keys, errors);
+      totalLoss += this.evaluationNetwork.train(samples, this.learningParams.learningRate, batchSize);
     }
+
+    // Cached scores came from the old weights
+    this.transpositionTable.clear();
+    return totalLoss / batches;
+  }
+
+  /**
+   * Stored experiences, oldest first
+   */
+  public get memory(): AgentMemory[] {
+    return this.replayBuffer.getMemories();
   }
 
+  private tuneEvaluationWeights(memory: AgentMemory, target: number): void {
+    try {
+      const position = new Chess(memory.leafPosition || memory.position);
+      if (position.isGameOver()) return;
+      this.evaluator.updateWeights(this.getEvaluationBreakdown(position), target, this.learningParams.learningRate);
+    } catch {
+      // Positions that no longer parse are skipped
+    }
+  }
+
+  private createTrainingSample(memory: AgentMemory): NetworkTrainingSample | null {
+    const entry = this.encodeMemory(memory);
+    if (!entry) return null;
+
+    const outcome = memory.gameOutcome === 'win' ? 1 : memory.gameOutcome === 'loss' ? -1 : 0;
+    return {
+      features: entry.features,
+      target: (memory.tdTarget ?? outcome) * entry.perspective,
+    };
+  }
+
+  /**
+   * Network features for a memory (its PV leaf when recorded) and the sign that
+   * turns White's point of view into the mover's
+   */
+  private encodeMemory(memory: AgentMemory): { features: number[]; perspective: number } | null {
+    try {
+      const position = new Chess(memory.leafPosition || memory.position);
+      const mover = memory.position.split(' ')[1];
+      return { features: encodeBoard(position.board()), perspective: mover === 'b' ? -1 : 1 };
+    } catch {
+      return null;
+    }
+  }
+
+
   public adjustLearningParameters(newParams: Partial<LearningParameters>): void {
     this.learningParams = { ...this.learningParams, ...newParams };
+    this.replayBuffer.configure({ capacity: this.learningParams.memorySize });
+  }
+
+  /**
+   * Switch between uniform and prioritized replay or tune its exponents (keeps stored experiences)
+   */
+  public configureReplayBuffer(config: Partial<Omit<ReplayBufferConfig, 'capacity'>>): void {
+    this.replayBuffer.configure(config);
+  }
+
+  /**
+   * Choose the book selection policy and its exploration settings (keeps the book)
+   */
+  public configureOpeningBook(config: Partial<OpeningBookConfig>): void {
+    this.knowledge.openingBook.configure(config);
+  }
+
+  /**
+   * Add the moves of a Polyglot (.bin) book to the opening book; returns the positions added
+   */
+  public importPolyglotBook(data: Uint8Array | ArrayBuffer, options: Partial<PolyglotImportOptions> = {}): number {
+    return importPolyglotBook(this.knowledge.openingBook, data, options);
+  }
+
+  public exportPolyglotBook(options: Partial<PolyglotExportOptions> = {}): Uint8Array {
+    return exportPolyglotBook(this.knowledge.openingBook, options);
+  }
+
+  /**
+   * Add an endgame bitbase (replacing one for the same material); it is probed in
+   * move choice, search and endgame learning
+   */
+  public loadBitbase(bitbase: EndgameBitbase): void {
+    this.bitbases.add(bitbase);
+    this.transpositionTable.clear();
+  }
+
+  public getBitbaseSignatures(): string[] {
+    return this.bitbases.signatures();
+  }
+
+  /**
+   * Exact result of a position covered by the loaded bitbases, for the side to
+   * move, with its score and the legal moves that keep it; null if not covered
+   */
+  public probeBitbase(chess: Chess): { value: BitbaseValue; evaluation: number; moves: string[] } | null {
+    const probe = this.bitbases.probe(chess);
+    if (!probe) return null;
+
+    // A move keeps the result when it leaves the opponent with the opposite one
+    const kept: BitbaseValue = probe.value === 'win' ? 'loss' : probe.value === 'loss' ? 'win' : 'draw';
+    const moves = chess.moves().filter(move => {
+      chess.move(move);
+      const child = this.bitbases.probe(chess);
+      chess.undo();
+      return child?.value === kept;
+    });
+
+    return { value: probe.value, evaluation: this.bitbaseScore(chess, probe), moves };
+  }
+
+  /**
+   * Probe Syzygy tables at the root and in search (null turns them off); positions
+   * whose tables are missing are searched as usual
+   */
+  public setSyzygyTablebase(tablebase: SyzygyTablebase | null): void {
+    this.syzygy = tablebase && tablebase.size > 0 ? tablebase : null;
+    this.transpositionTable.clear();
+  }
+
+  public getSyzygyTablebase(): SyzygyTablebase | null {
+    return this.syzygy;
+  }
+
+  /**
+   * Syzygy result of a position for the side to move, with its score and the
+   * legal moves that keep it: the quickest to a zeroing move when winning,
+   * the slowest when losing; null if not covered
+   */
+  public probeSyzygy(chess: Chess): { wdl: SyzygyWdl; dtz: number | null; evaluation: number; moves: string[] } | null {
+    const root = this.syzygy?.probeRoot(chess);
+    if (!root) return null;
+
+    const best = Math.max(...root.moves.map(move => move.wdl));
+    let kept = root.moves.filter(move => move.wdl === best);
+    if (best !== 0 && kept.every(move => move.dtz !== null)) {
+      const distance = (dtz: number | null) => Math.abs(dtz as number);
+      const target = best > 0
+        ? Math.min(...kept.map(move => distance(move.dtz)))
+        : Math.max(...kept.map(move => distance(move.dtz)));
+      kept = kept.filter(move => distance(move.dtz) === target);
+    }
+
+    return {
+      wdl: root.wdl,
+      dtz: root.dtz,
+      evaluation: this.syzygyScore(chess, root.wdl, root.dtz),
+      moves: kept.map(move => move.move),
+    };
+  }
+
+  public getReplayBufferStats(): ReplayBufferStats {
+    return this.replayBuffer.getStats();
+  }
+
+  /**
+   * Resize the transposition table or change its replacement scheme (clears it)
+   */
+  public configureTranspositionTable(config: Partial<TranspositionTableConfig>): void {
+    this.transpositionTable = new TranspositionTable({ ...this.transpositionTable.getConfig(), ...config });
+  }
+
+  public getTranspositionTableStats(): TranspositionTableStats {
+    return this.transpositionTable.getStats();
+  }
+
+  /**
+   * Toggle quiescence search and individual move-ordering heuristics (useful for benchmarks)
+   */
+  public configureSearch(options: Partial<Omit<SearchOptions, 'moveOrdering'>> & { moveOrdering?: Partial<MoveOrderingOptions> }): void {
+    this.searchOptions = {
+      ...this.searchOptions,
+      ...options,
+      moveOrdering: { ...this.searchOptions.moveOrdering, ...options.moveOrdering },
+    };
+    this.moveOrderer = new MoveOrderer(this.searchOptions.moveOrdering);
+  }
+
+  public getSearchOptions(): SearchOptions {
+    return { ...this.searchOptions, moveOrdering: { ...this.searchOptions.moveOrdering } };
+  }
+
+  /**
+   * Tune the MCTS player (used when the search algorithm is 'mcts') and plug in
+   * its priors and values; a null estimator goes back to the agent's evaluation
+   */
+  public configureMcts(config: Partial<MCTSConfig>, estimator?: PositionEstimator | null): void {
+    this.mcts.configure(config);
+    if (estimator !== undefined) {
+      this.mcts.setEstimator(estimator || this.createEvaluationEstimator());
+    }
+  }
+
+  public getMctsConfig(): MCTSConfig {
+    return this.mcts.getConfig();
+  }
+
+  /**
+   * Play at a target Elo (null for full strength)
+   */
+  public setStrength(targetElo: number | null): void {
+    this.strengthProfile = targetElo === null ? null : strengthProfileForElo(targetElo, this.strengthCalibration);
+  }
+
+  public getStrengthProfile(): StrengthProfile | null {
+    return this.strengthProfile ? { ...this.strengthProfile } : null;
+  }
+
+  /**
+   * Measured performance of nominal strength levels (see calibrateStrength)
+   */
+  public setStrengthCalibration(calibration: CalibrationPoint[]): void {
+    this.strengthCalibration = calibration.map(point => ({ ...point }));
+    if (this.strengthProfile) this.setStrength(this.strengthProfile.targetElo);
+  }
+
+  public getStrengthCalibration(): CalibrationPoint[] {
+    return this.strengthCalibration.map(point => ({ ...point }));
+  }
+
+  /**
+   * Play in the style of a persona (null for the plain learned evaluation)
+   */
+  public setPersona(persona: PersonaName | Persona | null): void {
+    this.persona = persona === null ? null : resolvePersona(persona);
+    this.repertoire = buildRepertoire(this.persona ? this.persona.repertoire : []);
+    this.transpositionTable.clear();
+    this.mcts.reset();
+  }
+
+  public getPersona(): Persona | null {
+    return this.persona ? resolvePersona(this.persona) : null;
   }
 
   public getKnowledgeSnapshot(): {
@@ -407,7 +1367,7 @@ export class ChessAIAgent {
     return {
       openingBookSize: this.knowledge.openingBook.size,
       positionEvaluationsSize: this.knowledge.positionEvaluations.size,
-      memorySize: this.memory.length,
+      memorySize: this.replayBuffer.size,
       averagePositionEval: averageEval,
     };
   }
@@ -418,13 +1378,20 @@ export class ChessAIAgent {
       name: this.name,
       learningParams: this.learningParams,
       knowledge: {
-        openingBook: Array.from(this.knowledge.openingBook.entries()),
+        openingBook: this.knowledge.openingBook.serialize(),
         positionEvaluations: Array.from(this.knowledge.positionEvaluations.entries()),
         tacticPatterns: Array.from(this.knowledge.tacticPatterns.entries()),
         endgameTablebase: Array.from(this.knowledge.endgameTablebase.entries()),
       },
       stats: this.stats,
-      neuralWeights: this.neuralWeights,
+      evaluationNetwork: this.evaluationNetwork.serialize(),
+      evaluationWeights: this.evaluator.getWeights(),
+      replayBuffer: this.replayBuffer.serialize(),
+      strength: {
+        targetElo: this.strengthProfile ? this.strengthProfile.targetElo : null,
+        calibration: this.strengthCalibration,
+      },
+      persona: this.persona,
     });
   }
 
@@ -432,12 +1399,28 @@ export class ChessAIAgent {
     try {
       const data = JSON.parse(knowledgeData);
       
-      this.learningParams = data.learningParams;
+      // Exports made before a parameter existed keep the current value for it
+      this.learningParams = { ...this.learningParams, ...data.learningParams };
       this.stats = data.stats;
-      this.neuralWeights = data.neuralWeights;
+
+      // Older exports only carry untrained `neuralWeights`, which are not restored
+      const network = data.evaluationNetwork ? EvaluationNetwork.deserialize(data.evaluationNetwork) : null;
+      this.evaluationNetwork = network || new EvaluationNetwork();
+      this.evaluator = new PositionEvaluator(data.evaluationWeights || {});
+      this.mcts.reset();
+
+      this.replayBuffer = data.replayBuffer
+        ? ReplayBuffer.deserialize(data.replayBuffer as SerializedReplayBuffer)
+        : new ReplayBuffer();
+      this.replayBuffer.configure({ capacity: this.learningParams.memorySize });
+
+      this.strengthCalibration = data.strength?.calibration || [];
+      this.setStrength(data.strength?.targetElo ?? null);
+      this.setPersona(data.persona ?? null);
       
       // Restore knowledge maps
-      this.knowledge.openingBook = new Map(data.knowledge.openingBook);
+      // Single-move books from older exports are migrated
+      this.knowledge.openingBook = OpeningBook.deserialize(data.knowledge.openingBook || []);
       this.knowledge.positionEvaluations = new Map(data.knowledge.positionEvaluations);
       this.knowledge.tacticPatterns = new Map(data.knowledge.tacticPatterns);
       this.knowledge.endgameTablebase = new Map(data.knowledge.endgameTablebase);
@@ -490,15 +1473,16 @@ export class ChessAIAgent {
         masterFrequency: 0 // Will be updated as we see it in games
       });
       
-      // Add to opening book with higher weight for book moves
+      // Add to opening book with higher weight for book moves: theory counts as ten even games
       const chess = new Chess();
       for (const move of opening.moves) {
         const position = chess.fen();
-        const existing = this.knowledge.openingBook.get(position) || { move, frequency: 0, winRate: 0.5 };
-        existing.frequency += 10; // Higher weight for book moves
-        this.knowledge.openingBook.set(position, existing);
-        
-        if (!chess.move(move)) break;
+        try {
+          const played = chess.move(move);
+          this.knowledge.openingBook.add(position, played.san, { wins: 5, losses: 5 });
+        } catch {
+          break;
+        }
       }
     }
     
@@ -569,19 +1553,19 @@ export class ChessAIAgent {
       
       // Learn opening moves
       if (i < 15) {
-        const existing = this.knowledge.openingBook.get(position) || { move, frequency: 0, winRate: 0.5 };
-        existing.frequency++;
-        existing.winRate = (existing.winRate * (existing.frequency - 1) + gameValue) / existing.frequency;
-        this.knowledge.openingBook.set(position, existing);
+        const outcome = gameValue === 1 ? 'win' : gameValue === 0 ? 'loss' : 'draw';
+        this.knowledge.openingBook.addGame(position, move, outcome, opponentRating);
       }
       
-      // Learn endgame positions (when few pieces remain)
+      // Learn endgame positions (when few pieces remain), unless the move throws away a bitbase result
       if (this.countPieces(chess) <= 10) {
-        const evaluation = this.evaluatePosition(chess);
-        this.knowledge.endgameTablebase.set(position, {
-          bestMove: move,
-          evaluation
-        });
+        const exact = this.probeBitbase(chess);
+        if (!exact || exact.moves.includes(move)) {
+          this.knowledge.endgameTablebase.set(position, {
+            bestMove: move,
+            evaluation: exact ? exact.evaluation : this.evaluatePosition(chess)
+          });
+        }
       }
       
       if (!chess.move(move)) break;
@@ -645,8 +1629,8 @@ export class ChessAIAgent {
     // Check if this position matches known opening theory
     for (const [openingName, theory] of this.knowledge.literature.openingTheory) {
       // This is a simplified check - in practice, you'd need more sophisticated pattern matching
-      if (this.knowledge.openingBook.has(position)) {
-        const bookMove = this.knowledge.openingBook.get(position)!;
+      const bookMove = this.knowledge.openingBook.select(position, chess.moves(), 'bestScore');
+      if (bookMove) {
         console.log(`📖 Using ${openingName} theory: ${bookMove.move}`);
         return bookMove.move;
       }
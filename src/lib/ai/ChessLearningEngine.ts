@@ -1,5 +1,11 @@
 import { Chess } from 'chess.js';
-import { ChessAIAgent } from './ChessAIAgent';
+import { ChessAIAgent, MoveProvider } from './ChessAIAgent';
+import { PolyglotImportOptions } from './PolyglotBook';
+import { computeAttackMaps } from './AttackMap';
+import { PgnLine, PgnGameRecord, PgnGameFilter, parsePgn } from './PgnParser';
+import { PositionIndex, PositionSource, ExplorerPosition, explorerScore, positionKey } from './PositionIndex';
+import { EcoClassification, classifyOpening } from './EcoClassifier';
+import { TacticDetector } from './TacticDetector';
 
 export interface ChessBook {
   title: string;
@@ -19,7 +25,10 @@ export interface PGNGame {
   event: string;
   date: string;
   moves: string[];
-  annotations?: string[];
+  annotations?: PgnLine; // comments and variations
+  headers?: { [tag: string]: string };
+  errors?: string[]; // what could not be read; the moves stop at an illegal one
+  opening?: EcoClassification;
 }
 
 export interface OpeningTheory {
@@ -62,15 +71,62 @@ export interface OnlineGameConfig {
   seekRating?: { min: number; max: number };
 }
 
+/**
+ * Games kept outside memory (e.g. a PgnGameStore on disk), read one at a time
+ */
+export interface GameCollection {
+  readonly size: number;
+  readonly positions?: PositionSource; // opening positions, indexed as games were added
+  games(filter?: PgnGameFilter): AsyncIterable<PGNGame>;
+}
+
+type FocusArea = 'openings' | 'middlegame' | 'endgames' | 'tactics';
+
+const LITERATURE_BATCH_SIZE = 500; // games from a collection held in memory at once
+const MIN_OPENING_GAMES = 5; // positions played less often are not learned
+
+export function pgnGameFromRecord(record: PgnGameRecord): PGNGame {
+  const headers = record.headers;
+  const whiteElo = parseInt(headers.WhiteElo);
+  const blackElo = parseInt(headers.BlackElo);
+
+  return {
+    pgn: record.text,
+    white: headers.White || 'Unknown',
+    black: headers.Black || 'Unknown',
+    result: record.result !== '*' ? record.result : headers.Result || '*',
+    elo: whiteElo && blackElo ? { white: whiteElo, black: blackElo } : undefined,
+    event: headers.Event || 'Unknown',
+    date: headers.Date || 'Unknown',
+    moves: record.moves,
+    annotations: record.annotations,
+    headers,
+    errors: record.errors,
+    opening: classifyOpening(record.moves, headers.FEN) || undefined,
+  };
+}
+
 export class ChessLearningEngine {
   private knowledgeBase: Map<string, ChessBook> = new Map();
   private masterDatabase: PGNGame[] = [];
+  private positionIndex = new PositionIndex(); // of masterDatabase
+  private tacticDetector = new TacticDetector();
+  private gameCollections: GameCollection[] = [];
   private onlineConfigs: Map<string, OnlineGameConfig> = new Map();
+  private onlineOpponent: MoveProvider | null = null; // plays the opponent's moves in simulated games
 
   constructor() {
     this.initializeDefaultKnowledge();
   }
 
+  /**
+   * Play simulated online games against a move provider (e.g. a reference UCI
+   * engine) instead of random moves; null goes back to random moves
+   */
+  public setOnlineOpponent(opponent: MoveProvider | null): void {
+    this.onlineOpponent = opponent;
+  }
+
   /**
    * Load chess literature and books into the learning system
    */
@@ -78,7 +134,7 @@ export class ChessLearningEngine {
     console.log(`📚 Loading chess book: "${book.title}" by ${book.author}`);
     
     this.knowledgeBase.set(book.title, book);
-    this.masterDatabase.push(...book.games);
+    this.addToDatabase(book.games);
     
     console.log(`✅ Loaded ${book.games.length} games, ${book.openings.length} openings, ${book.tactics.length} tactics`);
   }
@@ -90,17 +146,55 @@ export class ChessLearningEngine {
     console.log(`📖 Loading PGN database from ${source}...`);
     
     const games = this.parsePGNDatabase(pgnData);
-    this.masterDatabase.push(...games);
+    this.addToDatabase(games);
     
     console.log(`✅ Loaded ${games.length} games from ${source}`);
+    const withErrors = games.filter(game => game.errors && game.errors.length > 0);
+    if (withErrors.length > 0) {
+      console.warn(`⚠️ ${withErrors.length} games from ${source} have PGN errors, e.g. ${withErrors[0].errors![0]}`);
+    }
     return games.length;
   }
 
+  /**
+   * Train from a game collection as well, without loading it: trainFromLiterature
+   * reads its games in batches
+   */
+  public addGameCollection(collection: GameCollection, source: string = 'collection'): void {
+    this.gameCollections.push(collection);
+    console.log(`✅ Added ${collection.size} games from ${source}`);
+  }
+
+  /**
+   * Opening explorer: the moves played in a position in the loaded games and
+   * collections, with their results, average rating and best rated games
+   */
+  public explore(fen: string): ExplorerPosition | null {
+    return PositionIndex.merge(this.positionIndexes().map(index => index.query(fen)));
+  }
+
+  /**
+   * Seed an agent's opening book from a Polyglot (.bin) book
+   */
+  public async loadPolyglotBook(
+    agent: ChessAIAgent,
+    data: Uint8Array | ArrayBuffer,
+    source: string = 'book.bin',
+    options: Partial<PolyglotImportOptions> = {}
+  ): Promise<number> {
+    console.log(`📖 Loading Polyglot book from ${source}...`);
+
+    const positions = agent.importPolyglotBook(data, options);
+
+    console.log(`✅ Loaded ${positions} book positions from ${source}`);
+    return positions;
+  }
+
   /**
    * Train agent from chess literature and master games
    */
   public async trainFromLiterature(agent: ChessAIAgent, options: {
-    focusAreas?: ('openings' | 'middlegame' | 'endgames' | 'tactics')[];
+    focusAreas?: FocusArea[];
     maxGames?: number;
     minRating?: number;
     timeControl?: string;
@@ -122,82 +216,89 @@ export class ChessLearningEngine {
     }).slice(0, maxGames);
 
     console.log(`📊 Training on ${trainingGames.length} master games`);
+    if (focusAreas.includes('openings')) await this.trainOpenings(agent, minRating);
+    const gameAreas = focusAreas.filter(area => area !== 'openings'); // openings come from the position indexes
+    await this.trainOnGames(agent, trainingGames, gameAreas);
+
+    // Then the collections, a batch at a time, up to maxGames in all
+    let remaining = maxGames - trainingGames.length;
+    for (const collection of gameAreas.length > 0 ? this.gameCollections : []) {
+      let batch: PGNGame[] = [];
+      for await (const game of collection.games({ minRating })) {
+        if (remaining <= 0) break;
+        batch.push(game);
+        remaining--;
+        if (batch.length === LITERATURE_BATCH_SIZE) {
+          await this.trainOnGames(agent, batch, focusAreas);
+          batch = [];
+        }
+      }
+      if (batch.length > 0) await this.trainOnGames(agent, batch, focusAreas);
+    }
+    if (this.gameCollections.length > 0) {
+      console.log(`📊 Trained on ${maxGames - trainingGames.length - remaining} games from collections`);
+    }
+
+    console.log(`✅ Literature training complete for ${agent.name}`);
+  }
 
+  private async trainOnGames(agent: ChessAIAgent, games: PGNGame[], focusAreas: FocusArea[]): Promise<void> {
     for (const area of focusAreas) {
       switch (area) {
-        case 'openings':
-          await this.trainOpenings(agent, trainingGames);
-          break;
         case 'middlegame':
-          await this.trainMiddlegame(agent, trainingGames);
+          await this.trainMiddlegame(agent, games);
           break;
         case 'endgames':
-          await this.trainEndgames(agent, trainingGames);
+          await this.trainEndgames(agent, games);
           break;
         case 'tactics':
-          await this.trainTactics(agent, trainingGames);
+          await this.trainTactics(agent, games);
           break;
       }
     }
-
-    console.log(`✅ Literature training complete for ${agent.name}`);
   }
 
   /**
-   * Train agent from opening theory
+   * Train agent from opening theory: in every indexed position played often
+   * enough, the most successful move (by games times score) among those whose
+   * games average at least minRating
    */
-  private async trainOpenings(agent: ChessAIAgent, games: PGNGame[]): Promise<void> {
+  private async trainOpenings(agent: ChessAIAgent, minRating: number): Promise<void> {
     console.log('📖 Learning opening theory...');
     
-    // Extract opening moves from master games
-    const openingStats = new Map<string, { frequency: number; winRate: number; avgRating: number }>();
-    
-    for (const game of games) {
-      const chess = new Chess();
-      const moves = game.moves.slice(0, 15); // First 15 moves
-      
-      let winValue = 0.5; // Draw
-      if (game.result === '1-0') winValue = 1; // White wins
-      if (game.result === '0-1') winValue = 0; // Black wins
-      
-      const avgRating = game.elo ? (game.elo.white + game.elo.black) / 2 : 2000;
-      
-      for (let i = 0; i < moves.length; i++) {
-        const move = chess.move(moves[i]);
-        if (!move) break;
-        
-        const position = chess.fen();
-        const existing = openingStats.get(position) || { frequency: 0, winRate: 0, avgRating: 0 };
-        
-        existing.frequency++;
-        existing.winRate = (existing.winRate * (existing.frequency - 1) + winValue) / existing.frequency;
-        existing.avgRating = (existing.avgRating * (existing.frequency - 1) + avgRating) / existing.frequency;
-        
-        openingStats.set(position, existing);
-      }
-    }
-
-    // Update agent's opening book with master game statistics
-    for (const [position, stats] of openingStats) {
-      if (stats.frequency >= 5) { // Only include positions played at least 5 times
-        const chess = new Chess(position);
-        const legalMoves = chess.moves();
-        
-        if (legalMoves.length > 0) {
-          // Find the most common continuation
-          const bestMove = this.findBestMoveFromDatabase(position, games);
-          if (bestMove) {
-            agent.knowledge.openingBook.set(position, {
-              move: bestMove,
-              frequency: stats.frequency,
-              winRate: stats.winRate
-            });
+    // Positions are read from their indexes as they come; one found in several
+    // indexes is looked up in all of them, to add its records up
+    const indexes = this.positionIndexes();
+    const learned = new Set<string>();
+    for (const index of indexes) {
+      for (const indexed of index.entries(indexes.length === 1 ? MIN_OPENING_GAMES : 1)) {
+        const fen = indexed.fen;
+        const key = positionKey(fen);
+        if (learned.has(key)) continue;
+        const position = indexes.length === 1 ? indexed : this.explore(fen);
+        if (!position || position.games < MIN_OPENING_GAMES) continue;
+
+        const turn = fen.split(' ')[1] === 'b' ? 'b' : 'w';
+        const candidates = position.moves.filter(entry => !minRating || !entry.averageRating || entry.averageRating >= minRating);
+        let best = null;
+        let bestScore = 0;
+        for (const entry of candidates) {
+          const score = entry.games * explorerScore(entry, turn);
+          if (score > bestScore) {
+            bestScore = score;
+            best = entry;
           }
         }
+        if (!best) continue;
+
+        const wins = turn === 'w' ? best.whiteWins : best.blackWins;
+        const losses = turn === 'w' ? best.blackWins : best.whiteWins;
+        agent.knowledge.openingBook.set(fen, best.move, { wins, draws: best.draws, losses }, best.averageRating);
+        learned.add(key);
       }
     }
 
-    console.log(`📚 Learned ${openingStats.size} opening positions`);
+    console.log(`📚 Learned ${learned.size} opening positions`);
   }
 
   /**
@@ -278,16 +379,16 @@ export class ChessLearningEngine {
     for (const study of endgameStudies) {
       const chess = new Chess(study.position);
       
-      // Find best moves in endgame positions
+      // Find best moves in endgame positions; where a bitbase knows the exact
+      // result, a study move that gives it away is replaced by one that keeps it
       for (const move of study.keyMoves) {
         const beforePosition = chess.fen();
+        const exact = agent.probeBitbase(chess);
         chess.move(move);
-        const afterPosition = chess.fen();
-        
-        agent.knowledge.endgameTablebase.set(beforePosition, {
-          bestMove: move,
-          evaluation: this.evaluateEndgame(chess)
-        });
+
+        agent.knowledge.endgameTablebase.set(beforePosition, exact && exact.moves.length > 0
+          ? { bestMove: exact.moves.includes(move) ? move : exact.moves[0], evaluation: exact.evaluation }
+          : { bestMove: move, evaluation: this.evaluateEndgame(chess) });
       }
     }
 
@@ -437,11 +538,34 @@ export class ChessLearningEngine {
     const chess = new Chess();
     const moves: string[] = [];
     
+    let agentClock = gameInfo.timeControl.initial * 1000;
+    let opponentClock = gameInfo.timeControl.initial * 1000;
+    const increment = gameInfo.timeControl.increment * 1000;
+    let agentFlagged = false;
+    let opponentFlagged = false;
+    
     // Simulate game against human opponent
     while (!chess.isGameOver() && moves.length < 100) {
       if (chess.turn() === 'w') {
-        // Agent's turn
-        const moveResult = await agent.makeMove(chess);
+        // Agent's turn, searching against its own clock
+        const moveResult = await agent.makeMove(chess, { timeRemaining: agentClock, increment });
+        agentClock -= moveResult.thinkingTime;
+        if (agentClock <= 0) {
+          agentFlagged = true;
+          break;
+        }
+        agentClock += increment;
+        chess.move(moveResult.move);
+        moves.push(moveResult.move);
+      } else if (this.onlineOpponent) {
+        // Opponent engine, on its own clock
+        const moveResult = await this.onlineOpponent.makeMove(chess, { timeRemaining: opponentClock, increment });
+        opponentClock -= moveResult.thinkingTime;
+        if (opponentClock <= 0) {
+          opponentFlagged = true;
+          break;
+        }
+        opponentClock += increment;
         chess.move(moveResult.move);
         moves.push(moveResult.move);
       } else {
@@ -459,7 +583,11 @@ export class ChessLearningEngine {
     const duration = Date.now() - startTime;
     let result: 'win' | 'loss' | 'draw' = 'draw';
     
-    if (chess.isCheckmate()) {
+    if (agentFlagged) {
+      result = 'loss';
+    } else if (opponentFlagged) {
+      result = 'win';
+    } else if (chess.isCheckmate()) {
       result = chess.turn() === 'b' ? 'win' : 'loss';
     }
 
@@ -477,120 +605,32 @@ export class ChessLearningEngine {
   }
 
   // Helper methods
-  private parsePGNDatabase(pgnData: string): PGNGame[] {
-    // Parse PGN format and extract games
-    const games: PGNGame[] = [];
-    const gameBlocks = pgnData.split(/\n\s*\n/);
-    
-    for (const block of gameBlocks) {
-      if (block.trim().length === 0) continue;
-      
-      const game = this.parseSinglePGN(block);
-      if (game) {
-        games.push(game);
-      }
+  private addToDatabase(games: PGNGame[]): void {
+    for (const game of games) {
+      if (!game.opening) game.opening = classifyOpening(game.moves, game.headers?.FEN) || undefined;
+      this.positionIndex.addGame(this.masterDatabase.length, game);
+      this.masterDatabase.push(game);
     }
-    
-    return games;
   }
 
-  private parseSinglePGN(pgn: string): PGNGame | null {
-    // Simple PGN parser - would be more sophisticated in production
-    const lines = pgn.split('\n');
-    const headers: { [key: string]: string } = {};
-    let movesText = '';
-    
-    for (const line of lines) {
-      if (line.startsWith('[') && line.endsWith(']')) {
-        const match = line.match(/\[(\w+)\s+"([^"]+)"\]/);
-        if (match) {
-          headers[match[1]] = match[2];
-        }
-      } else if (line.trim() && !line.startsWith('[')) {
-        movesText += line + ' ';
-      }
+  private positionIndexes(): PositionSource[] {
+    const indexes: PositionSource[] = [this.positionIndex];
+    for (const collection of this.gameCollections) {
+      if (collection.positions) indexes.push(collection.positions);
     }
-    
-    const moves = this.extractMovesFromPGN(movesText);
-    
-    return {
-      pgn,
-      white: headers.White || 'Unknown',
-      black: headers.Black || 'Unknown',
-      result: headers.Result || '*',
-      elo: headers.WhiteElo && headers.BlackElo ? {
-        white: parseInt(headers.WhiteElo),
-        black: parseInt(headers.BlackElo)
-      } : undefined,
-      event: headers.Event || 'Unknown',
-      date: headers.Date || 'Unknown',
-      moves,
-    };
+    return indexes.filter(index => index.games > 0);
   }
 
-  private extractMovesFromPGN(movesText: string): string[] {
-    // Extract actual moves from PGN notation
-    const moves: string[] = [];
-    const tokens = movesText.split(/\s+/);
-    
-    for (const token of tokens) {
-      if (token.match(/^\d+\./)) continue; // Skip move numbers
-      if (token.match(/^[NBRQK]?[a-h]?[1-8]?x?[a-h][1-8](\+|#)?$/) || 
-          token.match(/^O-O(-O)?(\+|#)?$/)) {
-        moves.push(token.replace(/[+#]$/, '')); // Remove check/mate symbols
-      }
-    }
-    
-    return moves;
-  }
-
-  private findBestMoveFromDatabase(position: string, games: PGNGame[]): string | null {
-    const moveStats = new Map<string, { count: number; winRate: number }>();
-    
-    for (const game of games) {
-      const chess = new Chess();
-      
-      for (const move of game.moves) {
-        if (chess.fen() === position) {
-          const existing = moveStats.get(move) || { count: 0, winRate: 0 };
-          existing.count++;
-          
-          let winValue = 0.5;
-          if (game.result === '1-0') winValue = chess.turn() === 'w' ? 1 : 0;
-          if (game.result === '0-1') winValue = chess.turn() === 'b' ? 1 : 0;
-          
-          existing.winRate = (existing.winRate * (existing.count - 1) + winValue) / existing.count;
-          moveStats.set(move, existing);
-          break;
-        }
-        
-        chess.move(move);
-      }
-    }
-    
-    // Return most played move with highest win rate
-    let bestMove = null;
-    let bestScore = 0;
-    
-    for (const [move, stats] of moveStats) {
-      const score = stats.count * stats.winRate;
-      if (score > bestScore) {
-        bestScore = score;
-        bestMove = move;
-      }
-    }
-    
-    return bestMove;
+  private parsePGNDatabase(pgnData: string): PGNGame[] {
+    return parsePgn(pgnData).map(pgnGameFromRecord);
   }
 
   private extractTacticalPositions(game: PGNGame): TacticalPattern[] {
-    // Extract tactical positions from games
-    // This would use more sophisticated analysis in production
-    return [];
+    return this.tacticDetector.findTactics(game);
   }
 
   private evaluatePosition(chess: Chess): number {
-    // Basic position evaluation
+    // Basic position evaluation: material plus mobility
     let score = 0;
     const board = chess.board();
     
@@ -603,6 +643,9 @@ export class ChessLearningEngine {
         }
       }
     }
+
+    const attackMaps = computeAttackMaps(board);
+    score += attackMaps.mobility.w - attackMaps.mobility.b;
     
     return score;
   }
@@ -680,7 +723,7 @@ export class ChessLearningEngine {
 
     return {
       booksLoaded: this.knowledgeBase.size,
-      gamesInDatabase: this.masterDatabase.length,
+      gamesInDatabase: this.masterDatabase.length + this.gameCollections.reduce((sum, collection) => sum + collection.size, 0),
       openingPositions,
       tacticalPatterns,
       endgameStudies
@@ -0,0 +1,120 @@
+import { Chess } from 'chess.js';
+import { ECO_TABLE } from '../data/ecoTable';
+import { positionKey } from './PositionIndex';
+
+/**
+ * ECO Classifier
+ * Names the opening of a game or position after the Encyclopaedia of Chess
+ * Openings. The table's lines are replayed once and their final positions
+ * keyed by Polyglot hash, so a game is classified by the positions it reaches
+ * rather than by its move order: transpositions get the same code.
+ */
+
+export interface EcoClassification {
+  eco: string; // e.g. 'B90'
+  name: string; // the opening, e.g. 'Sicilian Defense'
+  variation: string; // e.g. 'Najdorf Variation'; '' for the opening itself
+  line: string; // the table's moves, e.g. '1. e4 c5 2. Nf3 d6 ...'
+  ply: number; // half-moves of the table's line
+}
+
+// A game may reach a position of the table a few moves later than its line
+// does, or after a few moves outside the table
+const TRANSPOSITION_PLIES = 8;
+
+function parseTableLine(text: string): { classification: EcoClassification; moves: string[] } | null {
+  const [eco, fullName, line] = text.split('\t');
+  if (!eco || !fullName || !line) return null;
+  const moves = line.replace(/\d+\.+/g, ' ').trim().split(/\s+/);
+  const colon = fullName.indexOf(': ');
+  return {
+    classification: {
+      eco,
+      name: colon >= 0 ? fullName.slice(0, colon) : fullName,
+      variation: colon >= 0 ? fullName.slice(colon + 2) : '',
+      line,
+      ply: moves.length,
+    },
+    moves,
+  };
+}
+
+export class EcoClassifier {
+  private positions: Map<string, EcoClassification> = new Map();
+  private maxPly = 0;
+
+  constructor(table: string = ECO_TABLE) {
+    for (const text of table.split('\n')) {
+      const entry = parseTableLine(text.trim());
+      if (!entry) continue;
+
+      const chess = new Chess();
+      try {
+        entry.moves.forEach(move => chess.move(move));
+      } catch {
+        continue;
+      }
+      // The first line for a position names it
+      const key = positionKey(chess.fen());
+      if (!this.positions.has(key)) this.positions.set(key, entry.classification);
+      this.maxPly = Math.max(this.maxPly, entry.moves.length);
+    }
+  }
+
+  public get size(): number {
+    return this.positions.size;
+  }
+
+  /**
+   * The last table position a game reaches (moves in SAN from startFen), or
+   * the table entry of a position given as FEN; null when none is known
+   */
+  public classify(movesOrFen: string[] | string, startFen?: string): EcoClassification | null {
+    if (typeof movesOrFen === 'string') return this.lookup(movesOrFen);
+
+    let chess: Chess;
+    try {
+      chess = new Chess(startFen || undefined);
+    } catch {
+      return null;
+    }
+
+    let found = this.lookup(chess.fen());
+    let lastFound = 0;
+    for (let ply = 1; ply <= Math.min(movesOrFen.length, this.maxPly + TRANSPOSITION_PLIES); ply++) {
+      if (ply - lastFound > TRANSPOSITION_PLIES) break; // out of the table for good
+      try {
+        chess.move(movesOrFen[ply - 1]);
+      } catch {
+        break;
+      }
+      const entry = this.lookup(chess.fen());
+      if (entry) {
+        found = entry;
+        lastFound = ply;
+      }
+    }
+    return found;
+  }
+
+  private lookup(fen: string): EcoClassification | null {
+    let key: string;
+    try {
+      key = positionKey(fen);
+    } catch {
+      return null;
+    }
+    const entry = this.positions.get(key);
+    return entry ? { ...entry } : null;
+  }
+}
+
+let defaultClassifier: EcoClassifier | null = null;
+
+/**
+ * Classify with the bundled table (built on first use)
+ */
+export function classifyOpening(movesOrFen: string[] | string, startFen?: string): EcoClassification | null {
+  if (!defaultClassifier) defaultClassifier = new EcoClassifier();
+  return defaultClassifier.classify(movesOrFen, startFen);
+}
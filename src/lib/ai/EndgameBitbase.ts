@@ -0,0 +1,727 @@
+import { Chess } from 'chess.js';
+
+/**
+ * Endgame Bitbases
+ * Exact win/draw/loss tables for small material configurations, built by
+ * retrograde analysis and stored at 2 bits per position
+ */
+
+export type BitbaseValue = 'win' | 'draw' | 'loss'; // for the side to move
+
+export interface BitbasePiece {
+  color: 'w' | 'b';
+  type: 'k' | 'q' | 'r' | 'b' | 'n' | 'p';
+  square: number; // 0 = a1, 63 = h8
+}
+
+export interface BitbaseProbe {
+  value: BitbaseValue;
+  progress: number; // 0-999: how far the winning side is on its way (the tables store no distances)
+}
+
+// Configurations generated by default; their subtables come along
+export const BITBASE_MATERIALS = ['KPvK', 'KRvK', 'KQvK', 'KBNvK', 'KRvKP'];
+export const MAX_BITBASE_PIECES = 5;
+export const MAX_BITBASE_PROGRESS = 999;
+
+const MAGIC = [0x43, 0x42, 0x42, 0x01]; // "CBB", format version 1
+const SIGNATURE = /^K([QRBNP]*)vK([QRBNP]*)$/;
+const PIECE_LETTERS = 'QRBNP'; // order of the pieces in a signature
+const PIECE_STRENGTH: { [letter: string]: number } = { Q: 9, R: 5, B: 3, N: 3, P: 1 };
+const PROMOTION_LETTERS = ['Q', 'R', 'B', 'N'];
+
+// Piece codes
+const KING = 0;
+const QUEEN = 1;
+const ROOK = 2;
+const BISHOP = 3;
+const KNIGHT = 4;
+const PAWN = 5;
+const TYPE_CODES: { [type: string]: number } = { k: KING, q: QUEEN, r: ROOK, b: BISHOP, n: KNIGHT, p: PAWN };
+const TYPE_NAMES: BitbasePiece['type'][] = ['k', 'q', 'r', 'b', 'n', 'p'];
+const PROMOTIONS = [QUEEN, ROOK, BISHOP, KNIGHT];
+
+// Position values while generating; WIN and LOSS double as the stored 2-bit codes (0 = draw)
+const UNKNOWN = 0;
+const WIN = 1;
+const LOSS = 2;
+const DRAW = 3;
+const INVALID = 4;
+
+// Board geometry: directions 0-3 are orthogonal, 4-7 diagonal
+const DIRECTIONS = [[0, 1], [0, -1], [1, 0], [-1, 0], [1, 1], [1, -1], [-1, 1], [-1, -1]];
+const KNIGHT_OFFSETS = [[1, 2], [2, 1], [2, -1], [1, -2], [-1, -2], [-2, -1], [-2, 1], [-1, 2]];
+const STEP = new Int8Array(8 * 64).fill(-1); // next square in a direction, -1 off the board
+const LINE = new Int8Array(64 * 64).fill(-1); // direction from one square to another on a common line
+const KING_TARGETS: number[][] = [];
+const KNIGHT_TARGETS: number[][] = [];
+const ADJACENT = new Uint8Array(64 * 64);
+const KNIGHT_ADJACENT = new Uint8Array(64 * 64);
+
+function squareAt(file: number, rank: number): number {
+  return file >= 0 && file < 8 && rank >= 0 && rank < 8 ? rank * 8 + file : -1;
+}
+
+for (let square = 0; square < 64; square++) {
+  const file = square & 7;
+  const rank = square >> 3;
+  KING_TARGETS.push([]);
+  KNIGHT_TARGETS.push([]);
+
+  DIRECTIONS.forEach(([df, dr], dir) => {
+    STEP[dir * 64 + square] = squareAt(file + df, rank + dr);
+    for (let target = STEP[dir * 64 + square]; target >= 0; target = squareAt((target & 7) + df, (target >> 3) + dr)) {
+      LINE[square * 64 + target] = dir;
+    }
+    const neighbour = squareAt(file + df, rank + dr);
+    if (neighbour >= 0) {
+      KING_TARGETS[square].push(neighbour);
+      ADJACENT[square * 64 + neighbour] = 1;
+    }
+  });
+
+  for (const [df, dr] of KNIGHT_OFFSETS) {
+    const target = squareAt(file + df, rank + dr);
+    if (target < 0) continue;
+    KNIGHT_TARGETS[square].push(target);
+    KNIGHT_ADJACENT[square * 64 + target] = 1;
+  }
+}
+
+// Storage symmetry: the white king is reduced to a1-d1-d4 without pawns, to files a-d with them
+const TRIANGLE_SQUARES: number[] = [];
+const HALF_BOARD_SQUARES: number[] = [];
+const TRIANGLE_SLOT = new Int8Array(64).fill(-1);
+const HALF_BOARD_SLOT = new Int8Array(64).fill(-1);
+for (let square = 0; square < 64; square++) {
+  const file = square & 7;
+  const rank = square >> 3;
+  if (file < 4 && rank <= file) {
+    TRIANGLE_SLOT[square] = TRIANGLE_SQUARES.length;
+    TRIANGLE_SQUARES.push(square);
+  }
+  if (file < 4) {
+    HALF_BOARD_SLOT[square] = HALF_BOARD_SQUARES.length;
+    HALF_BOARD_SQUARES.push(square);
+  }
+}
+
+const MIRROR_FILE = 1;
+const MIRROR_RANK = 2;
+const TRANSPOSE = 4;
+
+function transformSquare(square: number, symmetry: number): number {
+  if (symmetry & MIRROR_FILE) square ^= 7;
+  if (symmetry & MIRROR_RANK) square ^= 56;
+  if (symmetry & TRANSPOSE) square = ((square & 7) << 3) | (square >> 3);
+  return square;
+}
+
+/**
+ * The symmetry that brings the white king into its storage region
+ */
+function symmetryFor(kingSquare: number, hasPawns: boolean): number {
+  let symmetry = (kingSquare & 7) > 3 ? MIRROR_FILE : 0;
+  if (hasPawns) return symmetry;
+
+  if ((kingSquare >> 3) > 3) symmetry |= MIRROR_RANK;
+  const square = transformSquare(kingSquare, symmetry);
+  if ((square >> 3) > (square & 7)) symmetry |= TRANSPOSE;
+  return symmetry;
+}
+
+function sortLetters(letters: string): string {
+  return letters.split('').sort((a, b) => PIECE_LETTERS.indexOf(a) - PIECE_LETTERS.indexOf(b)).join('');
+}
+
+function strength(letters: string): number {
+  return letters.split('').reduce((sum, letter) => sum + PIECE_STRENGTH[letter], 0);
+}
+
+/**
+ * Table name for the pieces each side has besides its king, with the stronger
+ * side as White; `flipped` when the colours had to be swapped for that
+ */
+function materialSignature(white: string, black: string): { signature: string; flipped: boolean } {
+  white = sortLetters(white);
+  black = sortLetters(black);
+  const flipped = strength(black) > strength(white) || (strength(black) === strength(white) && black < white);
+  return { signature: flipped ? `K${black}vK${white}` : `K${white}vK${black}`, flipped };
+}
+
+/**
+ * Material neither side can win with: bare kings, or a single minor piece
+ */
+function isTrivialDraw(white: string, black: string): boolean {
+  const pieces = white + black;
+  return pieces.length === 0 || (pieces.length === 1 && (pieces === 'B' || pieces === 'N'));
+}
+
+function parseSignature(signature: string): { white: string; black: string } {
+  const match = SIGNATURE.exec(signature);
+  if (!match || match[1].length + match[2].length + 2 > MAX_BITBASE_PIECES) {
+    throw new Error(`Invalid bitbase signature: ${signature}`);
+  }
+  return { white: match[1], black: match[2] };
+}
+
+/**
+ * Canonical name of a material configuration (KPvK, KRvKP, ...)
+ */
+export function bitbaseSignature(signature: string): string {
+  const { white, black } = parseSignature(signature);
+  return materialSignature(white, black).signature;
+}
+
+/**
+ * Tables a configuration's captures and promotions lead into (trivial draws excluded)
+ */
+export function bitbaseDependencies(signature: string): string[] {
+  const { white, black } = parseSignature(bitbaseSignature(signature));
+  const dependencies = new Set<string>();
+  const add = (w: string, b: string) => {
+    if (!isTrivialDraw(w, b)) dependencies.add(materialSignature(w, b).signature);
+  };
+  const without = (letters: string, index: number) => letters.slice(0, index) + letters.slice(index + 1);
+
+  for (const [own, other, ownIsWhite] of [[white, black, true], [black, white, false]] as [string, string, boolean][]) {
+    const sides = (ownPieces: string, otherPieces: string) => (ownIsWhite ? add(ownPieces, otherPieces) : add(otherPieces, ownPieces));
+    const captures = other.split('').map((_, i) => without(other, i));
+
+    for (const remaining of captures) sides(own, remaining);
+    own.split('').forEach((letter, i) => {
+      if (letter !== 'P') return;
+      for (const promoted of PROMOTION_LETTERS) {
+        const promotedSide = without(own, i) + promoted;
+        sides(promotedSide, other);
+        for (const remaining of captures) sides(promotedSide, remaining);
+      }
+    });
+  }
+
+  return [...dependencies];
+}
+
+interface TableLayout {
+  colors: number[]; // per piece: 0 = white, 1 = black
+  types: number[];
+  offsets: number[]; // pawns are indexed from rank 2
+  multipliers: number[]; // index weight of each piece's square; the side to move is the lowest bit
+  kings: number[]; // piece numbers of the white and black king
+  hasPawns: boolean;
+  size: number; // positions in the full table
+  storedSize: number; // positions kept after symmetry reduction
+}
+
+/**
+ * Pieces in index order: white king, White's other pieces, black king, Black's other pieces
+ */
+function createLayout(signature: string): TableLayout {
+  const { white, black } = parseSignature(signature);
+  const letters = ['K', ...white.split(''), 'K', ...black.split('')];
+  const colors = letters.map((_, i) => (i <= white.length ? 0 : 1));
+  const types = letters.map(letter => TYPE_CODES[letter.toLowerCase()]);
+  const radix = types.map(type => (type === PAWN ? 48 : 64));
+
+  const multipliers = new Array<number>(letters.length);
+  let size = 2;
+  for (let i = letters.length - 1; i >= 0; i--) {
+    multipliers[i] = size;
+    size *= radix[i];
+  }
+
+  const hasPawns = types.includes(PAWN);
+  return {
+    colors,
+    types,
+    offsets: types.map(type => (type === PAWN ? 8 : 0)),
+    multipliers,
+    kings: [0, white.length + 1],
+    hasPawns,
+    size,
+    storedSize: (hasPawns ? HALF_BOARD_SQUARES.length : TRIANGLE_SQUARES.length) * multipliers[0],
+  };
+}
+
+function attacks(type: number, color: number, from: number, target: number, occupied: Uint8Array): boolean {
+  switch (type) {
+    case KING:
+      return ADJACENT[from * 64 + target] === 1;
+    case KNIGHT:
+      return KNIGHT_ADJACENT[from * 64 + target] === 1;
+    case PAWN: {
+      const df = (target & 7) - (from & 7);
+      return (df === 1 || df === -1) && target - from === (color === 0 ? 8 : -8) + df;
+    }
+    default: {
+      const dir = LINE[from * 64 + target];
+      if (dir < 0 || (type === ROOK && dir >= 4) || (type === BISHOP && dir < 4)) return false;
+      for (let square = STEP[dir * 64 + from]; square !== target; square = STEP[dir * 64 + square]) {
+        if (occupied[square]) return false;
+      }
+      return true;
+    }
+  }
+}
+
+/**
+ * Retrograde analysis over the full table. Every legal position starts with a
+ * counter of its moves; mates are losses, and moves into a lost position make
+ * wins. Working back from decided positions, a predecessor of a loss is a win,
+ * and a position whose moves all reach wins (counter down to 0) is a loss.
+ * Captures and promotions leave the table and are looked up in `probeChild`.
+ * Whatever is left undecided is a draw.
+ */
+function retrogradeAnalysis(
+  layout: TableLayout,
+  probeChild: (pieces: BitbasePiece[], turn: 'w' | 'b') => BitbaseValue
+): Uint8Array {
+  const { colors, types, offsets, multipliers, kings, size } = layout;
+  const count = types.length;
+  const values = new Uint8Array(size);
+  const counters = new Uint8Array(size);
+  const queue = new Int32Array(size);
+  let tail = 0;
+
+  const squares = new Int32Array(count); // -1 = captured
+  const occupied = new Uint8Array(64); // piece number + 1
+  const moveFrom = new Int32Array(256); // piece number
+  const moveTo = new Int32Array(256);
+  const movePromotion = new Int32Array(256);
+
+  const decode = (index: number) => {
+    for (let i = 0; i < count; i++) {
+      squares[i] = (Math.floor(index / multipliers[i]) % (types[i] === PAWN ? 48 : 64)) + offsets[i];
+    }
+  };
+
+  const inCheck = (color: number): boolean => {
+    const king = squares[kings[color]];
+    for (let i = 0; i < count; i++) {
+      if (colors[i] !== color && squares[i] >= 0 && attacks(types[i], colors[i], squares[i], king, occupied)) return true;
+    }
+    return false;
+  };
+
+  let moves = 0;
+  let turn = 0;
+  const push = (piece: number, to: number, promotion: number) => {
+    moveFrom[moves] = piece;
+    moveTo[moves] = to;
+    movePromotion[moves++] = promotion;
+  };
+  const pushPawn = (piece: number, to: number) => {
+    if ((to >> 3) === 0 || (to >> 3) === 7) {
+      for (let p = 0; p < PROMOTIONS.length; p++) push(piece, to, PROMOTIONS[p]);
+    } else {
+      push(piece, to, 0);
+    }
+  };
+  const isEnemy = (square: number) => occupied[square] > 0 && colors[occupied[square] - 1] !== turn;
+
+  // Pseudo-legal moves of the side to move into moveFrom/moveTo/movePromotion
+  const generateMoves = (): void => {
+    moves = 0;
+    for (let i = 0; i < count; i++) {
+      if (colors[i] !== turn) continue;
+      const from = squares[i];
+      const type = types[i];
+
+      if (type === PAWN) {
+        const forward = turn === 0 ? 8 : -8;
+        const single = from + forward;
+        if (!occupied[single]) {
+          pushPawn(i, single);
+          if ((from >> 3) === (turn === 0 ? 1 : 6) && !occupied[single + forward]) push(i, single + forward, 0);
+        }
+        if ((from & 7) > 0 && isEnemy(single - 1)) pushPawn(i, single - 1);
+        if ((from & 7) < 7 && isEnemy(single + 1)) pushPawn(i, single + 1);
+      } else if (type === KING || type === KNIGHT) {
+        const targets = (type === KING ? KING_TARGETS : KNIGHT_TARGETS)[from];
+        for (let t = 0; t < targets.length; t++) {
+          if (!occupied[targets[t]] || isEnemy(targets[t])) push(i, targets[t], 0);
+        }
+      } else {
+        const last = type === ROOK ? 4 : 8;
+        for (let dir = type === BISHOP ? 4 : 0; dir < last; dir++) {
+          for (let to = STEP[dir * 64 + from]; to >= 0; to = STEP[dir * 64 + to]) {
+            if (!occupied[to]) {
+              push(i, to, 0);
+              continue;
+            }
+            if (isEnemy(to)) push(i, to, 0);
+            break;
+          }
+        }
+      }
+    }
+  };
+
+  // Squares a piece of `turn` can have come from by a non-capturing move
+  const generateUnmoves = (piece: number, mover: number): number => {
+    let origins = 0;
+    const from = squares[piece];
+    const type = types[piece];
+
+    if (type === PAWN) {
+      const back = mover === 0 ? -8 : 8;
+      const single = from + back;
+      if (single >= 8 && single < 56 && !occupied[single]) {
+        moveTo[origins++] = single;
+        if ((from >> 3) === (mover === 0 ? 3 : 4) && !occupied[single + back]) moveTo[origins++] = single + back;
+      }
+    } else if (type === KING || type === KNIGHT) {
+      const targets = (type === KING ? KING_TARGETS : KNIGHT_TARGETS)[from];
+      for (let t = 0; t < targets.length; t++) {
+        if (!occupied[targets[t]]) moveTo[origins++] = targets[t];
+      }
+    } else {
+      const last = type === ROOK ? 4 : 8;
+      for (let dir = type === BISHOP ? 4 : 0; dir < last; dir++) {
+        for (let to = STEP[dir * 64 + from]; to >= 0 && !occupied[to]; to = STEP[dir * 64 + to]) {
+          moveTo[origins++] = to;
+        }
+      }
+    }
+    return origins;
+  };
+
+  const childValue = (promotedPiece: number, promotion: number, childTurn: number): number => {
+    const pieces: BitbasePiece[] = [];
+    for (let i = 0; i < count; i++) {
+      if (squares[i] < 0) continue;
+      const type = i === promotedPiece && promotion ? promotion : types[i];
+      pieces.push({ color: colors[i] === 0 ? 'w' : 'b', type: TYPE_NAMES[type], square: squares[i] });
+    }
+    const value = probeChild(pieces, childTurn === 0 ? 'w' : 'b');
+    return value === 'win' ? WIN : value === 'loss' ? LOSS : DRAW;
+  };
+
+  // Initial pass: legality, mates, conversions, move counters
+  for (let index = 0; index < size; index++) {
+    decode(index);
+    let overlapping = false;
+    for (let i = 0; i < count; i++) {
+      if (occupied[squares[i]]) overlapping = true;
+      else occupied[squares[i]] = i + 1;
+    }
+
+    turn = index & 1;
+    if (overlapping || inCheck(turn ^ 1)) {
+      values[index] = INVALID;
+    } else {
+      generateMoves();
+      let legal = 0;
+      let remaining = 0;
+      let winning = false;
+
+      for (let m = 0; m < moves && !winning; m++) {
+        const piece = moveFrom[m];
+        const from = squares[piece];
+        const to = moveTo[m];
+        const victim = occupied[to] - 1;
+
+        occupied[from] = 0;
+        occupied[to] = piece + 1;
+        squares[piece] = to;
+        if (victim >= 0) squares[victim] = -1;
+
+        const illegal = inCheck(turn);
+        const converted = !illegal && (victim >= 0 || movePromotion[m] !== 0);
+        const value = converted ? childValue(piece, movePromotion[m], turn ^ 1) : UNKNOWN;
+
+        squares[piece] = from;
+        occupied[from] = piece + 1;
+        occupied[to] = victim + 1;
+        if (victim >= 0) squares[victim] = to;
+        if (illegal) continue;
+
+        legal++;
+        if (value === LOSS) winning = true;
+        else if (value !== WIN) remaining++; // moves inside the table, and conversions to draws
+      }
+
+      if (legal === 0) {
+        values[index] = inCheck(turn) ? LOSS : DRAW;
+      } else if (winning) {
+        values[index] = WIN;
+      } else if (remaining === 0) {
+        values[index] = LOSS;
+      } else {
+        counters[index] = remaining;
+      }
+      if (values[index] === WIN || values[index] === LOSS) queue[tail++] = index;
+    }
+
+    for (let i = 0; i < count; i++) occupied[squares[i]] = 0;
+  }
+
+  // Retrograde pass: unmake moves of the side that just moved
+  for (let head = 0; head < tail; head++) {
+    const index = queue[head];
+    const value = values[index];
+    const mover = (index & 1) ^ 1;
+    decode(index);
+    for (let i = 0; i < count; i++) occupied[squares[i]] = i + 1;
+
+    for (let piece = 0; piece < count; piece++) {
+      if (colors[piece] !== mover) continue;
+      const unmoves = generateUnmoves(piece, mover);
+
+      for (let u = 0; u < unmoves; u++) {
+        const parent = (index ^ 1) + (moveTo[u] - squares[piece]) * multipliers[piece];
+        if (values[parent] !== UNKNOWN) continue;
+
+        if (value === LOSS) {
+          values[parent] = WIN;
+          queue[tail++] = parent;
+        } else if (--counters[parent] === 0) {
+          values[parent] = LOSS;
+          queue[tail++] = parent;
+        }
+      }
+    }
+
+    for (let i = 0; i < count; i++) occupied[squares[i]] = 0;
+  }
+
+  for (let index = 0; index < size; index++) {
+    if (values[index] === UNKNOWN) values[index] = DRAW;
+  }
+  return values;
+}
+
+export class EndgameBitbase {
+  public readonly signature: string;
+  private layout: TableLayout;
+  private data: Uint8Array;
+
+  private constructor(signature: string, data: Uint8Array) {
+    this.signature = signature;
+    this.layout = createLayout(signature);
+    if (data.length !== Math.ceil(this.layout.storedSize / 4)) {
+      throw new Error(`Bitbase ${signature} has ${data.length} bytes of data, expected ${Math.ceil(this.layout.storedSize / 4)}`);
+    }
+    this.data = data;
+  }
+
+  /**
+   * Build a table; captures and promotions are resolved through `probeChild`,
+   * which must know every table in `bitbaseDependencies(signature)`
+   */
+  public static generate(
+    signature: string,
+    probeChild: (pieces: BitbasePiece[], turn: 'w' | 'b') => BitbaseValue
+  ): EndgameBitbase {
+    const canonical = bitbaseSignature(signature);
+    const layout = createLayout(canonical);
+    const values = retrogradeAnalysis(layout, probeChild);
+
+    // Keep only the positions with the white king in its storage region
+    const kingSquares = layout.hasPawns ? HALF_BOARD_SQUARES : TRIANGLE_SQUARES;
+    const block = layout.multipliers[0];
+    const data = new Uint8Array(Math.ceil(layout.storedSize / 4));
+    kingSquares.forEach((kingSquare, slot) => {
+      for (let rest = 0; rest < block; rest++) {
+        const value = values[kingSquare * block + rest];
+        if (value !== WIN && value !== LOSS) continue;
+        const stored = slot * block + rest;
+        data[stored >> 2] |= value << ((stored & 3) * 2);
+      }
+    });
+
+    return new EndgameBitbase(canonical, data);
+  }
+
+  /**
+   * File contents: magic and version, signature length and ASCII signature, packed values
+   */
+  public serialize(): Uint8Array {
+    const bytes = new Uint8Array(MAGIC.length + 1 + this.signature.length + this.data.length);
+    bytes.set(MAGIC, 0);
+    bytes[MAGIC.length] = this.signature.length;
+    for (let i = 0; i < this.signature.length; i++) bytes[MAGIC.length + 1 + i] = this.signature.charCodeAt(i);
+    bytes.set(this.data, MAGIC.length + 1 + this.signature.length);
+    return bytes;
+  }
+
+  public static deserialize(bytes: Uint8Array): EndgameBitbase {
+    if (bytes.length < MAGIC.length + 1 || MAGIC.some((byte, i) => bytes[i] !== byte)) {
+      throw new Error('Not a bitbase file');
+    }
+    const length = bytes[MAGIC.length];
+    const start = MAGIC.length + 1;
+    const signature = String.fromCharCode(...bytes.subarray(start, start + length));
+    if (bitbaseSignature(signature) !== signature) {
+      throw new Error(`Bitbase signature ${signature} is not canonical`);
+    }
+    return new EndgameBitbase(signature, bytes.slice(start + length));
+  }
+
+  public get byteLength(): number {
+    return this.data.length;
+  }
+
+  /**
+   * Value for the side to move of a position with exactly this table's pieces
+   * (White the side named first); null when the pieces don't match
+   */
+  public probePieces(pieces: BitbasePiece[], turn: 'w' | 'b'): BitbaseValue | null {
+    const { colors, types, offsets, multipliers, hasPawns } = this.layout;
+    if (pieces.length !== types.length) return null;
+
+    // Assign the pieces to the table's piece numbers
+    const squares = new Array<number>(types.length);
+    const used = new Array<boolean>(pieces.length).fill(false);
+    for (let i = 0; i < types.length; i++) {
+      const match = pieces.findIndex((piece, j) =>
+        !used[j] && TYPE_CODES[piece.type] === types[i] && (piece.color === 'w' ? 0 : 1) === colors[i]
+      );
+      if (match < 0) return null;
+      used[match] = true;
+      squares[i] = pieces[match].square;
+    }
+
+    const symmetry = symmetryFor(squares[0], hasPawns);
+    const slots = hasPawns ? HALF_BOARD_SLOT : TRIANGLE_SLOT;
+    let index = slots[transformSquare(squares[0], symmetry)] * multipliers[0] + (turn === 'w' ? 0 : 1);
+    for (let i = 1; i < squares.length; i++) {
+      index += (transformSquare(squares[i], symmetry) - offsets[i]) * multipliers[i];
+    }
+
+    const value = (this.data[index >> 2] >> ((index & 3) * 2)) & 3;
+    return value === WIN ? 'win' : value === LOSS ? 'loss' : 'draw';
+  }
+}
+
+/**
+ * Progress of the winning side, for search to make headway in a won position:
+ * material, the losing king driven to the edge (to a corner of the bishop's
+ * colour with bishop and knight), kings close together and pawns advanced
+ */
+function winningProgress(pieces: BitbasePiece[], winner: 'w' | 'b'): number {
+  const ownKing = pieces.find(piece => piece.type === 'k' && piece.color === winner);
+  const enemyKing = pieces.find(piece => piece.type === 'k' && piece.color !== winner);
+  if (!ownKing || !enemyKing) return 0;
+
+  const file = (square: number) => square & 7;
+  const rank = (square: number) => square >> 3;
+  const distance = (a: number, b: number) => Math.max(Math.abs(file(a) - file(b)), Math.abs(rank(a) - rank(b)));
+
+  let progress = 0;
+  for (const piece of pieces) {
+    if (piece.type === 'k') continue;
+    const value = PIECE_STRENGTH[piece.type.toUpperCase()] * 20;
+    progress += piece.color === winner ? value : -value;
+    if (piece.type === 'p' && piece.color === winner) {
+      progress += (winner === 'w' ? rank(piece.square) - 1 : 6 - rank(piece.square)) * 30;
+    }
+  }
+
+  const edge = Math.max(3 - file(enemyKing.square), file(enemyKing.square) - 4)
+    + Math.max(3 - rank(enemyKing.square), rank(enemyKing.square) - 4);
+  progress += edge * 20;
+  progress += (14 - Math.abs(file(ownKing.square) - file(enemyKing.square)) - Math.abs(rank(ownKing.square) - rank(enemyKing.square))) * 8;
+
+  const bishop = pieces.find(piece => piece.type === 'b' && piece.color === winner);
+  if (bishop && pieces.some(piece => piece.type === 'n' && piece.color === winner)) {
+    const corners = (file(bishop.square) + rank(bishop.square)) % 2 === 1 ? [7, 56] : [0, 63]; // h1/a8 or a1/h8
+    progress += (7 - Math.min(...corners.map(corner => distance(enemyKing.square, corner)))) * 30;
+  }
+
+  return Math.max(0, Math.min(MAX_BITBASE_PROGRESS, progress));
+}
+
+/**
+ * The bitbases an agent knows, probed by material
+ */
+export class BitbaseSet {
+  private tables: Map<string, EndgameBitbase> = new Map();
+
+  public get size(): number {
+    return this.tables.size;
+  }
+
+  public add(bitbase: EndgameBitbase): void {
+    this.tables.set(bitbase.signature, bitbase);
+  }
+
+  public has(signature: string): boolean {
+    return this.tables.has(bitbaseSignature(signature));
+  }
+
+  public signatures(): string[] {
+    return [...this.tables.keys()];
+  }
+
+  /**
+   * Generate a table and whatever subtables it needs that are missing;
+   * returns the new tables, subtables first
+   */
+  public generate(signature: string, onGenerated?: (bitbase: EndgameBitbase, time: number) => void): EndgameBitbase[] {
+    const canonical = bitbaseSignature(signature);
+    if (this.tables.has(canonical)) return [];
+
+    const generated: EndgameBitbase[] = [];
+    for (const dependency of bitbaseDependencies(canonical)) {
+      generated.push(...this.generate(dependency, onGenerated));
+    }
+
+    const started = Date.now();
+    const bitbase = EndgameBitbase.generate(canonical, (pieces, turn) => {
+      const probe = this.probePieces(pieces, turn);
+      if (!probe) throw new Error(`Bitbase ${canonical} needs a missing subtable`);
+      return probe.value;
+    });
+    this.add(bitbase);
+    generated.push(bitbase);
+    onGenerated?.(bitbase, Date.now() - started);
+    return generated;
+  }
+
+  /**
+   * Probe a position; null when no table covers it (castling rights included)
+   */
+  public probe(chess: Chess): BitbaseProbe | null {
+    if (this.tables.size === 0) return null;
+
+    const pieces: BitbasePiece[] = [];
+    const board = chess.board();
+    for (let row = 0; row < 8; row++) {
+      for (let file = 0; file < 8; file++) {
+        const piece = board[row][file];
+        if (!piece) continue;
+        if (pieces.length === MAX_BITBASE_PIECES) return null;
+        pieces.push({ color: piece.color, type: piece.type, square: (7 - row) * 8 + file });
+      }
+    }
+    if (chess.fen().split(' ')[2] !== '-') return null;
+
+    return this.probePieces(pieces, chess.turn());
+  }
+
+  public probePieces(pieces: BitbasePiece[], turn: 'w' | 'b'): BitbaseProbe | null {
+    const letters = (color: 'w' | 'b') => pieces
+      .filter(piece => piece.color === color && piece.type !== 'k')
+      .map(piece => piece.type.toUpperCase())
+      .join('');
+    const white = letters('w');
+    const black = letters('b');
+    if (isTrivialDraw(white, black)) return { value: 'draw', progress: 0 };
+
+    const { signature, flipped } = materialSignature(white, black);
+    const bitbase = this.tables.get(signature);
+    if (!bitbase) return null;
+
+    const value = flipped
+      ? bitbase.probePieces(
+        pieces.map(piece => ({ color: piece.color === 'w' ? 'b' : 'w', type: piece.type, square: piece.square ^ 56 })),
+        turn === 'w' ? 'b' : 'w'
+      )
+      : bitbase.probePieces(pieces, turn);
+    if (value === null) return null;
+
+    const winner = value === 'draw' ? null : value === 'win' ? turn : turn === 'w' ? 'b' : 'w';
+    return { value, progress: winner ? winningProgress(pieces, winner) : 0 };
+  }
+}
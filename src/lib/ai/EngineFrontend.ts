@@ -0,0 +1,201 @@
+import { Chess } from 'chess.js';
+import { ChessAIAgent, SearchLine, isMateScore, matePlies } from './ChessAIAgent';
+import { PERSONA_NAMES, PersonaName } from './Persona';
+import { SyzygyTablebase, SyzygyFileSource } from './SyzygyTablebase';
+
+/**
+ * Engine Frontend
+ * What the text protocols a ChessAIAgent speaks to GUIs and servers (UCI, CECP)
+ * have in common: the position, a search that keeps reading input (the agent
+ * hands control back between root moves) and can be stopped, and the engine
+ * options both protocols expose
+ */
+
+export const START_FEN = 'rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1';
+export const HASH_ENTRIES_PER_MB = 16384;
+export const DEFAULT_HASH_MB = 16;
+export const DEFAULT_ENGINE_ELO = 1500;
+
+/**
+ * UCI/CECP coordinate notation (e2e4, e7e8q) of a SAN move in a position
+ */
+export function sanToUci(chess: Chess, san: string): string | null {
+  try {
+    const move = chess.move(san);
+    chess.undo();
+    return move.from + move.to + (move.promotion || '');
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Play a coordinate-notation move; false when it is not legal
+ */
+export function playUciMove(chess: Chess, uci: string): boolean {
+  try {
+    chess.move({ from: uci.slice(0, 2), to: uci.slice(2, 4), promotion: uci.length > 4 ? uci[4] : undefined });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * A search line's principal variation in coordinate notation
+ */
+export function pvToUci(fen: string, line: SearchLine): string[] {
+  const board = new Chess(fen);
+  const pv: string[] = [];
+  for (const san of line.pv) {
+    const uci = sanToUci(board, san);
+    if (!uci) break;
+    pv.push(uci);
+    board.move(san);
+  }
+  return pv;
+}
+
+/**
+ * Score for the side to move (protocols report it that way, agents from White's
+ * point of view), with the moves to mate when it is a mate score
+ */
+export function sideToMoveScore(fen: string, line: SearchLine): { score: number; mateIn: number | null } {
+  const score = fen.split(' ')[1] === 'b' ? -line.evaluation : line.evaluation;
+  const mateIn = isMateScore(score) ? Math.sign(score) * Math.ceil(matePlies(score) / 2) : null;
+  return { score: Math.round(score), mateIn };
+}
+
+export abstract class EngineFrontend {
+  protected agent: ChessAIAgent;
+  protected output: (line: string) => void;
+  protected position: Chess = new Chess();
+  protected stopRequested: boolean = false;
+  private search: Promise<void> | null = null;
+  private savedBookMinGames: number | null = null; // while the own book is off
+  private limitStrength: boolean = false;
+  private elo: number = DEFAULT_ENGINE_ELO;
+  private syzygySource: ((path: string) => SyzygyFileSource) | null = null;
+
+  constructor(agent: ChessAIAgent, output: (line: string) => void) {
+    this.agent = agent;
+    this.output = output;
+  }
+
+  /**
+   * Handle one line of input. Returns false once the engine should exit.
+   */
+  public abstract handleLine(line: string): Promise<boolean>;
+
+  /**
+   * Resolves once the running search (if any) has answered
+   */
+  public async waitForSearch(): Promise<void> {
+    if (this.search) await this.search;
+  }
+
+  public get isSearching(): boolean {
+    return this.search !== null;
+  }
+
+  /**
+   * Run a search alongside the command loop, which gets its turn whenever the
+   * agent yields; `onError` answers for the search when it fails
+   */
+  protected startSearch(task: () => Promise<void>, onError: (message: string) => void): void {
+    this.stopRequested = false;
+    this.search = task()
+      .catch(error => onError(error instanceof Error ? error.message : String(error)))
+      .finally(() => {
+        this.search = null;
+      });
+  }
+
+  /**
+   * Stop the running search: it answers with the move of its last completed depth
+   */
+  protected requestStop(): void {
+    this.stopRequested = true;
+    this.agent.stopSearch();
+  }
+
+  /**
+   * Analysis until stopped: one search deepening to maxDepth, reporting each
+   * completed depth; a stop request cuts the depth being searched short.
+   * Returns the last completed line.
+   */
+  protected async analyzeUntilStopped(
+    fen: string,
+    onLine: (line: SearchLine, depth: number, nodes: number, time: number) => void,
+    maxDepth: number = 64
+  ): Promise<SearchLine | null> {
+    const analysis = await this.agent.analyzePosition(fen, { depth: maxDepth }, 1, {
+      onIteration: iteration => onLine(iteration.lines[0], iteration.depth, iteration.nodes, iteration.time),
+    });
+
+    // Searched to the end before the stop: the protocol still expects to wait for it
+    while (!this.stopRequested) {
+      await new Promise(resolve => setTimeout(resolve, 10));
+    }
+    return analysis.lines[0] || null;
+  }
+
+  protected setHashSize(megabytes: number): void {
+    const size = Math.max(1, Math.min(1024, megabytes || DEFAULT_HASH_MB));
+    this.agent.configureTranspositionTable({ size: size * HASH_ENTRIES_PER_MB });
+  }
+
+  protected clearHash(): void {
+    this.agent.configureTranspositionTable({});
+  }
+
+  /**
+   * A book move needs `minGames` games, so an infinite minimum turns the book off
+   */
+  protected setOwnBook(enabled: boolean): void {
+    if (!enabled && this.savedBookMinGames === null) {
+      this.savedBookMinGames = this.agent.knowledge.openingBook.getConfig().minGames;
+      this.agent.configureOpeningBook({ minGames: Infinity });
+    } else if (enabled && this.savedBookMinGames !== null) {
+      this.agent.configureOpeningBook({ minGames: this.savedBookMinGames });
+      this.savedBookMinGames = null;
+    }
+  }
+
+  protected setLimitStrength(enabled: boolean): void {
+    this.limitStrength = enabled;
+    this.agent.setStrength(enabled ? this.elo : null);
+  }
+
+  protected setElo(elo: number): void {
+    this.elo = elo || DEFAULT_ENGINE_ELO;
+    if (this.limitStrength) this.agent.setStrength(this.elo);
+  }
+
+  /**
+   * A built-in persona by name; anything else (e.g. "none") removes it
+   */
+  protected setPersonaName(name: string): void {
+    this.agent.setPersona(PERSONA_NAMES.includes(name as PersonaName) ? name as PersonaName : null);
+  }
+
+  /**
+   * Where the table files of a Syzygy path are read from (syzygyDirectorySource
+   * under Node). Without one the tablebase options find no tables.
+   */
+  public setSyzygySource(source: ((path: string) => SyzygyFileSource) | null): void {
+    this.syzygySource = source;
+  }
+
+  /**
+   * Syzygy tables from the directories of a path (empty or `<empty>` turns them
+   * off). Returns the number of tables found; without any the agent plays on
+   * without tablebases.
+   */
+  protected setSyzygyPath(path: string): number {
+    const directories = path.trim() === '<empty>' ? '' : path.trim();
+    const tablebase = directories && this.syzygySource ? new SyzygyTablebase(this.syzygySource(directories)) : null;
+    this.agent.setSyzygyTablebase(tablebase);
+    return tablebase ? tablebase.size : 0;
+  }
+}
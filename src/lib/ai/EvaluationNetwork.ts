@@ -0,0 +1,242 @@
+/**
+ * Evaluation Network
+ * Small MLP over piece-square features, trained by backpropagation on game outcomes
+ */
+
+export interface NetworkLayer {
+  inputs: number;
+  outputs: number;
+  weights: number[]; // weights[input * outputs + output]
+  biases: number[];
+}
+
+export interface SerializedNetwork {
+  version: number;
+  layers: NetworkLayer[];
+}
+
+export interface NetworkTrainingSample {
+  features: number[]; // active input indices from encodeBoard
+  target: number; // expected outcome from White's point of view, in [-1, 1]
+  weight?: number; // importance-sampling weight scaling this sample's gradient
+}
+
+type BoardSquare = { type: string; color: string } | null;
+
+// 12 piece kinds (white p..k, black p..k) on 64 squares, one-hot
+export const NETWORK_INPUTS = 768;
+
+const PIECE_ORDER = 'pnbrqk';
+const SERIALIZATION_VERSION = 1;
+
+/**
+ * Active feature indices for a board as returned by chess.board() (rank 8 first)
+ */
+export function encodeBoard(board: BoardSquare[][]): number[] {
+  const features: number[] = [];
+
+  for (let row = 0; row < 8; row++) {
+    for (let file = 0; file < 8; file++) {
+      const piece = board[row][file];
+      if (!piece) continue;
+
+      const kind = PIECE_ORDER.indexOf(piece.type) + (piece.color === 'w' ? 0 : 6);
+      const square = (7 - row) * 8 + file;
+      features.push(kind * 64 + square);
+    }
+  }
+
+  return features;
+}
+
+export class EvaluationNetwork {
+  private layers: NetworkLayer[];
+
+  constructor(hiddenSizes: number[] = [32, 32]) {
+    const sizes = [NETWORK_INPUTS, ...hiddenSizes, 1];
+    this.layers = [];
+
+    for (let i = 0; i < sizes.length - 1; i++) {
+      // He initialization for the ReLU layers; the output layer starts small so
+      // an untrained network barely moves the evaluation
+      const isOutput = i === sizes.length - 2;
+      const scale = isOutput ? 0.1 / Math.sqrt(sizes[i]) : Math.sqrt(2 / sizes[i]);
+      const weights: number[] = [];
+      for (let j = 0; j < sizes[i] * sizes[i + 1]; j++) {
+        weights.push((Math.random() * 2 - 1) * scale);
+      }
+      this.layers.push({
+        inputs: sizes[i],
+        outputs: sizes[i + 1],
+        weights,
+        biases: new Array(sizes[i + 1]).fill(0),
+      });
+    }
+  }
+
+  /**
+   * Expected outcome in [-1, 1] from White's point of view
+   */
+  public predict(features: number[]): number {
+    const activations = this.forward(features);
+    return activations[activations.length - 1][0];
+  }
+
+  /**
+   * One pass of mini-batch gradient descent on mean squared error.
+   * Returns the average loss over the samples before the update.
+   */
+  public train(samples: NetworkTrainingSample[], learningRate: number, batchSize: number): number {
+    if (samples.length === 0) return 0;
+
+    const size = Math.max(1, Math.floor(batchSize));
+    let totalLoss = 0;
+
+    for (let start = 0; start < samples.length; start += size) {
+      const batch = samples.slice(start, start + size);
+      const gradients = this.layers.map(layer => ({
+        weights: new Array(layer.weights.length).fill(0),
+        biases: new Array(layer.biases.length).fill(0),
+      }));
+
+      for (const sample of batch) {
+        totalLoss += this.accumulateGradients(sample, gradients);
+      }
+
+      const step = learningRate / batch.length;
+      this.layers.forEach((layer, l) => {
+        for (let i = 0; i < layer.weights.length; i++) {
+          if (gradients[l].weights[i] !== 0) layer.weights[i] -= step * gradients[l].weights[i];
+        }
+        for (let i = 0; i < layer.biases.length; i++) {
+          layer.biases[i] -= step * gradients[l].biases[i];
+        }
+      });
+    }
+
+    return totalLoss / samples.length;
+  }
+
+  public serialize(): SerializedNetwork {
+    // Six decimals keep exported knowledge compact enough for localStorage
+    const round = (value: number) => Math.round(value * 1e6) / 1e6;
+    return {
+      version: SERIALIZATION_VERSION,
+      layers: this.layers.map(layer => ({
+        ...layer,
+        weights: layer.weights.map(round),
+        biases: layer.biases.map(round),
+      })),
+    };
+  }
+
+  /**
+   * Restore a network; returns null when the data has an unknown shape
+   */
+  public static deserialize(data: SerializedNetwork): EvaluationNetwork | null {
+    if (!data || data.version !== SERIALIZATION_VERSION || !Array.isArray(data.layers) || data.layers.length === 0) {
+      return null;
+    }
+
+    const layers = data.layers;
+    const valid = layers[0].inputs === NETWORK_INPUTS &&
+      layers[layers.length - 1].outputs === 1 &&
+      layers.every((layer, i) =>
+        layer.weights.length === layer.inputs * layer.outputs &&
+        layer.biases.length === layer.outputs &&
+        (i === 0 || layer.inputs === layers[i - 1].outputs)
+      );
+    if (!valid) return null;
+
+    const network = new EvaluationNetwork(layers.slice(0, -1).map(layer => layer.outputs));
+    network.layers = layers.map(layer => ({ ...layer, weights: [...layer.weights], biases: [...layer.biases] }));
+    return network;
+  }
+
+  /**
+   * Activations of every layer; the input layer is sparse so the first
+   * layer only sums the weights of active features
+   */
+  private forward(features: number[]): number[][] {
+    const activations: number[][] = [];
+    const first = this.layers[0];
+    let current = [...first.biases];
+
+    for (const feature of features) {
+      const offset = feature * first.outputs;
+      for (let j = 0; j < first.outputs; j++) {
+        current[j] += first.weights[offset + j];
+      }
+    }
+
+    for (let l = 0; l < this.layers.length; l++) {
+      if (l > 0) {
+        const layer = this.layers[l];
+        const previous = activations[l - 1];
+        const next = [...layer.biases];
+        for (let i = 0; i < layer.inputs; i++) {
+          if (previous[i] === 0) continue;
+          const offset = i * layer.outputs;
+          for (let j = 0; j < layer.outputs; j++) {
+            next[j] += previous[i] * layer.weights[offset + j];
+          }
+        }
+        current = next;
+      }
+
+      const isOutput = l === this.layers.length - 1;
+      activations.push(isOutput ? current.map(Math.tanh) : current.map(value => Math.max(0, value)));
+    }
+
+    return activations;
+  }
+
+  /**
+   * Backpropagate one sample, adding its gradients; returns the sample's loss
+   */
+  private accumulateGradients(
+    sample: NetworkTrainingSample,
+    gradients: { weights: number[]; biases: number[] }[]
+  ): number {
+    const activations = this.forward(sample.features);
+    const output = activations[activations.length - 1][0];
+    const error = output - sample.target;
+
+    // d(loss)/d(pre-activation) at the output: MSE through tanh
+    let delta = [(sample.weight ?? 1) * error * (1 - output * output)];
+
+    for (let l = this.layers.length - 1; l >= 0; l--) {
+      const layer = this.layers[l];
+
+      for (let j = 0; j < layer.outputs; j++) {
+        gradients[l].biases[j] += delta[j];
+      }
+
+      if (l === 0) {
+        for (const feature of sample.features) {
+          const offset = feature * layer.outputs;
+          for (let j = 0; j < layer.outputs; j++) {
+            gradients[l].weights[offset + j] += delta[j];
+          }
+        }
+        break;
+      }
+
+      const inputs = activations[l - 1];
+      const previousDelta = new Array(layer.inputs).fill(0);
+      for (let i = 0; i < layer.inputs; i++) {
+        if (inputs[i] === 0) continue; // ReLU gradient is zero for inactive units
+        const offset = i * layer.outputs;
+        let sum = 0;
+        for (let j = 0; j < layer.outputs; j++) {
+          gradients[l].weights[offset + j] += inputs[i] * delta[j];
+          sum += layer.weights[offset + j] * delta[j];
+        }
+        previousDelta[i] = sum;
+      }
+      delta = previousDelta;
+    }
+
+    return error * error;
+  }
+}
@@ -0,0 +1,349 @@
+import { Chess } from 'chess.js';
+import { TimeManager, SearchLimits } from './TimeManager';
+import type { TransformerGameNetwork } from './TransformerGameNetwork';
+
+/**
+ * Monte Carlo Tree Search
+ * PUCT selection over pluggable policy priors and value estimates (AlphaZero style),
+ * with Dirichlet root noise, temperature-based move choice and subtree reuse
+ */
+
+export interface PositionEstimate {
+  priors: Map<string, number>; // SAN -> prior probability, for the legal moves given
+  value: number; // expected outcome in [-1, 1] for the side to move
+}
+
+export type PositionEstimator = (chess: Chess, moves: string[]) => PositionEstimate | Promise<PositionEstimate>;
+
+export interface MCTSConfig {
+  simulations: number; // per move, unless the search limits give a node budget
+  cPuct: number; // exploration constant
+  dirichletAlpha: number;
+  dirichletEpsilon: number; // share of root noise in the root priors (0 = none)
+  temperature: number; // visit-count exponent 1/τ for the move choice; 0 = most visited
+  reuseTree: boolean; // keep the subtree of the position reached between moves
+}
+
+export interface MCTSMoveStats {
+  move: string;
+  visits: number;
+  prior: number;
+  value: number; // mean outcome for the side to move at the root, in [-1, 1]
+}
+
+export interface MCTSResult {
+  move: string;
+  value: number; // mean outcome of the chosen move for the side to move
+  pv: string[]; // most visited line from the root
+  simulations: number;
+  evaluations: number; // estimator calls (new nodes expanded)
+  reusedVisits: number; // root visits carried over from the previous search
+  moves: MCTSMoveStats[]; // by visits, most visited first
+}
+
+interface MCTSNode {
+  move: string | null; // move leading here (null at the root)
+  fen: string | null; // set once expanded
+  prior: number;
+  basePrior: number; // prior before root noise
+  visits: number;
+  valueSum: number; // outcomes for the side that made `move`
+  children: MCTSNode[] | null; // null until expanded
+  terminal: boolean;
+}
+
+export const DEFAULT_MCTS_CONFIG: MCTSConfig = {
+  simulations: 400,
+  cPuct: 1.5,
+  dirichletAlpha: 0.3,
+  dirichletEpsilon: 0,
+  temperature: 0,
+  reuseTree: true,
+};
+
+// Plies searched below the previous root for the position to continue from
+const REUSE_SEARCH_PLIES = 2;
+
+function createNode(move: string | null, prior: number): MCTSNode {
+  return { move, fen: null, prior, basePrior: prior, visits: 0, valueSum: 0, children: null, terminal: false };
+}
+
+export class MonteCarloTreeSearch {
+  private config: MCTSConfig;
+  private estimator: PositionEstimator;
+  private timeManager: TimeManager = new TimeManager();
+  private root: MCTSNode | null = null;
+  private evaluations: number = 0;
+  private stopRequested: boolean = false;
+
+  constructor(estimator: PositionEstimator, config: Partial<MCTSConfig> = {}) {
+    this.estimator = estimator;
+    this.config = { ...DEFAULT_MCTS_CONFIG, ...config };
+  }
+
+  public getConfig(): MCTSConfig {
+    return { ...this.config };
+  }
+
+  public configure(config: Partial<MCTSConfig>): void {
+    this.config = { ...this.config, ...config };
+    if (!this.config.reuseTree) this.reset();
+  }
+
+  public setEstimator(estimator: PositionEstimator): void {
+    this.estimator = estimator;
+    this.reset();
+  }
+
+  /**
+   * Drop the tree (values from an old estimator or game no longer apply)
+   */
+  public reset(): void {
+    this.root = null;
+  }
+
+  /**
+   * End the running search after its current simulation
+   */
+  public stop(): void {
+    this.stopRequested = true;
+  }
+
+  public async search(chess: Chess, limits: SearchLimits = {}): Promise<MCTSResult> {
+    const rootFen = chess.fen();
+    if (chess.isGameOver()) throw new Error('No legal moves available');
+
+    this.timeManager.start(limits);
+    this.evaluations = 0;
+    this.stopRequested = false;
+
+    const reused = this.config.reuseTree ? this.findSubtree(rootFen) : null;
+    const root = reused || createNode(null, 1);
+    const reusedVisits = reused ? reused.visits : 0;
+    this.root = root;
+
+    if (!root.children) await this.expand(root, new Chess(rootFen));
+    this.applyRootNoise(root);
+
+    const simulations = Math.max(1, Math.floor(limits.nodes ?? this.config.simulations));
+    let completed = 0;
+    while (completed < simulations) {
+      await this.simulate(root, rootFen);
+      completed++;
+      await this.timeManager.yieldIfDue();
+      if (this.timeManager.isTimeUp() || this.stopRequested) break;
+    }
+
+    const children = root.children!;
+    const chosen = this.selectMove(children);
+    const moves: MCTSMoveStats[] = [...children]
+      .sort((a, b) => b.visits - a.visits)
+      .map(child => ({
+        move: child.move!,
+        visits: child.visits,
+        prior: child.prior,
+        value: child.visits > 0 ? child.valueSum / child.visits : 0,
+      }));
+
+    return {
+      move: chosen.move!,
+      value: chosen.visits > 0 ? chosen.valueSum / chosen.visits : 0,
+      pv: [chosen.move!, ...this.principalVariation(chosen)],
+      simulations: completed,
+      evaluations: this.evaluations,
+      reusedVisits,
+      moves,
+    };
+  }
+
+  /**
+   * Select down the tree with PUCT, expand and estimate the leaf, back the value up
+   */
+  private async simulate(root: MCTSNode, rootFen: string): Promise<void> {
+    const chess = new Chess(rootFen);
+    const path: MCTSNode[] = [root];
+    let node = root;
+
+    while (node.children && node.children.length > 0) {
+      node = this.selectChild(node);
+      chess.move(node.move!);
+      path.push(node);
+    }
+
+    // Value for the side to move at the leaf
+    let value: number;
+    if (node.terminal || chess.isGameOver()) {
+      node.terminal = true;
+      node.fen = node.fen || chess.fen();
+      value = chess.isCheckmate() ? -1 : 0;
+    } else {
+      value = await this.expand(node, chess);
+    }
+
+    // Each node stores outcomes for the side that moved into it
+    for (let i = path.length - 1; i >= 0; i--) {
+      value = -value;
+      path[i].visits++;
+      path[i].valueSum += value;
+    }
+  }
+
+  private selectChild(node: MCTSNode): MCTSNode {
+    const sqrtVisits = Math.sqrt(Math.max(1, node.visits));
+    let best = node.children![0];
+    let bestScore = -Infinity;
+
+    for (const child of node.children!) {
+      const q = child.visits > 0 ? child.valueSum / child.visits : 0;
+      const u = this.config.cPuct * child.prior * sqrtVisits / (1 + child.visits);
+      if (q + u > bestScore) {
+        bestScore = q + u;
+        best = child;
+      }
+    }
+
+    return best;
+  }
+
+  private async expand(node: MCTSNode, chess: Chess): Promise<number> {
+    const moves = chess.moves();
+    const estimate = await this.estimator(chess, moves);
+    this.evaluations++;
+
+    const total = moves.reduce((sum, move) => sum + Math.max(0, estimate.priors.get(move) ?? 0), 0);
+    node.fen = chess.fen();
+    node.children = moves.map(move =>
+      createNode(move, total > 0 ? Math.max(0, estimate.priors.get(move) ?? 0) / total : 1 / moves.length)
+    );
+
+    return Math.max(-1, Math.min(1, estimate.value));
+  }
+
+  private applyRootNoise(root: MCTSNode): void {
+    const children = root.children!;
+    const epsilon = this.config.dirichletEpsilon;
+    if (epsilon <= 0 || children.length < 2) {
+      for (const child of children) child.prior = child.basePrior;
+      return;
+    }
+
+    const noise = sampleDirichlet(this.config.dirichletAlpha, children.length);
+    children.forEach((child, i) => {
+      child.prior = (1 - epsilon) * child.basePrior + epsilon * noise[i];
+    });
+  }
+
+  /**
+   * Most visited move at temperature 0, otherwise sampled ∝ visits^(1/τ)
+   */
+  private selectMove(children: MCTSNode[]): MCTSNode {
+    const mostVisited = children.reduce((best, child) => (child.visits > best.visits ? child : best), children[0]);
+    if (this.config.temperature <= 0) return mostVisited;
+
+    const weights = children.map(child => Math.pow(child.visits / mostVisited.visits, 1 / this.config.temperature));
+    const total = weights.reduce((sum, weight) => sum + weight, 0);
+    if (!(total > 0)) return mostVisited;
+
+    let r = Math.random() * total;
+    for (let i = 0; i < children.length; i++) {
+      r -= weights[i];
+      if (r <= 0) return children[i];
+    }
+    return children[children.length - 1];
+  }
+
+  private principalVariation(node: MCTSNode): string[] {
+    const pv: string[] = [];
+    let current = node;
+    while (current.children && current.children.some(child => child.visits > 0)) {
+      current = current.children.reduce((best, child) => (child.visits > best.visits ? child : best));
+      pv.push(current.move!);
+    }
+    return pv;
+  }
+
+  /**
+   * The node of the previous tree for `fen`, a few plies below its root at most
+   */
+  private findSubtree(fen: string): MCTSNode | null {
+    let frontier: MCTSNode[] = this.root ? [this.root] : [];
+
+    for (let ply = 0; ply <= REUSE_SEARCH_PLIES && frontier.length > 0; ply++) {
+      const match = frontier.find(node => node.fen === fen && node.children);
+      if (match) {
+        match.move = null;
+        return match;
+      }
+      frontier = frontier.flatMap(node => node.children || []);
+    }
+
+    return null;
+  }
+}
+
+/**
+ * Estimator backed by a transformer network: its policy head scores moves by
+ * from-square × 64 + to-square, its value head gives the side to move's outcome
+ */
+export function transformerEstimator(network: TransformerGameNetwork): PositionEstimator {
+  return async (chess: Chess, moves: string[]) => {
+    const prediction = await network.predict({
+      gameType: 'chess',
+      position: chess.fen(),
+      legalMoves: moves,
+      isTerminal: chess.isGameOver(),
+    });
+
+    const priors = new Map<string, number>();
+    for (const move of chess.moves({ verbose: true })) {
+      const index = squareIndex(move.from) * 64 + squareIndex(move.to);
+      priors.set(move.san, prediction.actionProbabilities[index] ?? 0);
+    }
+
+    return { priors, value: prediction.stateValue };
+  };
+}
+
+function squareIndex(square: string): number {
+  return (square.charCodeAt(1) - 49) * 8 + (square.charCodeAt(0) - 97);
+}
+
+/**
+ * Dirichlet(α, …, α) sample from normalized gamma variates
+ */
+function sampleDirichlet(alpha: number, count: number): number[] {
+  const samples = Array.from({ length: count }, () => sampleGamma(alpha));
+  const total = samples.reduce((sum, sample) => sum + sample, 0);
+  return total > 0 ? samples.map(sample => sample / total) : samples.map(() => 1 / count);
+}
+
+/**
+ * Gamma(shape, 1) by Marsaglia-Tsang, boosted for shapes below one
+ */
+function sampleGamma(shape: number): number {
+  if (shape < 1) {
+    return sampleGamma(shape + 1) * Math.pow(Math.random(), 1 / shape);
+  }
+
+  const d = shape - 1 / 3;
+  const c = 1 / Math.sqrt(9 * d);
+  for (;;) {
+    let x: number;
+    let v: number;
+    do {
+      x = sampleNormal();
+      v = 1 + c * x;
+    } while (v <= 0);
+
+    v = v * v * v;
+    const u = Math.random();
+    if (u < 1 - 0.0331 * x * x * x * x) return d * v;
+    if (Math.log(u) < 0.5 * x * x + d * (1 - v + Math.log(v))) return d * v;
+  }
+}
+
+function sampleNormal(): number {
+  let u = 0;
+  while (u === 0) u = Math.random();
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * Math.random());
+}
@@ -0,0 +1,171 @@
+import { Chess, Square } from 'chess.js';
+
+/**
+ * Move Ordering
+ * Hash move first, then MVV-LVA captures, promotions, killer moves and the history heuristic
+ */
+
+export interface MoveOrderingOptions {
+  hashMove: boolean;
+  mvvLva: boolean;
+  killerMoves: boolean;
+  historyHeuristic: boolean;
+}
+
+export interface SanInfo {
+  piece: string; // moving piece type (p, n, b, r, q, k)
+  to: string | null; // destination square (null for castling)
+  isCapture: boolean;
+  isCheck: boolean;
+  promotion: string | null;
+}
+
+export const DEFAULT_MOVE_ORDERING: MoveOrderingOptions = {
+  hashMove: true,
+  mvvLva: true,
+  killerMoves: true,
+  historyHeuristic: true,
+};
+
+const ORDERING_VALUES: { [piece: string]: number } = {
+  'p': 100, 'n': 320, 'b': 330, 'r': 500, 'q': 900, 'k': 20000,
+};
+
+const HASH_MOVE_SCORE = 10000000;
+const CAPTURE_SCORE = 1000000;
+const PROMOTION_SCORE = 900000;
+const KILLER_SCORE = 800000;
+const MAX_HISTORY = 500000;
+
+/**
+ * Read the moving piece, target square and move type from SAN
+ */
+export function parseSan(san: string): SanInfo {
+  const isCheck = san.endsWith('+') || san.endsWith('#');
+  if (san.startsWith('O-O')) {
+    return { piece: 'k', to: null, isCapture: false, isCheck, promotion: null };
+  }
+
+  const clean = san.replace(/[+#]/g, '');
+  const promotionMatch = clean.match(/=([NBRQ])$/);
+  const body = promotionMatch ? clean.slice(0, -2) : clean;
+  const first = body[0];
+
+  return {
+    piece: first >= 'A' && first <= 'Z' ? first.toLowerCase() : 'p',
+    to: body.slice(-2),
+    isCapture: body.includes('x'),
+    isCheck,
+    promotion: promotionMatch ? promotionMatch[1].toLowerCase() : null,
+  };
+}
+
+export class MoveOrderer {
+  private options: MoveOrderingOptions;
+  private killers: (string | null)[][] = [];
+  private history: Map<string, number> = new Map();
+
+  constructor(options: Partial<MoveOrderingOptions> = {}) {
+    this.options = { ...DEFAULT_MOVE_ORDERING, ...options };
+  }
+
+  public getOptions(): MoveOrderingOptions {
+    return { ...this.options };
+  }
+
+  /**
+   * Sort moves best-first for the side to move in `chess`
+   */
+  public orderMoves(chess: Chess, moves: string[], ply: number, hashMoves: (string | null | undefined)[] = []): string[] {
+    const color = chess.turn();
+    const killers = this.killers[ply] || [];
+
+    const scored = moves.map(move => {
+      let score = 0;
+      const hashIndex = this.options.hashMove ? hashMoves.indexOf(move) : -1;
+
+      if (hashIndex >= 0) {
+        score = HASH_MOVE_SCORE - hashIndex;
+      } else {
+        const info = parseSan(move);
+        if (info.isCapture && this.options.mvvLva) {
+          score = CAPTURE_SCORE + this.mvvLva(chess, info);
+        } else if (info.promotion && this.options.mvvLva) {
+          score = PROMOTION_SCORE + ORDERING_VALUES[info.promotion];
+        } else if (this.options.killerMoves && killers.includes(move)) {
+          score = KILLER_SCORE - killers.indexOf(move);
+        } else if (this.options.historyHeuristic) {
+          score = this.history.get(this.historyKey(color, info)) || 0;
+        }
+      }
+
+      return { move, score };
+    });
+
+    // Stable sort keeps generator order for equal scores
+    return scored
+      .map((entry, index) => ({ ...entry, index }))
+      .sort((a, b) => b.score - a.score || a.index - b.index)
+      .map(entry => entry.move);
+  }
+
+  /**
+   * Order captures only by MVV-LVA (used by quiescence search)
+   */
+  public orderCaptures(chess: Chess, moves: string[]): string[] {
+    return moves
+      .map(move => ({ move, score: this.mvvLva(chess, parseSan(move)) }))
+      .sort((a, b) => b.score - a.score)
+      .map(entry => entry.move);
+  }
+
+  /**
+   * Remember a quiet move that caused a beta cutoff; called with the board at the cutoff node
+   */
+  public recordCutoff(chess: Chess, move: string, ply: number, depth: number): void {
+    const info = parseSan(move);
+    if (info.isCapture || info.promotion) return;
+
+    if (this.options.killerMoves) {
+      const killers = this.killers[ply] || [null, null];
+      if (killers[0] !== move) {
+        killers[1] = killers[0];
+        killers[0] = move;
+      }
+      this.killers[ply] = killers;
+    }
+
+    if (this.options.historyHeuristic) {
+      const key = this.historyKey(chess.turn(), info);
+      const value = (this.history.get(key) || 0) + depth * depth;
+      this.history.set(key, value);
+
+      if (value > MAX_HISTORY) this.ageHistory();
+    }
+  }
+
+  /**
+   * Killers are position-specific, so they are reset per search; history decays
+   */
+  public newSearch(): void {
+    this.killers = [];
+    this.ageHistory();
+  }
+
+  private mvvLva(chess: Chess, info: SanInfo): number {
+    // En-passant captures land on an empty square
+    const victim = info.to ? chess.get(info.to as Square) : undefined;
+    const victimValue = victim ? ORDERING_VALUES[victim.type] : ORDERING_VALUES['p'];
+    return victimValue * 10 - ORDERING_VALUES[info.piece] / 100;
+  }
+
+  private historyKey(color: string, info: SanInfo): string {
+    return `${color}${info.piece}${info.to || 'castle'}`;
+  }
+
+  private ageHistory(): void {
+    for (const [key, value] of this.history) {
+      this.history.set(key, Math.floor(value / 2));
+    }
+  }
+}
@@ -183,7 +183,7 @@ export class MultiGameAI {
     if (Math.random() < explorationRate && evaluations.length > 1) {
       // Exploration: select from top 3 moves with probability based on value
       const topMoves = evaluations.slice(0, Math.min(3, evaluations.length));
-      const totalValue = topMoves.reduce((sum, eval) => sum + Math.max(0, eval.value), 0);
+      const totalValue = topMoves.reduce((sum, evaluation) => sum + Math.max(0, evaluation.value), 0);
       
       let random = Math.random() * totalValue;
       for (const moveEval of topMoves) {
@@ -1,5 +1,6 @@
 import { ChessAIAgent } from './ChessAIAgent';
 import { GameType, GameState } from './MultiGameAI';
+import { EcoClassification, classifyOpening } from './EcoClassifier';
 
 /**
  * Real-Time Online Gaming Integration
@@ -32,6 +33,7 @@ export interface OnlineGame {
   moveHistory: OnlineMove[];
   status: 'waiting' | 'active' | 'completed' | 'aborted';
   result?: GameResult;
+  opening?: EcoClassification;
   startTime: number;
   endTime?: number;
 }
@@ -169,7 +171,21 @@ export class OnlineGamingEngine {
       features: [
         { name: 'Live Games', description: 'Professional play', enabled: true },
         { name: 'Lectures', description: 'GM lectures', enabled: true },
-        { name: 'Tournaments', description: 'High-level tournaments', enabled: true }
+        { name: 'Tournaments', description: 'High-level tournaments', enabled: true },
+        { name: 'Computer Accounts', description: 'Engines play through an ICS interface speaking CECP (XBoardEngine)', enabled: true }
+      ]
+    });
+
+    // Free Internet Chess Server (FICS)
+    this.platforms.set('fics', {
+      id: 'fics',
+      name: 'Free Internet Chess Server',
+      url: 'https://www.freechess.org',
+      requiresAuth: true,
+      supportedGameTypes: ['chess'],
+      features: [
+        { name: 'Live Games', description: 'Play live games', enabled: true },
+        { name: 'Computer Accounts', description: 'Engines play through an ICS interface speaking CECP (XBoardEngine)', enabled: true }
       ]
     });
   }
@@ -330,6 +346,11 @@ export class OnlineGamingEngine {
     const chessGame = new chess.Chess();
     let moveNumber = 1;
 
+    // The AI searches against its own clock
+    let aiClock = game.timeControl.initialTime * 1000;
+    const increment = game.timeControl.increment * 1000;
+    let flagged: 'w' | 'b' | undefined;
+
     while (!chessGame.isGameOver() && game.status === 'active') {
       // Determine whose turn it is
       const isAITurn = (chessGame.turn() === 'w' && game.players[0].isAI) ||
@@ -337,26 +358,26 @@ export class OnlineGamingEngine {
 
       if (isAITurn) {
         // AI makes a move
-        const currentGameState: GameState = {
-          gameType: 'chess',
-          position: chessGame.fen(),
-          legalMoves: chessGame.moves(),
-          isTerminal: chessGame.isGameOver()
-        };
-
-        const move = await aiAgent.chooseMove(currentGameState);
-        const startTime = Date.now();
+        const move = await aiAgent.makeMove(chessGame, { timeRemaining: aiClock, increment });
+        const timeUsed = move.thinkingTime;
+
+        aiClock -= timeUsed;
+        if (aiClock <= 0) {
+          console.log(`${aiAgent.name} lost on time`);
+          flagged = chessGame.turn();
+          break;
+        }
+        aiClock += increment;
         
         try {
           chessGame.move(move.move);
-          const timeUsed = Date.now() - startTime;
 
           const onlineMove: OnlineMove = {
             moveNumber: Math.floor(moveNumber / 2) + 1,
             player: aiAgent.name,
             move: move.move,
             timeUsed,
-            timeRemaining: game.timeControl.initialTime - timeUsed,
+            timeRemaining: aiClock / 1000,
             evaluation: move.evaluation,
             timestamp: Date.now()
           };
@@ -366,7 +387,7 @@ export class OnlineGamingEngine {
           game.currentState.legalMoves = chessGame.moves();
           game.currentState.isTerminal = chessGame.isGameOver();
 
-          console.log(`AI played: ${move.move} (${move.evaluation?.toFixed(2)})`);
+          console.log(`AI played: ${move.move} (${move.evaluation?.toFixed(2)}, depth ${move.depth})`);
         } catch (error) {
           console.error(`Invalid move attempted: ${move.move}`);
           // In a real implementation, handle invalid moves appropriately
@@ -383,7 +404,7 @@ export class OnlineGamingEngine {
     }
 
     // Game ended
-    await this.finalizeGame(gameId, chessGame);
+    await this.finalizeGame(gameId, chessGame, flagged);
   }
 
   private async simulateOpponentMove(gameId: string, chessGame: any): Promise<void> {
@@ -433,7 +454,7 @@ export class OnlineGamingEngine {
     }
   }
 
-  private async finalizeGame(gameId: string, chessGame: any): Promise<void> {
+  private async finalizeGame(gameId: string, chessGame: any, flagged?: 'w' | 'b'): Promise<void> {
     const game = this.activeGames.get(gameId);
     if (!game) return;
 
@@ -442,7 +463,15 @@ export class OnlineGamingEngine {
 
     // Determine result
     let result: GameResult;
-    if (chessGame.isCheckmate()) {
+    if (flagged) {
+      const winner = flagged === 'w' ? game.players[1] : game.players[0];
+      result = {
+        winner: winner.username,
+        result: flagged === 'w' ? '0-1' : '1-0',
+        termination: 'time',
+        finalPosition: chessGame.fen()
+      };
+    } else if (chessGame.isCheckmate()) {
       const winner = chessGame.turn() === 'w' ? game.players[1] : game.players[0];
       result = {
         winner: winner.username,
@@ -467,6 +496,7 @@ export class OnlineGamingEngine {
     }
 
     game.result = result;
+    game.opening = classifyOpening(chessGame.history()) || undefined;
 
     // Update AI agent with game result
     const aiPlayer = game.players.find(p => p.isAI);
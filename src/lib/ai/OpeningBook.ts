@@ -0,0 +1,242 @@
+/**
+ * Opening Book
+ * Every known candidate move per position with its game record, and policies
+ * for choosing among them
+ */
+
+export type BookSelectionPolicy =
+  | 'bestScore' // highest smoothed score
+  | 'weightedRandom' // random, in proportion to games played
+  | 'exploreExploit'; // UCB1: score plus a bonus for rarely played moves
+
+export interface BookMove {
+  move: string;
+  games: number;
+  wins: number; // results from the point of view of the side playing the move
+  draws: number;
+  losses: number;
+  averageRating: number; // of the games the move was played in (0 when unknown)
+}
+
+export interface BookResult {
+  wins?: number;
+  draws?: number;
+  losses?: number;
+}
+
+export interface OpeningBookConfig {
+  policy: BookSelectionPolicy;
+  explorationConstant: number; // UCB1 exploration weight
+  minGames: number; // moves with fewer games are not played from the book
+}
+
+export interface SerializedOpeningBook {
+  version: number;
+  config: OpeningBookConfig;
+  positions: [string, BookMove[]][];
+}
+
+// Exports before multi-move books stored one move per position
+export type LegacyBookEntry = { move: string; frequency: number; winRate: number };
+
+export const DEFAULT_OPENING_BOOK_CONFIG: OpeningBookConfig = {
+  policy: 'weightedRandom',
+  explorationConstant: 0.5,
+  minGames: 1,
+};
+
+const SERIALIZATION_VERSION = 2;
+
+/**
+ * Score in [0, 1] with one virtual win and one virtual loss, so a single lucky
+ * game does not outrank a well-tested move
+ */
+export function bookScore(entry: BookMove): number {
+  return (entry.wins + 0.5 * entry.draws + 1) / (entry.games + 2);
+}
+
+/**
+ * Game record equivalent to a legacy entry: `frequency` games scoring `winRate`
+ */
+export function resultFromLegacy(entry: LegacyBookEntry): BookResult {
+  const games = Math.max(0, Math.round(entry.frequency));
+  const wins = Math.round(Math.max(0, Math.min(1, entry.winRate)) * games);
+  return { wins, losses: games - wins };
+}
+
+export class OpeningBook {
+  private config: OpeningBookConfig;
+  private positions: Map<string, Map<string, BookMove>> = new Map();
+
+  constructor(config: Partial<OpeningBookConfig> = {}) {
+    this.config = { ...DEFAULT_OPENING_BOOK_CONFIG, ...config };
+  }
+
+  public get size(): number {
+    return this.positions.size;
+  }
+
+  public getConfig(): OpeningBookConfig {
+    return { ...this.config };
+  }
+
+  public configure(config: Partial<OpeningBookConfig>): void {
+    this.config = { ...this.config, ...config };
+  }
+
+  public has(fen: string): boolean {
+    return this.positions.has(fen);
+  }
+
+  /**
+   * Candidate moves of a position, most played first
+   */
+  public getMoves(fen: string): BookMove[] {
+    const moves = this.positions.get(fen);
+    if (!moves) return [];
+    return Array.from(moves.values())
+      .map(entry => ({ ...entry }))
+      .sort((a, b) => b.games - a.games);
+  }
+
+  public getMove(fen: string, move: string): BookMove | null {
+    const entry = this.positions.get(fen)?.get(move);
+    return entry ? { ...entry } : null;
+  }
+
+  public positionsKnown(): string[] {
+    return Array.from(this.positions.keys());
+  }
+
+  /**
+   * Add game results for a move (creating it if needed)
+   */
+  public add(fen: string, move: string, result: BookResult, rating?: number): void {
+    const wins = result.wins || 0;
+    const draws = result.draws || 0;
+    const losses = result.losses || 0;
+    const games = wins + draws + losses;
+    if (games <= 0) return;
+
+    const entry = this.getOrCreate(fen, move);
+
+    if (rating !== undefined && rating > 0) {
+      const rated = entry.averageRating > 0 ? entry.games : 0;
+      entry.averageRating = (entry.averageRating * rated + rating * games) / (rated + games);
+    }
+    entry.wins += wins;
+    entry.draws += draws;
+    entry.losses += losses;
+    entry.games += games;
+  }
+
+  public addGame(fen: string, move: string, outcome: 'win' | 'loss' | 'draw', rating?: number): void {
+    this.add(fen, move, outcome === 'win' ? { wins: 1 } : outcome === 'loss' ? { losses: 1 } : { draws: 1 }, rating);
+  }
+
+  /**
+   * Replace the record of a move
+   */
+  public set(fen: string, move: string, result: BookResult, rating: number = 0): void {
+    this.remove(fen, move);
+    this.add(fen, move, result, rating);
+  }
+
+  public remove(fen: string, move: string): void {
+    const moves = this.positions.get(fen);
+    if (!moves) return;
+    moves.delete(move);
+    if (moves.size === 0) this.positions.delete(fen);
+  }
+
+  public clear(): void {
+    this.positions.clear();
+  }
+
+  /**
+   * Choose a book move among the legal ones with the configured policy
+   */
+  public select(fen: string, legalMoves: string[], policy: BookSelectionPolicy = this.config.policy): BookMove | null {
+    const candidates = this.getMoves(fen).filter(entry =>
+      legalMoves.includes(entry.move) && entry.games >= this.config.minGames
+    );
+    if (candidates.length === 0) return null;
+
+    switch (policy) {
+      case 'bestScore':
+        return candidates.reduce((best, entry) => {
+          const score = bookScore(entry);
+          const bestScore = bookScore(best);
+          return score > bestScore || (score === bestScore && entry.games > best.games) ? entry : best;
+        });
+
+      case 'exploreExploit': {
+        const total = candidates.reduce((sum, entry) => sum + entry.games, 0);
+        return candidates.reduce((best, entry) =>
+          this.upperConfidence(entry, total) > this.upperConfidence(best, total) ? entry : best
+        );
+      }
+
+      case 'weightedRandom':
+      default: {
+        const total = candidates.reduce((sum, entry) => sum + entry.games, 0);
+        let r = Math.random() * total;
+        for (const entry of candidates) {
+          r -= entry.games;
+          if (r <= 0) return entry;
+        }
+        return candidates[candidates.length - 1];
+      }
+    }
+  }
+
+  public serialize(): SerializedOpeningBook {
+    return {
+      version: SERIALIZATION_VERSION,
+      config: { ...this.config },
+      positions: Array.from(this.positions.entries()).map(([fen, moves]) => [
+        fen,
+        Array.from(moves.values()).map(entry => ({ ...entry })),
+      ]),
+    };
+  }
+
+  /**
+   * Restore a serialized book; exports holding one `{ move, frequency, winRate }`
+   * entry per position are migrated to a single-candidate book
+   */
+  public static deserialize(data: SerializedOpeningBook | [string, LegacyBookEntry][]): OpeningBook {
+    if (Array.isArray(data)) {
+      const book = new OpeningBook();
+      for (const [fen, entry] of data) {
+        if (entry && typeof entry.move === 'string') book.add(fen, entry.move, resultFromLegacy(entry));
+      }
+      return book;
+    }
+
+    const book = new OpeningBook(data.config || {});
+    for (const [fen, moves] of data.positions || []) {
+      if (moves.length > 0) book.positions.set(fen, new Map(moves.map(entry => [entry.move, { ...entry }])));
+    }
+    return book;
+  }
+
+  private getOrCreate(fen: string, move: string): BookMove {
+    let moves = this.positions.get(fen);
+    if (!moves) {
+      moves = new Map();
+      this.positions.set(fen, moves);
+    }
+
+    let entry = moves.get(move);
+    if (!entry) {
+      entry = { move, games: 0, wins: 0, draws: 0, losses: 0, averageRating: 0 };
+      moves.set(move, entry);
+    }
+    return entry;
+  }
+
+  private upperConfidence(entry: BookMove, totalGames: number): number {
+    return bookScore(entry) + this.config.explorationConstant * Math.sqrt(Math.log(totalGames + 1) / (entry.games + 1));
+  }
+}
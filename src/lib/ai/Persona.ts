@@ -0,0 +1,149 @@
+import { Chess } from 'chess.js';
+import { EvaluationBreakdown, EvaluationWeights, EVALUATION_TERMS } from './PositionEvaluator';
+
+/**
+ * Playing-style personas
+ * Evaluation-term multipliers, an opening repertoire, a contempt factor and a risk
+ * appetite, applied on top of an agent's own (learned) evaluation and opening book
+ */
+
+export type PersonaName = 'balanced' | 'aggressive' | 'positional' | 'defensive' | 'gambit';
+
+export interface Persona {
+  name: string;
+  description: string;
+  evaluationWeights: Partial<EvaluationWeights>; // multipliers on the agent's term weights
+  repertoire: string[][]; // preferred opening lines, SAN from the start position
+  contempt: number; // centipawns a draw is worth less than equality to the agent
+  riskAppetite: number; // -1 = simplify and trade down, 1 = keep pieces on for complications
+}
+
+// Centipawns the risk appetite is worth with full middlegame material on the board
+const RISK_SCALE = 30;
+
+export const PERSONAS: { [name in PersonaName]: Persona } = {
+  balanced: {
+    name: 'balanced',
+    description: 'Plays the evaluation as learned',
+    evaluationWeights: {},
+    repertoire: [],
+    contempt: 0,
+    riskAppetite: 0,
+  },
+  aggressive: {
+    name: 'aggressive',
+    description: 'Goes for the king and active pieces, avoids draws',
+    evaluationWeights: { kingSafety: 1.6, mobility: 1.4, pieceSquare: 1.1, isolatedPawns: 0.7, doubledPawns: 0.7 },
+    repertoire: [
+      ['e4', 'e5', 'Nf3', 'Nc6', 'Bc4', 'Nf6', 'Ng5'],
+      ['e4', 'c5', 'Nf3', 'd6', 'd4', 'cxd4', 'Nxd4'],
+      ['d4', 'Nf6', 'c4', 'g6'],
+    ],
+    contempt: 30,
+    riskAppetite: 0.6,
+  },
+  positional: {
+    name: 'positional',
+    description: 'Pawn structure, bishops and open files over direct attacks',
+    evaluationWeights: { passedPawns: 1.3, isolatedPawns: 1.4, doubledPawns: 1.4, bishopPair: 1.3, rookFiles: 1.3, kingSafety: 0.9 },
+    repertoire: [
+      ['d4', 'd5', 'c4', 'e6', 'Nc3', 'Nf6'],
+      ['Nf3', 'd5', 'g3'],
+      ['e4', 'e6', 'd4', 'd5'],
+    ],
+    contempt: 10,
+    riskAppetite: -0.2,
+  },
+  defensive: {
+    name: 'defensive',
+    description: 'Keeps the king safe and trades down, content with a draw',
+    evaluationWeights: { kingSafety: 1.8, mobility: 0.8, isolatedPawns: 1.2, doubledPawns: 1.2 },
+    repertoire: [
+      ['e4', 'c6', 'd4', 'd5'],
+      ['d4', 'd5', 'c4', 'c6'],
+      ['c4', 'e5', 'Nc3', 'Nf6'],
+    ],
+    contempt: -20,
+    riskAppetite: -0.6,
+  },
+  gambit: {
+    name: 'gambit',
+    description: 'Gives material for development and the initiative',
+    evaluationWeights: { material: 0.9, mobility: 1.6, pieceSquare: 1.2, kingSafety: 1.3 },
+    repertoire: [
+      ['e4', 'e5', 'f4', 'exf4', 'Nf3'],
+      ['e4', 'c5', 'd4', 'cxd4', 'c3'],
+      ['e4', 'e5', 'Nf3', 'Nc6', 'Bc4', 'Bc5', 'b4'],
+      ['e4', 'e5', 'Nf3', 'Nc6', 'Bb5', 'f5'],
+      ['d4', 'd5', 'c4', 'e5'],
+      ['d4', 'Nf6', 'c4', 'e5'],
+    ],
+    contempt: 40,
+    riskAppetite: 0.8,
+  },
+};
+
+export const PERSONA_NAMES = Object.keys(PERSONAS) as PersonaName[];
+
+/**
+ * A copy of a built-in persona, or of a custom one
+ */
+export function resolvePersona(persona: PersonaName | Persona): Persona {
+  const source = typeof persona === 'string' ? PERSONAS[persona] : persona;
+  if (!source) throw new Error(`Unknown persona: ${persona}`);
+
+  return {
+    ...source,
+    evaluationWeights: { ...source.evaluationWeights },
+    repertoire: source.repertoire.map(line => [...line]),
+  };
+}
+
+/**
+ * Repertoire moves by position (FEN). A line stops at its first illegal move.
+ */
+export function buildRepertoire(lines: string[][]): Map<string, string[]> {
+  const repertoire = new Map<string, string[]>();
+
+  for (const line of lines) {
+    const chess = new Chess();
+    for (const move of line) {
+      const fen = chess.fen();
+      try {
+        const played = chess.move(move);
+        const moves = repertoire.get(fen) || [];
+        if (!moves.includes(played.san)) moves.push(played.san);
+        repertoire.set(fen, moves);
+      } catch {
+        break;
+      }
+    }
+  }
+
+  return repertoire;
+}
+
+/**
+ * Scale the weighted terms by the persona's multipliers and add its risk appetite
+ * from `side`'s point of view: a bonus for keeping pieces on the board that fades
+ * as material comes off (a penalty when the appetite is negative)
+ */
+export function applyPersona(breakdown: EvaluationBreakdown, persona: Persona, side: 'w' | 'b'): EvaluationBreakdown {
+  let total = 0;
+  for (const term of EVALUATION_TERMS) {
+    breakdown.terms[term] *= persona.evaluationWeights[term] ?? 1;
+    total += breakdown.terms[term];
+  }
+
+  breakdown.style = persona.riskAppetite * breakdown.phase * RISK_SCALE * (side === 'w' ? 1 : -1);
+  breakdown.total = total + breakdown.style;
+  return breakdown;
+}
+
+/**
+ * Score of a drawn position from White's point of view for an agent playing `side`
+ */
+export function drawScore(persona: Persona | null, side: 'w' | 'b'): number {
+  if (!persona) return 0;
+  return side === 'w' ? -persona.contempt : persona.contempt;
+}
@@ -0,0 +1,278 @@
+import { closeSync, createReadStream, fstatSync, mkdirSync, openSync, readSync, statSync, writeSync } from 'fs';
+import { join } from 'path';
+import { GameCollection, PGNGame, pgnGameFromRecord } from './ChessLearningEngine';
+import {
+  PgnGameFilter,
+  PgnGameRecord,
+  PgnStreamReader,
+  matchesPgnFilter,
+  pgnDateNumber,
+  estimatedGameSeconds,
+  timeControlCategory,
+} from './PgnParser';
+import { StoredPositionIndex } from './StoredPositionIndex';
+
+/**
+ * PGN game store
+ * Imported games on disk (Node only), for databases too large to keep in
+ * memory. A directory holds two append-only files:
+ *   games.jsonl     one game per line, as JSON (PGNGame without the annotation
+ *                   tree, which can be parsed again from its pgn)
+ *   games.idx       32 bytes per game: where its line is, and the ratings, date,
+ *                   expected length and result, so filtered reads only open the
+ *                   games that can match
+ * and the opening positions of the games, in a StoredPositionIndex:
+ *   positions/      bucket files read one at a time; games added after the
+ *                   index was last written are indexed again when the store
+ *                   is opened
+ */
+
+export interface PgnImportProgress {
+  bytesRead: number;
+  totalBytes: number | null; // null when the size of the input is not known
+  gamesRead: number;
+  gamesImported: number;
+  gamesSkipped: number; // rejected by the filter
+  gamesWithErrors: number; // imported, with the moves up to the first illegal one
+}
+
+export interface PgnImportOptions {
+  filter?: PgnGameFilter;
+  onProgress?: (progress: PgnImportProgress) => void; // after every chunk read
+  totalBytes?: number;
+}
+
+const GAMES_FILE = 'games.jsonl';
+const INDEX_FILE = 'games.idx';
+const INDEX_ENTRY_BYTES = 32;
+const UNKNOWN_SECONDS = 0xffffffff;
+const RESULT_CODES = ['*', '1-0', '0-1', '1/2-1/2'];
+const FLUSH_GAMES = 1000; // games buffered before they are written
+const READ_ENTRIES = 4096; // index entries read at once
+
+interface IndexEntry {
+  offset: number;
+  length: number;
+  whiteElo: number; // 0 when unknown
+  blackElo: number;
+  date: number; // YYYYMMDD, see pgnDateNumber
+  seconds: number; // expected game length, UNKNOWN_SECONDS when unknown
+  result: string;
+}
+
+function encodeEntry(entry: IndexEntry): Buffer {
+  const buffer = Buffer.alloc(INDEX_ENTRY_BYTES);
+  buffer.writeDoubleLE(entry.offset, 0);
+  buffer.writeUInt32LE(entry.length, 8);
+  buffer.writeUInt16LE(Math.min(entry.whiteElo, 0xffff), 12);
+  buffer.writeUInt16LE(Math.min(entry.blackElo, 0xffff), 14);
+  buffer.writeUInt32LE(entry.date, 16);
+  buffer.writeUInt32LE(entry.seconds, 20);
+  buffer.writeUInt8(Math.max(0, RESULT_CODES.indexOf(entry.result)), 24);
+  return buffer;
+}
+
+function decodeEntry(buffer: Buffer, at: number): IndexEntry {
+  return {
+    offset: buffer.readDoubleLE(at),
+    length: buffer.readUInt32LE(at + 8),
+    whiteElo: buffer.readUInt16LE(at + 12),
+    blackElo: buffer.readUInt16LE(at + 14),
+    date: buffer.readUInt32LE(at + 16),
+    seconds: buffer.readUInt32LE(at + 20),
+    result: RESULT_CODES[buffer.readUInt8(at + 24)] || '*',
+  };
+}
+
+/**
+ * The index side of matchesPgnFilter; players are checked on the game itself
+ */
+function entryMatches(entry: IndexEntry, filter: PgnGameFilter): boolean {
+  if (filter.minRating && entry.whiteElo && entry.blackElo && Math.min(entry.whiteElo, entry.blackElo) < filter.minRating) {
+    return false;
+  }
+  if (filter.timeControls) {
+    const category = timeControlCategory(entry.seconds === UNKNOWN_SECONDS ? null : entry.seconds);
+    if (!category || !filter.timeControls.includes(category)) return false;
+  }
+  if (filter.fromDate || filter.toDate) {
+    if (!entry.date) return false;
+    if (filter.fromDate && entry.date < pgnDateNumber(filter.fromDate, 0)) return false;
+    if (filter.toDate && entry.date > pgnDateNumber(filter.toDate, 99)) return false;
+  }
+  return !filter.results || filter.results.includes(entry.result);
+}
+
+export class PgnGameStore implements GameCollection {
+  private gamesFile: number;
+  private indexFile: number;
+  private gamesBytes: number;
+  private count: number;
+  private pendingGames: Buffer[] = [];
+  private pendingEntries: Buffer[] = [];
+  public readonly positions: StoredPositionIndex;
+
+  /**
+   * Open the store in a directory, creating it when it does not exist yet
+   */
+  constructor(public readonly directory: string) {
+    mkdirSync(directory, { recursive: true });
+    this.gamesFile = openSync(join(directory, GAMES_FILE), 'a+');
+    this.indexFile = openSync(join(directory, INDEX_FILE), 'a+');
+    this.gamesBytes = fstatSync(this.gamesFile).size;
+    this.count = Math.floor(fstatSync(this.indexFile).size / INDEX_ENTRY_BYTES);
+    this.positions = new StoredPositionIndex(directory);
+    this.indexPositions();
+  }
+
+  public get size(): number {
+    return this.count;
+  }
+
+  /**
+   * Append a game; returns its number in the store
+   */
+  public add(game: PGNGame): number {
+    const line = Buffer.from(JSON.stringify({ ...game, annotations: undefined }) + '\n');
+    const headers = game.headers || {};
+    const seconds = estimatedGameSeconds(headers.TimeControl);
+
+    this.pendingGames.push(line);
+    this.pendingEntries.push(encodeEntry({
+      offset: this.gamesBytes,
+      length: line.length,
+      whiteElo: game.elo?.white || 0,
+      blackElo: game.elo?.black || 0,
+      date: pgnDateNumber(headers.Date || game.date),
+      seconds: seconds === null ? UNKNOWN_SECONDS : seconds,
+      result: game.result,
+    }));
+    this.gamesBytes += line.length;
+    if (this.pendingGames.length >= FLUSH_GAMES) this.flush();
+    this.positions.addGame(this.count, game);
+
+    return this.count++;
+  }
+
+  /**
+   * Write the buffered games; the index last, so it never points past the games file
+   */
+  public flush(): void {
+    if (this.pendingGames.length === 0) return;
+    writeSync(this.gamesFile, Buffer.concat(this.pendingGames));
+    writeSync(this.indexFile, Buffer.concat(this.pendingEntries));
+    this.pendingGames = [];
+    this.pendingEntries = [];
+  }
+
+  public get(id: number): PGNGame | null {
+    if (id < 0 || id >= this.count) return null;
+    this.flush();
+    const buffer = Buffer.alloc(INDEX_ENTRY_BYTES);
+    readSync(this.indexFile, buffer, 0, INDEX_ENTRY_BYTES, id * INDEX_ENTRY_BYTES);
+    return this.readGame(decodeEntry(buffer, 0));
+  }
+
+  /**
+   * The games in import order, read lazily; the index is checked first, so
+   * games that cannot match the filter are not read at all
+   */
+  public async *games(filter: PgnGameFilter = {}): AsyncGenerator<PGNGame> {
+    this.flush();
+    const count = this.count;
+    const buffer = Buffer.alloc(READ_ENTRIES * INDEX_ENTRY_BYTES);
+
+    for (let first = 0; first < count; first += READ_ENTRIES) {
+      const entries = Math.min(READ_ENTRIES, count - first);
+      readSync(this.indexFile, buffer, 0, entries * INDEX_ENTRY_BYTES, first * INDEX_ENTRY_BYTES);
+      for (let i = 0; i < entries; i++) {
+        const entry = decodeEntry(buffer, i * INDEX_ENTRY_BYTES);
+        if (!entryMatches(entry, filter)) continue;
+        const game = this.readGame(entry);
+        if (filter.player && !matchesPgnFilter(game.headers || { White: game.white, Black: game.black }, { player: filter.player })) continue;
+        yield game;
+      }
+    }
+  }
+
+  public close(): void {
+    this.flush();
+    this.positions.flush();
+    this.indexPositions(); // games another store on the directory left out
+    this.positions.flush();
+    closeSync(this.gamesFile);
+    closeSync(this.indexFile);
+  }
+
+  /**
+   * Index the games the position index does not hold yet
+   */
+  private indexPositions(): void {
+    for (let id = this.positions.games; id < this.count; id++) {
+      const game = this.get(id);
+      if (game) this.positions.addGame(id, game);
+    }
+  }
+
+  private readGame(entry: IndexEntry): PGNGame {
+    const buffer = Buffer.alloc(entry.length);
+    readSync(this.gamesFile, buffer, 0, entry.length, entry.offset);
+    return JSON.parse(buffer.toString('utf8'));
+  }
+}
+
+/**
+ * Import PGN text from a stream of chunks (strings, or UTF-8 bytes split
+ * anywhere) into a store, parsing only the games that pass the filter
+ */
+export async function importPgnStream(
+  input: AsyncIterable<string | Uint8Array>,
+  store: PgnGameStore,
+  options: PgnImportOptions = {}
+): Promise<PgnImportProgress> {
+  const filter = options.filter || {};
+  const reader = new PgnStreamReader(headers => matchesPgnFilter(headers, filter));
+  const decoder = new TextDecoder();
+  const progress: PgnImportProgress = {
+    bytesRead: 0,
+    totalBytes: options.totalBytes ?? null,
+    gamesRead: 0,
+    gamesImported: 0,
+    gamesSkipped: 0,
+    gamesWithErrors: 0,
+  };
+
+  const add = (records: PgnGameRecord[]) => {
+    for (const record of records) {
+      store.add(pgnGameFromRecord(record));
+      progress.gamesImported++;
+      if (record.errors.length > 0) progress.gamesWithErrors++;
+    }
+    progress.gamesSkipped = reader.gamesSkipped;
+    progress.gamesRead = progress.gamesImported + progress.gamesSkipped;
+  };
+
+  for await (const chunk of input) {
+    if (typeof chunk === 'string') {
+      progress.bytesRead += Buffer.byteLength(chunk);
+      add(reader.push(chunk));
+    } else {
+      progress.bytesRead += chunk.byteLength;
+      add(reader.push(decoder.decode(chunk, { stream: true })));
+    }
+    options.onProgress?.({ ...progress });
+  }
+  add(reader.push(decoder.decode()));
+  add(reader.end());
+  store.flush();
+  options.onProgress?.({ ...progress });
+
+  return progress;
+}
+
+/**
+ * Import a PGN file into a store, reading it a chunk at a time
+ */
+export async function importPgnFile(path: string, store: PgnGameStore, options: PgnImportOptions = {}): Promise<PgnImportProgress> {
+  return importPgnStream(createReadStream(path), store, { totalBytes: statSync(path).size, ...options });
+}
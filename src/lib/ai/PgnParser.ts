@@ -0,0 +1,388 @@
+import { Chess } from 'chess.js';
+
+/**
+ * PGN Parser
+ * Reads the PGN export format: tag pairs, then move text with brace and
+ * semicolon comments, recursive variations, NAGs and suffix annotations. Every
+ * move is checked with chess.js; whatever cannot be read is reported with the
+ * game instead of being dropped silently.
+ */
+
+export interface PgnMove {
+  san: string; // as chess.js writes it, check and mate markers included
+  nags: number[]; // $n, with the suffixes ! ? !! ?? !? ?! as 1-6
+  comments: string[]; // comments following the move
+  variations: PgnLine[]; // alternatives to this move
+}
+
+export interface PgnLine {
+  comments: string[]; // comments before the first move
+  moves: PgnMove[];
+}
+
+export interface PgnGameRecord {
+  headers: { [tag: string]: string };
+  moves: string[]; // main line
+  annotations: PgnLine; // main line with its comments and variations
+  result: string; // game termination marker ('*' when it is missing)
+  errors: string[]; // "line N: ..." for everything that could not be read
+  text: string; // the game's source text
+}
+
+type PgnTokenType = 'tag' | 'comment' | 'open' | 'close' | 'nag' | 'number' | 'symbol' | 'result' | 'error';
+
+interface PgnToken {
+  type: PgnTokenType;
+  value: string; // tag name, comment text, NAG number, move, result or error message
+  argument?: string; // tag value
+  line: number;
+  start: number; // offsets in the source text
+  end: number;
+}
+
+interface LineFrame {
+  chess: Chess;
+  line: PgnLine;
+  positions: string[]; // FEN before each move of the line, for its variations
+  skipping: boolean; // after an illegal move, the rest of the line cannot be read
+}
+
+const SUFFIX_NAGS: { [suffix: string]: number } = { '!': 1, '?': 2, '!!': 3, '??': 4, '!?': 5, '?!': 6 };
+const RESULTS = ['1-0', '0-1', '1/2-1/2', '*'];
+const TAG = /\[\s*([A-Za-z0-9_]+)\s*"((?:[^"\\]|\\.)*)"\s*\]/y;
+const SYMBOL = /[A-Za-z0-9_+#=:\-/]+/y;
+
+/**
+ * Split PGN text into tokens, keeping line numbers for error messages
+ */
+function tokenizePgn(text: string, firstLine: number = 1): PgnToken[] {
+  const tokens: PgnToken[] = [];
+  let line = firstLine;
+  let i = 0;
+
+  const push = (type: PgnTokenType, value: string, start: number, end: number, argument?: string) => {
+    tokens.push({ type, value, argument, line, start, end });
+  };
+  const skipLine = () => {
+    const end = text.indexOf('\n', i);
+    i = end < 0 ? text.length : end;
+  };
+
+  while (i < text.length) {
+    const c = text[i];
+    const start = i;
+
+    if (c === '\n') {
+      line++;
+      i++;
+    } else if (/\s/.test(c) || c === '.') {
+      i++; // move number periods separate tokens
+    } else if (c === '%' && (i === 0 || text[i - 1] === '\n')) {
+      skipLine(); // escape line
+    } else if (c === ';') {
+      skipLine();
+      push('comment', text.slice(start + 1, i).trim(), start, i);
+    } else if (c === '{') {
+      const close = text.indexOf('}', i);
+      const end = close < 0 ? text.length : close + 1;
+      push('comment', text.slice(start + 1, close < 0 ? end : close).replace(/\s+/g, ' ').trim(), start, end);
+      if (close < 0) push('error', 'comment is not closed', start, end);
+      line += (text.slice(start, end).match(/\n/g) || []).length;
+      i = end;
+    } else if (c === '[') {
+      TAG.lastIndex = i;
+      const match = TAG.exec(text);
+      if (match) {
+        i = TAG.lastIndex;
+        push('tag', match[1], start, i, match[2].replace(/\\(["\\])/g, '$1'));
+      } else {
+        skipLine();
+        push('error', `unreadable tag pair ${text.slice(start, i).trim()}`, start, i);
+      }
+    } else if (c === '(' || c === ')') {
+      i++;
+      push(c === '(' ? 'open' : 'close', c, start, i);
+    } else if (c === '$') {
+      const digits = /\d*/y;
+      digits.lastIndex = i + 1;
+      i = i + 1 + (digits.exec(text)?.[0].length ?? 0);
+      push('nag', text.slice(start + 1, i), start, i);
+    } else if (c === '!' || c === '?') {
+      while (i < text.length && (text[i] === '!' || text[i] === '?')) i++;
+      const suffix = text.slice(start, i);
+      if (SUFFIX_NAGS[suffix]) push('nag', String(SUFFIX_NAGS[suffix]), start, i);
+      else push('error', `unknown annotation ${suffix}`, start, i);
+    } else if (c === '*') {
+      i++;
+      push('result', c, start, i);
+    } else {
+      SYMBOL.lastIndex = i;
+      const match = SYMBOL.exec(text);
+      if (!match) {
+        i++;
+        push('error', `unexpected character ${c}`, start, i);
+        continue;
+      }
+      i = SYMBOL.lastIndex;
+      const symbol = match[0];
+      push(RESULTS.includes(symbol) ? 'result' : /^\d+$/.test(symbol) ? 'number' : 'symbol', symbol, start, i);
+    }
+  }
+
+  return tokens;
+}
+
+/**
+ * Group tokens into games: the tag pairs, then move text up to the result (or
+ * up to the next game's tags when the result is missing)
+ */
+function splitGames(tokens: PgnToken[]): PgnToken[][] {
+  const games: PgnToken[][] = [];
+  let current: PgnToken[] = [];
+  let inMoveText = false;
+
+  for (const token of tokens) {
+    if (token.type === 'tag' && inMoveText) {
+      games.push(current);
+      current = [];
+      inMoveText = false;
+    }
+    current.push(token);
+    if (token.type !== 'tag' && token.type !== 'comment') inMoveText = true;
+    if (token.type === 'result') {
+      games.push(current);
+      current = [];
+      inMoveText = false;
+    }
+  }
+  if (current.some(token => token.type !== 'comment')) games.push(current);
+
+  return games;
+}
+
+function moveLabel(chess: Chess): string {
+  const fen = chess.fen().split(' ');
+  return `${fen[5]}${fen[1] === 'w' ? '.' : '...'}`;
+}
+
+function gameHeaders(tokens: PgnToken[]): { [tag: string]: string } {
+  const headers: { [tag: string]: string } = {};
+  tokens.filter(token => token.type === 'tag').forEach(token => { headers[token.value] = token.argument || ''; });
+  return headers;
+}
+
+function parseGame(tokens: PgnToken[], text: string, headers: { [tag: string]: string } = gameHeaders(tokens)): PgnGameRecord {
+  const errors: string[] = [];
+  const annotations: PgnLine = { comments: [], moves: [] };
+  let result = '*';
+  let terminated = false;
+
+  let chess = new Chess();
+  if (headers.FEN) {
+    try {
+      chess = new Chess(headers.FEN);
+    } catch {
+      errors.push(`line ${tokens[0].line}: invalid FEN ${headers.FEN}`);
+    }
+  }
+
+  const stack: LineFrame[] = [{ chess, line: annotations, positions: [], skipping: false }];
+  for (const token of tokens) {
+    const frame = stack[stack.length - 1];
+    const lastMove = frame.line.moves[frame.line.moves.length - 1];
+
+    switch (token.type) {
+      case 'comment':
+        if (frame.skipping) break;
+        if (lastMove) lastMove.comments.push(token.value);
+        else frame.line.comments.push(token.value);
+        break;
+      case 'nag':
+        if (frame.skipping) break;
+        if (lastMove) lastMove.nags.push(Number(token.value));
+        else errors.push(`line ${token.line}: annotation $${token.value} before any move`);
+        break;
+      case 'open':
+        if (frame.skipping || !lastMove) {
+          if (!frame.skipping) errors.push(`line ${token.line}: variation before any move`);
+          stack.push({ ...frame, skipping: true });
+        } else {
+          const variation: PgnLine = { comments: [], moves: [] };
+          lastMove.variations.push(variation);
+          const before = new Chess(frame.positions[frame.positions.length - 1]);
+          stack.push({ chess: before, line: variation, positions: [], skipping: false });
+        }
+        break;
+      case 'close':
+        if (stack.length > 1) stack.pop();
+        else errors.push(`line ${token.line}: unmatched )`);
+        break;
+      case 'symbol': {
+        if (frame.skipping) break;
+        const san = token.value.replace(/^0-0-0/, 'O-O-O').replace(/^0-0/, 'O-O');
+        const before = frame.chess.fen();
+        try {
+          const move = frame.chess.move(san);
+          frame.positions.push(before);
+          frame.line.moves.push({ san: move.san, nags: [], comments: [], variations: [] });
+        } catch {
+          errors.push(`line ${token.line}: illegal move ${moveLabel(frame.chess)} ${token.value}${stack.length > 1 ? ' in a variation' : ''}`);
+          frame.skipping = true;
+        }
+        break;
+      }
+      case 'result':
+        result = token.value;
+        terminated = true;
+        break;
+      case 'error':
+        errors.push(`line ${token.line}: ${token.value}`);
+        break;
+    }
+  }
+
+  if (stack.length > 1) errors.push(`line ${tokens[tokens.length - 1].line}: variation is not closed`);
+  if (!terminated) errors.push(`line ${tokens[tokens.length - 1].line}: missing result`);
+
+  return {
+    headers,
+    moves: annotations.moves.map(move => move.san),
+    annotations,
+    result,
+    errors,
+    text: text.slice(tokens[0].start, tokens[tokens.length - 1].end),
+  };
+}
+
+/**
+ * Every game in a PGN text, in order
+ */
+export function parsePgn(text: string): PgnGameRecord[] {
+  return splitGames(tokenizePgn(text)).map(tokens => parseGame(tokens, text));
+}
+
+/**
+ * Incremental reading of a PGN stream: text goes in as chunks of any size and
+ * the games completed so far come out. The last game read may still go on in
+ * the next chunk, so it waits for that chunk or for end(). Games the header
+ * filter rejects are counted but their moves are never parsed.
+ */
+export class PgnStreamReader {
+  private buffer = '';
+  private line = 1; // line number of the buffer's first character
+  private skipped = 0;
+
+  constructor(private accept: (headers: { [tag: string]: string }) => boolean = () => true) {}
+
+  public get gamesSkipped(): number {
+    return this.skipped;
+  }
+
+  public push(chunk: string): PgnGameRecord[] {
+    this.buffer += chunk;
+    return this.read(false);
+  }
+
+  /**
+   * The games left in the buffer once the stream has ended
+   */
+  public end(): PgnGameRecord[] {
+    return this.read(true);
+  }
+
+  private read(final: boolean): PgnGameRecord[] {
+    const games = splitGames(tokenizePgn(this.buffer, this.line));
+    const complete = final ? games : games.slice(0, -1);
+    const records: PgnGameRecord[] = [];
+
+    for (const tokens of complete) {
+      const headers = gameHeaders(tokens);
+      if (this.accept(headers)) records.push(parseGame(tokens, this.buffer, headers));
+      else this.skipped++;
+    }
+
+    const consumed = final ? this.buffer.length : games.length > 0 ? games[games.length - 1][0].start : 0;
+    for (let i = this.buffer.indexOf('\n'); i >= 0 && i < consumed; i = this.buffer.indexOf('\n', i + 1)) this.line++;
+    this.buffer = this.buffer.slice(consumed);
+
+    return records;
+  }
+}
+
+export type TimeControlCategory = 'bullet' | 'blitz' | 'rapid' | 'classical';
+
+/**
+ * Conditions on a game's tag pairs; every condition given must hold
+ */
+export interface PgnGameFilter {
+  minRating?: number; // for both players, where WhiteElo and BlackElo are known
+  timeControls?: TimeControlCategory[];
+  fromDate?: string; // YYYY.MM.DD, YYYY.MM or YYYY, inclusive
+  toDate?: string;
+  results?: string[]; // '1-0', '0-1', '1/2-1/2', '*'
+  player?: string; // White or Black, not case sensitive
+}
+
+/**
+ * A PGN date as the number YYYYMMDD, with unknown parts (??, or left out)
+ * as `missing`; 0 when even the year is unknown
+ */
+export function pgnDateNumber(date: string | undefined, missing: number = 0): number {
+  const parts = (date || '').split('.');
+  const year = parseInt(parts[0]);
+  if (!/^\d{4}$/.test(parts[0] || '') || !year) return 0;
+  const part = (value: string | undefined) => (value && /^\d{1,2}$/.test(value) ? parseInt(value) : missing);
+  return year * 10000 + part(parts[1]) * 100 + part(parts[2]);
+}
+
+/**
+ * Expected length of a game in seconds per player from a TimeControl tag:
+ * base time plus 40 increments ("180+2"), the first period of a
+ * moves-per-period control ("40/7200:3600"), or a sandclock ("*60");
+ * null for "-", "?" or no tag
+ */
+export function estimatedGameSeconds(timeControl: string | undefined): number | null {
+  const first = (timeControl || '').split(':')[0];
+  let match = /^(\d+)(?:\+(\d+))?$/.exec(first);
+  if (match) return parseInt(match[1]) + 40 * parseInt(match[2] || '0');
+  match = /^(?:\d+\/|\*)(\d+)$/.exec(first);
+  return match ? parseInt(match[1]) : null;
+}
+
+/**
+ * Speed category by expected game length, with the bounds Lichess uses
+ */
+export function timeControlCategory(seconds: number | null): TimeControlCategory | null {
+  if (seconds === null) return null;
+  if (seconds < 180) return 'bullet';
+  if (seconds < 480) return 'blitz';
+  if (seconds < 1500) return 'rapid';
+  return 'classical';
+}
+
+export function matchesPgnFilter(headers: { [tag: string]: string }, filter: PgnGameFilter): boolean {
+  const whiteElo = parseInt(headers.WhiteElo);
+  const blackElo = parseInt(headers.BlackElo);
+  if (filter.minRating && whiteElo && blackElo && Math.min(whiteElo, blackElo) < filter.minRating) return false;
+
+  if (filter.timeControls) {
+    const category = timeControlCategory(estimatedGameSeconds(headers.TimeControl));
+    if (!category || !filter.timeControls.includes(category)) return false;
+  }
+
+  if (filter.fromDate || filter.toDate) {
+    const date = pgnDateNumber(headers.Date);
+    if (!date) return false;
+    if (filter.fromDate && date < pgnDateNumber(filter.fromDate, 0)) return false;
+    if (filter.toDate && date > pgnDateNumber(filter.toDate, 99)) return false;
+  }
+
+  if (filter.results && !filter.results.includes(headers.Result || '*')) return false;
+
+  if (filter.player) {
+    const player = filter.player.toLowerCase();
+    if ((headers.White || '').toLowerCase() !== player && (headers.Black || '').toLowerCase() !== player) return false;
+  }
+
+  return true;
+}
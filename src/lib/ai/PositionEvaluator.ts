@@ -0,0 +1,270 @@
+import { Chess } from 'chess.js';
+import { PIECE_VALUES, PHASE_WEIGHTS, MAX_PHASE, TaperedValue, pieceSquareValue } from './PieceSquareTables';
+import { AttackMaps, computeAttackMaps, kingZone } from './AttackMap';
+
+/**
+ * Position Evaluator
+ * Phase-tapered static evaluation built from individually weighted terms
+ */
+
+export type EvaluationTerm =
+  | 'material'
+  | 'pieceSquare'
+  | 'passedPawns'
+  | 'isolatedPawns'
+  | 'doubledPawns'
+  | 'kingSafety'
+  | 'bishopPair'
+  | 'rookFiles'
+  | 'mobility';
+
+export type EvaluationWeights = { [term in EvaluationTerm]: number };
+
+export interface EvaluationBreakdown {
+  phase: number; // 1 = full middlegame material, 0 = pawn endgame
+  raw: { [term in EvaluationTerm]: number }; // unweighted, centipawns from White's point of view
+  terms: { [term in EvaluationTerm]: number }; // raw value times its weight
+  network?: number; // learned term, added by the agent
+  style?: number; // persona risk appetite, added by the agent
+  total: number;
+}
+
+type BoardSquare = { type: string; color: string } | null;
+
+export const EVALUATION_TERMS: EvaluationTerm[] = [
+  'material', 'pieceSquare', 'passedPawns', 'isolatedPawns', 'doubledPawns',
+  'kingSafety', 'bishopPair', 'rookFiles', 'mobility',
+];
+
+export const DEFAULT_EVALUATION_WEIGHTS: EvaluationWeights = {
+  material: 1,
+  pieceSquare: 1,
+  passedPawns: 1,
+  isolatedPawns: 1,
+  doubledPawns: 1,
+  kingSafety: 1,
+  bishopPair: 1,
+  rookFiles: 1,
+  mobility: 1,
+};
+
+// Passed pawn bonus by rank counted from the pawn's own side (index 1 = second rank)
+const PASSED_PAWN_BONUS: TaperedValue[] = [
+  { mg: 0, eg: 0 }, { mg: 5, eg: 10 }, { mg: 10, eg: 15 }, { mg: 15, eg: 30 },
+  { mg: 25, eg: 50 }, { mg: 45, eg: 85 }, { mg: 70, eg: 130 }, { mg: 0, eg: 0 },
+];
+const ISOLATED_PAWN_PENALTY: TaperedValue = { mg: -10, eg: -15 };
+const DOUBLED_PAWN_PENALTY: TaperedValue = { mg: -10, eg: -20 };
+const BISHOP_PAIR_BONUS: TaperedValue = { mg: 30, eg: 50 };
+const ROOK_OPEN_FILE_BONUS: TaperedValue = { mg: 25, eg: 15 };
+const ROOK_SEMI_OPEN_FILE_BONUS: TaperedValue = { mg: 12, eg: 8 };
+const PAWN_SHIELD_BONUS = 12; // per shielding pawn, middlegame only
+const KING_OPEN_FILE_PENALTY = -20; // per open or semi-open file next to the king
+const KING_ZONE_ATTACK_PENALTY = -8; // per enemy attack on the squares around the king
+const MAX_KING_ZONE_ATTACKS = 12;
+
+// Weights are learned towards outcomes through tanh(eval / scale)
+const WEIGHT_LEARNING_SCALE = 400;
+const MAX_TERM_WEIGHT = 3;
+
+interface PawnFiles {
+  w: number[][]; // ranks (0-7, rank 1 = 0) of white pawns per file
+  b: number[][];
+}
+
+export class PositionEvaluator {
+  private weights: EvaluationWeights;
+
+  constructor(weights: Partial<EvaluationWeights> = {}) {
+    this.weights = { ...DEFAULT_EVALUATION_WEIGHTS, ...weights };
+  }
+
+  public getWeights(): EvaluationWeights {
+    return { ...this.weights };
+  }
+
+  public setWeights(weights: Partial<EvaluationWeights>): void {
+    this.weights = { ...this.weights, ...weights };
+  }
+
+  /**
+   * Game phase from remaining non-pawn material: 1 at the start, 0 with only kings and pawns
+   */
+  public getPhase(board: BoardSquare[][]): number {
+    let phase = 0;
+    for (const row of board) {
+      for (const square of row) {
+        if (square) phase += PHASE_WEIGHTS[square.type];
+      }
+    }
+    return Math.min(phase, MAX_PHASE) / MAX_PHASE;
+  }
+
+  public evaluate(chess: Chess): EvaluationBreakdown {
+    const board = chess.board();
+    const phase = this.getPhase(board);
+    const taper = (value: TaperedValue) => value.mg * phase + value.eg * (1 - phase);
+
+    const material: TaperedValue = { mg: 0, eg: 0 };
+    const pieceSquare: TaperedValue = { mg: 0, eg: 0 };
+    const bishops = { w: 0, b: 0 };
+    const rooks: { color: string; file: number }[] = [];
+    const kings: { [color: string]: { rank: number; file: number } } = {};
+    const pawns: PawnFiles = { w: [[], [], [], [], [], [], [], []], b: [[], [], [], [], [], [], [], []] };
+
+    for (let row = 0; row < 8; row++) {
+      for (let file = 0; file < 8; file++) {
+        const square = board[row][file];
+        if (!square) continue;
+
+        const sign = square.color === 'w' ? 1 : -1;
+        const value = PIECE_VALUES[square.type];
+        const psq = pieceSquareValue(square.type, square.color, row, file);
+        material.mg += sign * value.mg;
+        material.eg += sign * value.eg;
+        pieceSquare.mg += sign * psq.mg;
+        pieceSquare.eg += sign * psq.eg;
+
+        const rank = 7 - row;
+        if (square.type === 'p') pawns[square.color as 'w' | 'b'][file].push(rank);
+        else if (square.type === 'b') bishops[square.color as 'w' | 'b']++;
+        else if (square.type === 'r') rooks.push({ color: square.color, file });
+        else if (square.type === 'k') kings[square.color] = { rank, file };
+      }
+    }
+
+    const pawnStructure = this.evaluatePawnStructure(pawns);
+    const attackMaps = computeAttackMaps(board);
+
+    const raw: { [term in EvaluationTerm]: number } = {
+      material: taper(material),
+      pieceSquare: taper(pieceSquare),
+      passedPawns: taper(pawnStructure.passed),
+      isolatedPawns: taper(pawnStructure.isolated),
+      doubledPawns: taper(pawnStructure.doubled),
+      // Shelter only matters while there is material to attack the king with
+      kingSafety: phase * (
+        this.kingSafety(kings['w'], 'w', pawns, attackMaps) - this.kingSafety(kings['b'], 'b', pawns, attackMaps)
+      ),
+      bishopPair: taper(BISHOP_PAIR_BONUS) * ((bishops.w >= 2 ? 1 : 0) - (bishops.b >= 2 ? 1 : 0)),
+      rookFiles: rooks.reduce((sum, rook) => sum + this.rookFileBonus(rook, pawns, taper), 0),
+      mobility: attackMaps.mobility.w - attackMaps.mobility.b,
+    };
+
+    const terms = {} as { [term in EvaluationTerm]: number };
+    let total = 0;
+    for (const term of EVALUATION_TERMS) {
+      terms[term] = raw[term] * this.weights[term];
+      total += terms[term];
+    }
+
+    return { phase, raw, terms, total };
+  }
+
+  /**
+   * One gradient step on the term weights towards a known outcome
+   * (`target` in [-1, 1] from White's point of view). Material stays fixed
+   * as the unit the other terms are measured in.
+   */
+  public updateWeights(breakdown: EvaluationBreakdown, target: number, learningRate: number): void {
+    const prediction = Math.tanh(breakdown.total / WEIGHT_LEARNING_SCALE);
+    const gradient = (prediction - target) * (1 - prediction * prediction) / WEIGHT_LEARNING_SCALE;
+
+    for (const term of EVALUATION_TERMS) {
+      if (term === 'material') continue;
+      const updated = this.weights[term] - learningRate * gradient * breakdown.raw[term];
+      this.weights[term] = Math.max(0, Math.min(MAX_TERM_WEIGHT, updated));
+    }
+  }
+
+  private evaluatePawnStructure(pawns: PawnFiles): {
+    passed: TaperedValue;
+    isolated: TaperedValue;
+    doubled: TaperedValue;
+  } {
+    const passed: TaperedValue = { mg: 0, eg: 0 };
+    const isolated: TaperedValue = { mg: 0, eg: 0 };
+    const doubled: TaperedValue = { mg: 0, eg: 0 };
+
+    for (const color of ['w', 'b'] as const) {
+      const sign = color === 'w' ? 1 : -1;
+      const own = pawns[color];
+      const enemy = pawns[color === 'w' ? 'b' : 'w'];
+
+      for (let file = 0; file < 8; file++) {
+        const count = own[file].length;
+        if (count === 0) continue;
+
+        if (count > 1) {
+          doubled.mg += sign * DOUBLED_PAWN_PENALTY.mg * (count - 1);
+          doubled.eg += sign * DOUBLED_PAWN_PENALTY.eg * (count - 1);
+        }
+
+        const hasNeighbour = (file > 0 && own[file - 1].length > 0) || (file < 7 && own[file + 1].length > 0);
+        if (!hasNeighbour) {
+          isolated.mg += sign * ISOLATED_PAWN_PENALTY.mg * count;
+          isolated.eg += sign * ISOLATED_PAWN_PENALTY.eg * count;
+        }
+
+        for (const rank of own[file]) {
+          // Passed: no enemy pawn ahead on this or an adjacent file
+          const blocked = [file - 1, file, file + 1].some(f =>
+            f >= 0 && f < 8 && enemy[f].some(r => (color === 'w' ? r > rank : r < rank))
+          );
+          if (blocked) continue;
+
+          const relativeRank = color === 'w' ? rank : 7 - rank;
+          passed.mg += sign * PASSED_PAWN_BONUS[relativeRank].mg;
+          passed.eg += sign * PASSED_PAWN_BONUS[relativeRank].eg;
+        }
+      }
+    }
+
+    return { passed, isolated, doubled };
+  }
+
+  /**
+   * Pawn shelter in front of the king, open files next to it and enemy attacks
+   * around it, from `color`'s point of view
+   */
+  private kingSafety(
+    king: { rank: number; file: number } | undefined,
+    color: 'w' | 'b',
+    pawns: PawnFiles,
+    attackMaps: AttackMaps
+  ): number {
+    if (!king) return 0;
+
+    const direction = color === 'w' ? 1 : -1;
+    let score = 0;
+
+    for (let file = Math.max(0, king.file - 1); file <= Math.min(7, king.file + 1); file++) {
+      const shield = pawns[color][file].some(rank =>
+        rank === king.rank + direction || rank === king.rank + 2 * direction
+      );
+      if (shield) score += PAWN_SHIELD_BONUS;
+      if (pawns[color][file].length === 0) score += KING_OPEN_FILE_PENALTY;
+    }
+
+    const enemyAttacks = attackMaps.attacks[color === 'w' ? 'b' : 'w'];
+    const zoneAttacks = kingZone(king.rank * 8 + king.file)
+      .reduce((sum, square) => sum + enemyAttacks[square], 0);
+    score += KING_ZONE_ATTACK_PENALTY * Math.min(zoneAttacks, MAX_KING_ZONE_ATTACKS);
+
+    return score;
+  }
+
+  private rookFileBonus(
+    rook: { color: string; file: number },
+    pawns: PawnFiles,
+    taper: (value: TaperedValue) => number
+  ): number {
+    const sign = rook.color === 'w' ? 1 : -1;
+    const own = pawns[rook.color as 'w' | 'b'][rook.file].length;
+    const enemy = pawns[rook.color === 'w' ? 'b' : 'w'][rook.file].length;
+
+    if (own === 0 && enemy === 0) return sign * taper(ROOK_OPEN_FILE_BONUS);
+    if (own === 0) return sign * taper(ROOK_SEMI_OPEN_FILE_BONUS);
+    return 0;
+  }
+}
@@ -0,0 +1,240 @@
+import { Chess } from 'chess.js';
+import { PGNGame } from './ChessLearningEngine';
+import { polyglotKey, keyString } from './PolyglotBook';
+
+/**
+ * Position Index
+ * The positions of the opening phase of a game collection, keyed by their
+ * Polyglot hash (so transpositions meet), with every move played from them:
+ * results, average rating and the best rated example games. It is filled as
+ * games are added, so explorer queries and opening training never replay games.
+ */
+
+export interface ExplorerGame {
+  id: number; // number of the game in its collection
+  white: string;
+  black: string;
+  rating: number; // average of the players' ratings (0 when unknown)
+  result: string;
+  date: string;
+}
+
+export interface ExplorerMove {
+  move: string; // SAN
+  games: number;
+  whiteWins: number;
+  draws: number;
+  blackWins: number;
+  averageRating: number; // of the games the move was played in (0 when unknown)
+  topGames: ExplorerGame[]; // best rated first
+}
+
+export interface ExplorerPosition {
+  fen: string; // as the position was first reached
+  games: number;
+  whiteWins: number;
+  draws: number;
+  blackWins: number;
+  moves: ExplorerMove[]; // most played first
+}
+
+export interface SerializedPositionIndex {
+  version: number;
+  maxPlies: number;
+  games: number;
+  positions: [string, string, ExplorerMove[]][]; // key, FEN, moves
+}
+
+/**
+ * Where explorer queries and opening training read indexed positions from: a
+ * PositionIndex in memory, or one kept on disk with a game store
+ */
+export interface PositionSource {
+  readonly games: number;
+  query(fen: string): ExplorerPosition | null;
+  entries(minGames?: number): Iterable<ExplorerPosition>;
+}
+
+interface IndexedPosition {
+  fen: string;
+  moves: Map<string, ExplorerMove>;
+}
+
+export const DEFAULT_INDEX_PLIES = 30; // the first 15 moves of each game
+const TOP_GAMES = 5;
+const SERIALIZATION_VERSION = 1;
+
+export function positionKey(fen: string): string {
+  return keyString(polyglotKey(fen));
+}
+
+/**
+ * Score in [0, 1] of a move for the side that played it
+ */
+export function explorerScore(entry: ExplorerMove, turn: 'w' | 'b'): number {
+  if (entry.games === 0) return 0;
+  return ((turn === 'w' ? entry.whiteWins : entry.blackWins) + 0.5 * entry.draws) / entry.games;
+}
+
+function copyMove(entry: ExplorerMove): ExplorerMove {
+  return { ...entry, topGames: entry.topGames.map(game => ({ ...game })) };
+}
+
+/**
+ * A position's moves with the totals over them, most played first
+ */
+export function explorerPosition(fen: string, moves: ExplorerMove[]): ExplorerPosition {
+  const sorted = moves.map(copyMove).sort((a, b) => b.games - a.games);
+  return {
+    fen,
+    games: sorted.reduce((sum, entry) => sum + entry.games, 0),
+    whiteWins: sorted.reduce((sum, entry) => sum + entry.whiteWins, 0),
+    draws: sorted.reduce((sum, entry) => sum + entry.draws, 0),
+    blackWins: sorted.reduce((sum, entry) => sum + entry.blackWins, 0),
+    moves: sorted,
+  };
+}
+
+function addTopGame(entry: ExplorerMove, game: ExplorerGame): void {
+  entry.topGames.push(game);
+  entry.topGames.sort((a, b) => b.rating - a.rating);
+  if (entry.topGames.length > TOP_GAMES) entry.topGames.length = TOP_GAMES;
+}
+
+export class PositionIndex implements PositionSource {
+  private positions: Map<string, IndexedPosition> = new Map();
+  private indexedGames = 0;
+
+  constructor(public readonly maxPlies: number = DEFAULT_INDEX_PLIES) {}
+
+  public get size(): number {
+    return this.positions.size;
+  }
+
+  public get games(): number {
+    return this.indexedGames;
+  }
+
+  /**
+   * Index the first maxPlies moves of a game
+   */
+  public addGame(id: number, game: PGNGame): void {
+    this.indexedGames++;
+    let chess: Chess;
+    try {
+      chess = new Chess(game.headers?.FEN || undefined);
+    } catch {
+      return;
+    }
+
+    const rating = game.elo ? (game.elo.white + game.elo.black) / 2 : 0;
+    const example: ExplorerGame = { id, white: game.white, black: game.black, rating, result: game.result, date: game.date };
+
+    for (const san of game.moves.slice(0, this.maxPlies)) {
+      const fen = chess.fen();
+      let move;
+      try {
+        move = chess.move(san);
+      } catch {
+        break;
+      }
+
+      const entry = this.getOrCreate(fen, move.san);
+      if (rating > 0) {
+        const rated = entry.averageRating > 0 ? entry.games : 0;
+        entry.averageRating = (entry.averageRating * rated + rating) / (rated + 1);
+      }
+      entry.games++;
+      if (game.result === '1-0') entry.whiteWins++;
+      else if (game.result === '0-1') entry.blackWins++;
+      else if (game.result === '1/2-1/2') entry.draws++;
+      addTopGame(entry, example);
+    }
+  }
+
+  /**
+   * What was played in a position, by whom and with what score
+   */
+  public query(fen: string): ExplorerPosition | null {
+    const position = this.positions.get(positionKey(fen));
+    return position ? explorerPosition(position.fen, Array.from(position.moves.values())) : null;
+  }
+
+  /**
+   * Every indexed position with at least minGames games
+   */
+  public *entries(minGames: number = 1): Generator<ExplorerPosition> {
+    for (const position of this.positions.values()) {
+      let games = 0;
+      for (const entry of position.moves.values()) games += entry.games;
+      if (games >= minGames) yield explorerPosition(position.fen, Array.from(position.moves.values()));
+    }
+  }
+
+  /**
+   * One position as found in several indexes, with the moves' records added up
+   */
+  public static merge(positions: (ExplorerPosition | null)[]): ExplorerPosition | null {
+    const found = positions.filter((position): position is ExplorerPosition => position !== null);
+    if (found.length === 0) return null;
+
+    const moves = new Map<string, ExplorerMove>();
+    for (const position of found) {
+      for (const entry of position.moves) {
+        const merged = moves.get(entry.move);
+        if (!merged) {
+          moves.set(entry.move, copyMove(entry));
+          continue;
+        }
+        if (entry.averageRating > 0) {
+          const rated = merged.averageRating > 0 ? merged.games : 0;
+          merged.averageRating = (merged.averageRating * rated + entry.averageRating * entry.games) / (rated + entry.games);
+        }
+        merged.games += entry.games;
+        merged.whiteWins += entry.whiteWins;
+        merged.draws += entry.draws;
+        merged.blackWins += entry.blackWins;
+        entry.topGames.forEach(game => addTopGame(merged, { ...game }));
+      }
+    }
+    return explorerPosition(found[0].fen, Array.from(moves.values()));
+  }
+
+  public serialize(): SerializedPositionIndex {
+    return {
+      version: SERIALIZATION_VERSION,
+      maxPlies: this.maxPlies,
+      games: this.indexedGames,
+      positions: Array.from(this.positions.entries()).map(([key, position]) => [
+        key,
+        position.fen,
+        Array.from(position.moves.values()).map(copyMove),
+      ]),
+    };
+  }
+
+  public static deserialize(data: SerializedPositionIndex): PositionIndex {
+    const index = new PositionIndex(data.maxPlies || DEFAULT_INDEX_PLIES);
+    index.indexedGames = data.games || 0;
+    for (const [key, fen, moves] of data.positions || []) {
+      index.positions.set(key, { fen, moves: new Map(moves.map(entry => [entry.move, copyMove(entry)])) });
+    }
+    return index;
+  }
+
+  private getOrCreate(fen: string, move: string): ExplorerMove {
+    const key = positionKey(fen);
+    let position = this.positions.get(key);
+    if (!position) {
+      position = { fen, moves: new Map() };
+      this.positions.set(key, position);
+    }
+
+    let entry = position.moves.get(move);
+    if (!entry) {
+      entry = { move, games: 0, whiteWins: 0, draws: 0, blackWins: 0, averageRating: 0, topGames: [] };
+      position.moves.set(move, entry);
+    }
+    return entry;
+  }
+}
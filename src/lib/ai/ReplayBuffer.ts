@@ -0,0 +1,230 @@
+import { AgentMemory } from './ChessAIAgent';
+import { ZobristHasher } from './Zobrist';
+
+/**
+ * Experience Replay Buffer
+ * Position-deduplicated store of agent memories with uniform or prioritized sampling
+ */
+
+export type ReplaySampling = 'uniform' | 'prioritized';
+
+export interface ReplayBufferConfig {
+  capacity: number;
+  sampling: ReplaySampling;
+  priorityExponent: number; // α: 0 = uniform, 1 = fully proportional to TD error
+  importanceExponent: number; // β: strength of the importance-sampling correction
+  priorityEpsilon: number; // keeps zero-error entries sampleable
+}
+
+export interface ReplaySample {
+  key: string; // position hash
+  memory: AgentMemory;
+  weight: number; // importance-sampling weight, normalized to at most 1
+}
+
+export interface ReplayBufferStats {
+  size: number;
+  capacity: number;
+  added: number;
+  duplicates: number;
+  evicted: number;
+  sampled: number;
+  averagePriority: number;
+}
+
+export interface SerializedReplayBuffer {
+  config: ReplayBufferConfig;
+  // [position, move, reward, nextPosition, gameOutcome, evaluation, leafPosition, tdTarget, priority]
+  entries: [string, string, number, string, AgentMemory['gameOutcome'], number, string | null, number | null, number][];
+}
+
+interface ReplayEntry {
+  memory: AgentMemory;
+  priority: number;
+}
+
+export const DEFAULT_REPLAY_BUFFER_CONFIG: ReplayBufferConfig = {
+  capacity: 10000,
+  sampling: 'prioritized',
+  priorityExponent: 0.6,
+  importanceExponent: 0.4,
+  priorityEpsilon: 0.01,
+};
+
+export class ReplayBuffer {
+  private config: ReplayBufferConfig;
+  // Insertion-ordered, so the first key is always the oldest entry
+  private entries: Map<string, ReplayEntry> = new Map();
+  private hasher: ZobristHasher = new ZobristHasher();
+  private maxPriority: number = 1;
+  private stats = { added: 0, duplicates: 0, evicted: 0, sampled: 0 };
+
+  constructor(config: Partial<ReplayBufferConfig> = {}) {
+    this.config = { ...DEFAULT_REPLAY_BUFFER_CONFIG, ...config };
+  }
+
+  public getConfig(): ReplayBufferConfig {
+    return { ...this.config };
+  }
+
+  public configure(config: Partial<ReplayBufferConfig>): void {
+    this.config = { ...this.config, ...config };
+    this.evictOverflow();
+  }
+
+  public get size(): number {
+    return this.entries.size;
+  }
+
+  /**
+   * Add an experience; a memory for an already stored position replaces it.
+   * Without a priority the entry gets the highest priority seen so far, so it
+   * is sampled at least once before its error is known.
+   */
+  public add(memory: AgentMemory, priority?: number): void {
+    const key = this.keyFor(memory.position);
+    if (this.entries.has(key)) {
+      this.entries.delete(key);
+      this.stats.duplicates++;
+    }
+
+    const value = priority !== undefined ? Math.abs(priority) + this.config.priorityEpsilon : this.maxPriority;
+    this.maxPriority = Math.max(this.maxPriority, value);
+    this.entries.set(key, { memory, priority: value });
+    this.stats.added++;
+
+    this.evictOverflow();
+  }
+
+  /**
+   * Draw a mini-batch (with replacement)
+   */
+  public sample(batchSize: number): ReplaySample[] {
+    const keys = Array.from(this.entries.keys());
+    if (keys.length === 0 || batchSize <= 0) return [];
+
+    const count = Math.floor(batchSize);
+    this.stats.sampled += count;
+
+    if (this.config.sampling === 'uniform') {
+      return Array.from({ length: count }, () => {
+        const key = keys[Math.floor(Math.random() * keys.length)];
+        return { key, memory: this.entries.get(key)!.memory, weight: 1 };
+      });
+    }
+
+    // Proportional prioritization: P(i) = p_i^α / Σ p_k^α
+    const cumulative: number[] = [];
+    let total = 0;
+    for (const key of keys) {
+      total += Math.pow(this.entries.get(key)!.priority, this.config.priorityExponent);
+      cumulative.push(total);
+    }
+
+    const minProbability = Math.min(...keys.map(key =>
+      Math.pow(this.entries.get(key)!.priority, this.config.priorityExponent) / total
+    ));
+    const maxWeight = Math.pow(keys.length * minProbability, -this.config.importanceExponent);
+
+    return Array.from({ length: count }, () => {
+      const index = this.findIndex(cumulative, Math.random() * total);
+      const key = keys[index];
+      const probability = (cumulative[index] - (index > 0 ? cumulative[index - 1] : 0)) / total;
+      const weight = Math.pow(keys.length * probability, -this.config.importanceExponent) / maxWeight;
+      return { key, memory: this.entries.get(key)!.memory, weight };
+    });
+  }
+
+  /**
+   * Set new priorities from the latest TD errors of sampled entries
+   */
+  public updatePriorities(keys: string[], tdErrors: number[]): void {
+    keys.forEach((key, i) => {
+      const entry = this.entries.get(key);
+      if (!entry) return;
+      entry.priority = Math.abs(tdErrors[i]) + this.config.priorityEpsilon;
+      this.maxPriority = Math.max(this.maxPriority, entry.priority);
+    });
+  }
+
+  /**
+   * Stored memories, oldest first
+   */
+  public getMemories(): AgentMemory[] {
+    return Array.from(this.entries.values(), entry => entry.memory);
+  }
+
+  public clear(): void {
+    this.entries.clear();
+    this.maxPriority = 1;
+    this.stats = { added: 0, duplicates: 0, evicted: 0, sampled: 0 };
+  }
+
+  public getStats(): ReplayBufferStats {
+    let prioritySum = 0;
+    this.entries.forEach(entry => {
+      prioritySum += entry.priority;
+    });
+
+    return {
+      size: this.entries.size,
+      capacity: this.config.capacity,
+      ...this.stats,
+      averagePriority: this.entries.size > 0 ? prioritySum / this.entries.size : 0,
+    };
+  }
+
+  public serialize(): SerializedReplayBuffer {
+    return {
+      config: { ...this.config },
+      entries: Array.from(this.entries.values(), ({ memory, priority }) => [
+        memory.position,
+        memory.move,
+        memory.reward,
+        memory.nextPosition,
+        memory.gameOutcome,
+        memory.evaluation,
+        memory.leafPosition ?? null,
+        memory.tdTarget ?? null,
+        priority,
+      ]),
+    };
+  }
+
+  public static deserialize(data: SerializedReplayBuffer): ReplayBuffer {
+    const buffer = new ReplayBuffer(data.config);
+    for (const [position, move, reward, nextPosition, gameOutcome, evaluation, leafPosition, tdTarget, priority] of data.entries || []) {
+      const memory: AgentMemory = { position, move, reward, nextPosition, gameOutcome, evaluation };
+      if (leafPosition !== null) memory.leafPosition = leafPosition;
+      if (tdTarget !== null) memory.tdTarget = tdTarget;
+      buffer.entries.set(buffer.keyFor(position), { memory, priority });
+      buffer.maxPriority = Math.max(buffer.maxPriority, priority);
+    }
+    buffer.evictOverflow();
+    return buffer;
+  }
+
+  private keyFor(fen: string): string {
+    return ZobristHasher.toKey(this.hasher.hashFen(fen));
+  }
+
+  private evictOverflow(): void {
+    const capacity = Math.max(1, Math.floor(this.config.capacity));
+    while (this.entries.size > capacity) {
+      const oldest = this.entries.keys().next().value as string;
+      this.entries.delete(oldest);
+      this.stats.evicted++;
+    }
+  }
+
+  private findIndex(cumulative: number[], value: number): number {
+    let low = 0;
+    let high = cumulative.length - 1;
+    while (low < high) {
+      const mid = (low + high) >> 1;
+      if (cumulative[mid] < value) low = mid + 1;
+      else high = mid;
+    }
+    return low;
+  }
+}
@@ -1,14 +1,22 @@
-import { ChessAIAgent } from './ChessAIAgent';
+import { Chess } from 'chess.js';
+import { ChessAIAgent, SearchStatistics, SearchLine, MoveProvider } from './ChessAIAgent';
+import { SearchLimits } from './TimeManager';
 import { MultiGameAI, GameType, GameState } from './MultiGameAI';
-import { OnlineGamingEngine } from './OnlineGamingEngine';
+import { OnlineGamingEngine, OnlineGame } from './OnlineGamingEngine';
 import { TournamentSystem } from './TournamentSystem';
 import { TransformerGameNetwork, TrainingData } from './TransformerGameNetwork';
+import { SyzygyTablebase, SyzygyWdl } from './SyzygyTablebase';
+import { GameResult } from './TrainingEngine';
+import { classifyOpening } from './EcoClassifier';
 
 /**
  * Advanced Research Dashboard & Analytics
  * Comprehensive AI research tools, A/B testing, and benchmarking
  */
 
+// Mates count as this many centipawns lost, so one allowed mate does not swamp the average
+const MAX_REFERENCE_SCORE_LOSS = 1000;
+
 export interface ResearchProject {
   id: string;
   name: string;
@@ -222,6 +230,62 @@ export interface BenchmarkEntry {
   runtime: number;
 }
 
+export interface SearchBenchmarkResult {
+  benchmarkId: string;
+  agentId: string;
+  positions: number;
+  totals: SearchStatistics;
+  averageDepth: number;
+  averageTime: number;
+  firstMoveCutoffRate: number; // share of beta cutoffs produced by the first move (ordering quality)
+  quiescenceShare: number; // share of all nodes spent in quiescence search
+  perPosition: { testCaseId: string; move: string; depth: number; time: number; stats: SearchStatistics }[];
+}
+
+export interface AnalysisBenchmarkResult {
+  benchmarkId: string;
+  agentId: string;
+  lineCount: number;
+  positions: number;
+  bestMoveHits: number; // expected move was the top line
+  topLinesHits: number; // expected move was among the top lines
+  hitRate: number; // share of positions with the expected move among the top lines
+  perPosition: { testCaseId: string; expectedMoves: string[]; lines: SearchLine[]; rank: number | null }[];
+}
+
+export interface ReferenceBenchmarkResult {
+  benchmarkId: string;
+  agentId: string;
+  referenceId: string;
+  positions: number;
+  agreement: number; // share of positions where the agent played the reference's move
+  averageScoreLoss: number; // centipawns the agent's moves give up by the reference's judgement
+  perPosition: { testCaseId: string; move: string; referenceMove: string; scoreLoss: number }[];
+}
+
+export interface TablebaseBenchmarkResult {
+  benchmarkId: string;
+  agentId: string;
+  positions: number; // positions the tablebase covers
+  uncovered: number; // chess positions without tables, not scored
+  keptResults: number; // moves that kept the tablebase result
+  accuracy: number; // share of covered positions where the result was kept
+  score: number; // each test's maximum score times its accuracy
+  breakdown: { [testId: string]: number };
+  perPosition: { testCaseId: string; move: string; wdl: SyzygyWdl; moveWdl: SyzygyWdl; kept: boolean }[];
+}
+
+export interface OpeningPerformance {
+  eco: string;
+  name: string;
+  games: number;
+  wins: number;
+  draws: number;
+  losses: number;
+  score: number; // points per game for the agent, in [0, 1]
+  confidenceInterval: { lower: number; upper: number }; // 95%, of the score
+}
+
 export interface VisualizationData {
   type: 'line' | 'bar' | 'scatter' | 'heatmap' | 'network';
   title: string;
@@ -777,6 +841,352 @@ export class ResearchDashboard {
     return entry;
   }
 
+  /**
+   * Run the agent's real search over every chess position in a suite and
+   * report node counts per search phase, so search changes can be compared
+   */
+  public async runSearchBenchmark(
+    agent: ChessAIAgent,
+    benchmarkId: string,
+    limits: SearchLimits = { depth: 3 }
+  ): Promise<SearchBenchmarkResult> {
+    const benchmark = this.benchmarks.get(benchmarkId);
+    if (!benchmark) {
+      throw new Error(`Benchmark ${benchmarkId} not found`);
+    }
+
+    const result: SearchBenchmarkResult = {
+      benchmarkId,
+      agentId: agent.id,
+      positions: 0,
+      totals: { mainNodes: 0, quiescenceNodes: 0, transpositionCutoffs: 0, betaCutoffs: 0, firstMoveCutoffs: 0 },
+      averageDepth: 0,
+      averageTime: 0,
+      firstMoveCutoffRate: 0,
+      quiescenceShare: 0,
+      perPosition: []
+    };
+
+    // Benchmarks measure the search itself, so no book moves or exploration
+    const savedExploration = agent.learningParams.explorationRate;
+    agent.adjustLearningParameters({ explorationRate: 0 });
+
+    try {
+      for (const test of benchmark.tests.filter(t => t.gameType === 'chess')) {
+        for (const testCase of test.testCases) {
+          let chess: Chess;
+          try {
+            chess = new Chess(testCase.gameState.position);
+          } catch {
+            console.warn(`Skipping ${testCase.id}: invalid position`);
+            continue;
+          }
+          if (chess.isGameOver()) continue;
+
+          const decision = await agent.makeMove(chess, limits);
+          result.perPosition.push({
+            testCaseId: testCase.id,
+            move: decision.move,
+            depth: decision.depth,
+            time: decision.thinkingTime,
+            stats: decision.searchStats
+          });
+
+          const totals = result.totals;
+          totals.mainNodes += decision.searchStats.mainNodes;
+          totals.quiescenceNodes += decision.searchStats.quiescenceNodes;
+          totals.transpositionCutoffs += decision.searchStats.transpositionCutoffs;
+          totals.betaCutoffs += decision.searchStats.betaCutoffs;
+          totals.firstMoveCutoffs += decision.searchStats.firstMoveCutoffs;
+        }
+      }
+    } finally {
+      agent.adjustLearningParameters({ explorationRate: savedExploration });
+    }
+
+    const count = result.perPosition.length;
+    const totalNodes = result.totals.mainNodes + result.totals.quiescenceNodes;
+    result.positions = count;
+    result.averageDepth = count > 0 ? result.perPosition.reduce((sum, p) => sum + p.depth, 0) / count : 0;
+    result.averageTime = count > 0 ? result.perPosition.reduce((sum, p) => sum + p.time, 0) / count : 0;
+    result.firstMoveCutoffRate = result.totals.betaCutoffs > 0
+      ? result.totals.firstMoveCutoffs / result.totals.betaCutoffs
+      : 0;
+    result.quiescenceShare = totalNodes > 0 ? result.totals.quiescenceNodes / totalNodes : 0;
+
+    console.log(`Search benchmark ${benchmark.name}: ${totalNodes} nodes over ${count} positions`);
+    return result;
+  }
+
+  /**
+   * Analyze every chess position with expected moves in multi-PV mode and check
+   * whether an expected move appears among the agent's top lines
+   */
+  public async runAnalysisBenchmark(
+    agent: MoveProvider,
+    benchmarkId: string,
+    limits: SearchLimits = { depth: 3 },
+    lineCount: number = 3
+  ): Promise<AnalysisBenchmarkResult> {
+    const benchmark = this.benchmarks.get(benchmarkId);
+    if (!benchmark) {
+      throw new Error(`Benchmark ${benchmarkId} not found`);
+    }
+
+    const result: AnalysisBenchmarkResult = {
+      benchmarkId,
+      agentId: agent.id,
+      lineCount,
+      positions: 0,
+      bestMoveHits: 0,
+      topLinesHits: 0,
+      hitRate: 0,
+      perPosition: []
+    };
+
+    // Check and mate markers are optional in expected moves
+    const normalize = (san: string) => san.replace(/[+#!?]/g, '');
+
+    for (const test of benchmark.tests.filter(t => t.gameType === 'chess')) {
+      for (const testCase of test.testCases) {
+        if (!testCase.expectedMoves || testCase.expectedMoves.length === 0) continue;
+
+        let fen: string;
+        try {
+          fen = new Chess(testCase.gameState.position).fen();
+        } catch {
+          console.warn(`Skipping ${testCase.id}: invalid position`);
+          continue;
+        }
+
+        const analysis = await agent.analyzePosition(fen, limits, lineCount);
+        const expected = testCase.expectedMoves.map(normalize);
+        const index = analysis.lines.findIndex(line => expected.includes(normalize(line.move)));
+        const rank = index >= 0 ? index + 1 : null;
+
+        result.perPosition.push({ testCaseId: testCase.id, expectedMoves: testCase.expectedMoves, lines: analysis.lines, rank });
+        if (rank === 1) result.bestMoveHits++;
+        if (rank !== null) result.topLinesHits++;
+      }
+    }
+
+    result.positions = result.perPosition.length;
+    result.hitRate = result.positions > 0 ? result.topLinesHits / result.positions : 0;
+
+    console.log(`Analysis benchmark ${benchmark.name}: ${result.topLinesHits}/${result.positions} expected moves in the top ${lineCount}`);
+    return result;
+  }
+
+  /**
+   * Judge an agent's moves on every chess position of a suite with a reference
+   * analyser (typically a strong UCI engine): how often it finds the reference's
+   * move, and how much evaluation its own moves give up
+   */
+  public async runReferenceBenchmark(
+    agent: MoveProvider,
+    reference: MoveProvider,
+    benchmarkId: string,
+    limits: SearchLimits = { depth: 3 },
+    referenceLimits: SearchLimits = { depth: 12 }
+  ): Promise<ReferenceBenchmarkResult> {
+    const benchmark = this.benchmarks.get(benchmarkId);
+    if (!benchmark) {
+      throw new Error(`Benchmark ${benchmarkId} not found`);
+    }
+
+    const result: ReferenceBenchmarkResult = {
+      benchmarkId,
+      agentId: agent.id,
+      referenceId: reference.id,
+      positions: 0,
+      agreement: 0,
+      averageScoreLoss: 0,
+      perPosition: []
+    };
+
+    // The agent's own choice is measured, so no exploratory moves
+    const savedExploration = agent instanceof ChessAIAgent ? agent.learningParams.explorationRate : 0;
+    if (agent instanceof ChessAIAgent) agent.adjustLearningParameters({ explorationRate: 0 });
+
+    try {
+      for (const test of benchmark.tests.filter(t => t.gameType === 'chess')) {
+        for (const testCase of test.testCases) {
+          let chess: Chess;
+          try {
+            chess = new Chess(testCase.gameState.position);
+          } catch {
+            console.warn(`Skipping ${testCase.id}: invalid position`);
+            continue;
+          }
+          if (chess.isGameOver()) continue;
+
+          const fen = chess.fen();
+          const decision = await agent.makeMove(new Chess(fen), limits);
+          const best = (await reference.analyzePosition(fen, referenceLimits)).lines[0];
+          if (!best) continue;
+
+          let scoreLoss = 0;
+          if (decision.move !== best.move) {
+            chess.move(decision.move);
+            const reply = (await reference.analyzePosition(chess.fen(), referenceLimits)).lines[0];
+            const after = reply ? reply.evaluation : best.evaluation;
+            const loss = fen.split(' ')[1] === 'w' ? best.evaluation - after : after - best.evaluation;
+            scoreLoss = Math.max(0, Math.min(MAX_REFERENCE_SCORE_LOSS, loss));
+          }
+
+          result.perPosition.push({ testCaseId: testCase.id, move: decision.move, referenceMove: best.move, scoreLoss });
+        }
+      }
+    } finally {
+      if (agent instanceof ChessAIAgent) agent.adjustLearningParameters({ explorationRate: savedExploration });
+    }
+
+    const count = result.perPosition.length;
+    result.positions = count;
+    result.agreement = count > 0 ? result.perPosition.filter(p => p.move === p.referenceMove).length / count : 0;
+    result.averageScoreLoss = count > 0 ? result.perPosition.reduce((sum, p) => sum + p.scoreLoss, 0) / count : 0;
+
+    console.log(`Reference benchmark ${benchmark.name}: ${(result.agreement * 100).toFixed(0)}% agreement with ${reference.name}, ${result.averageScoreLoss.toFixed(0)}cp average loss`);
+    return result;
+  }
+
+  /**
+   * Score an agent's moves on the suite's endgame positions against Syzygy
+   * tablebase truth: a move scores when it keeps the position's result
+   * (positions without tables are left out)
+   */
+  public async runTablebaseBenchmark(
+    agent: MoveProvider,
+    tablebase: SyzygyTablebase,
+    benchmarkId: string,
+    limits: SearchLimits = { depth: 3 }
+  ): Promise<TablebaseBenchmarkResult> {
+    const benchmark = this.benchmarks.get(benchmarkId);
+    if (!benchmark) {
+      throw new Error(`Benchmark ${benchmarkId} not found`);
+    }
+
+    const result: TablebaseBenchmarkResult = {
+      benchmarkId,
+      agentId: agent.id,
+      positions: 0,
+      uncovered: 0,
+      keptResults: 0,
+      accuracy: 0,
+      score: 0,
+      breakdown: {},
+      perPosition: []
+    };
+
+    // The agent's own choice is measured, so no exploratory moves
+    const savedExploration = agent instanceof ChessAIAgent ? agent.learningParams.explorationRate : 0;
+    if (agent instanceof ChessAIAgent) agent.adjustLearningParameters({ explorationRate: 0 });
+
+    try {
+      for (const test of benchmark.tests.filter(t => t.gameType === 'chess')) {
+        let covered = 0;
+        let kept = 0;
+
+        for (const testCase of test.testCases) {
+          let chess: Chess;
+          try {
+            chess = new Chess(testCase.gameState.position);
+          } catch {
+            console.warn(`Skipping ${testCase.id}: invalid position`);
+            continue;
+          }
+          if (chess.isGameOver()) continue;
+
+          const root = tablebase.probeRoot(chess);
+          if (!root) {
+            result.uncovered++;
+            continue;
+          }
+
+          const decision = await agent.makeMove(new Chess(chess.fen()), limits);
+          const played = root.moves.find(move => move.move === decision.move);
+          const moveWdl: SyzygyWdl = played ? played.wdl : -2;
+          const keptResult = moveWdl === root.wdl;
+
+          result.perPosition.push({ testCaseId: testCase.id, move: decision.move, wdl: root.wdl, moveWdl, kept: keptResult });
+          covered++;
+          if (keptResult) kept++;
+        }
+
+        if (covered > 0) {
+          result.breakdown[test.id] = test.scoring.maxScore * kept / covered;
+          result.score += result.breakdown[test.id];
+        }
+      }
+    } finally {
+      if (agent instanceof ChessAIAgent) agent.adjustLearningParameters({ explorationRate: savedExploration });
+    }
+
+    result.positions = result.perPosition.length;
+    result.keptResults = result.perPosition.filter(p => p.kept).length;
+    result.accuracy = result.positions > 0 ? result.keptResults / result.positions : 0;
+
+    console.log(`Tablebase benchmark ${benchmark.name}: ${result.keptResults}/${result.positions} results kept (${result.uncovered} positions without tables)`);
+    return result;
+  }
+
+  /**
+   * An agent's results by opening (ECO code and name), from training games
+   * and completed online games; games it did not play, or whose opening is
+   * unknown, are left out
+   */
+  public analyzeOpenings(agentName: string, games: (GameResult | OnlineGame)[]): OpeningPerformance[] {
+    const openings = new Map<string, OpeningPerformance>();
+
+    for (const game of games) {
+      let opening;
+      let points: number;
+      if ('whiteAgent' in game) {
+        if (game.whiteAgent !== agentName && game.blackAgent !== agentName) continue;
+        opening = game.opening || classifyOpening(game.moves);
+        const won = game.result === (game.whiteAgent === agentName ? 'white' : 'black');
+        points = game.result === 'draw' ? 0.5 : won ? 1 : 0;
+      } else {
+        const player = game.players.find(p => p.username === agentName || p.aiAgent?.name === agentName);
+        if (!player || !game.result) continue;
+        opening = game.opening;
+        points = game.result.winner === null ? 0.5 : game.result.winner === player.username ? 1 : 0;
+      }
+      if (!opening) continue;
+
+      const key = `${opening.eco} ${opening.name}`;
+      let performance = openings.get(key);
+      if (!performance) {
+        performance = {
+          eco: opening.eco,
+          name: opening.name,
+          games: 0,
+          wins: 0,
+          draws: 0,
+          losses: 0,
+          score: 0,
+          confidenceInterval: { lower: 0, upper: 0 }
+        };
+        openings.set(key, performance);
+      }
+      performance.games++;
+      if (points === 1) performance.wins++;
+      else if (points === 0) performance.losses++;
+      else performance.draws++;
+    }
+
+    for (const performance of openings.values()) {
+      performance.score = (performance.wins + 0.5 * performance.draws) / performance.games;
+      const standardError = Math.sqrt(performance.score * (1 - performance.score) / performance.games);
+      performance.confidenceInterval = {
+        lower: Math.max(0, performance.score - 1.96 * standardError),
+        upper: Math.min(1, performance.score + 1.96 * standardError)
+      };
+    }
+
+    return Array.from(openings.values()).sort((a, b) => b.games - a.games);
+  }
+
   private async runBenchmarkTest(agentId: string, test: BenchmarkTest): Promise<number> {
     let totalScore = 0;
     
@@ -0,0 +1,153 @@
+import { appendFileSync, existsSync, mkdirSync, readFileSync, readdirSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { PGNGame } from './ChessLearningEngine';
+import {
+  DEFAULT_INDEX_PLIES,
+  ExplorerMove,
+  ExplorerPosition,
+  PositionIndex,
+  PositionSource,
+  explorerPosition,
+  positionKey,
+} from './PositionIndex';
+
+/**
+ * Stored position index
+ * The position index of a game store, kept on disk (Node only) so that it grows
+ * with the store rather than with memory. Positions are spread over bucket files
+ * by the first digits of their key, in a directory of the store:
+ *   <bucket>.jsonl  appended lines of [key, FEN, moves]; a position can have
+ *                   several, whose records are added up when it is read
+ *   index.json      how many of the store's games the buckets hold
+ * New games are indexed in memory and appended to the buckets once enough
+ * positions are pending, before the index is read, and when the store closes.
+ */
+
+interface StoredIndexInfo {
+  version: number;
+  maxPlies: number;
+  games: number;
+}
+
+type StoredPosition = [string, string, ExplorerMove[]]; // key, FEN, moves
+
+const INDEX_DIRECTORY = 'positions';
+const INFO_FILE = 'index.json';
+const BUCKET_EXTENSION = '.jsonl';
+const BUCKET_DIGITS = 3; // 4096 buckets
+const MAX_PENDING_POSITIONS = 50000;
+const STORAGE_VERSION = 1;
+
+export class StoredPositionIndex implements PositionSource {
+  public readonly maxPlies: number;
+  private directory: string;
+  private pending: PositionIndex;
+  private pendingFrom: number; // games in the buckets when the pending ones were started
+  private indexedGames: number;
+
+  constructor(storeDirectory: string, private maxPendingPositions: number = MAX_PENDING_POSITIONS) {
+    this.directory = join(storeDirectory, INDEX_DIRECTORY);
+    mkdirSync(this.directory, { recursive: true });
+    const info = this.readInfo();
+    this.maxPlies = info.maxPlies;
+    this.pendingFrom = this.indexedGames = info.games;
+    this.pending = new PositionIndex(this.maxPlies);
+  }
+
+  public get games(): number {
+    return this.indexedGames;
+  }
+
+  /**
+   * Index the next game of the store; games are indexed in order, so any other
+   * is left for the store to catch up with
+   */
+  public addGame(id: number, game: PGNGame): void {
+    if (id !== this.indexedGames) return;
+    this.pending.addGame(id, game);
+    this.indexedGames++;
+    if (this.pending.size >= this.maxPendingPositions) this.flush();
+  }
+
+  /**
+   * A position, read from its bucket only
+   */
+  public query(fen: string): ExplorerPosition | null {
+    this.flush();
+    const key = positionKey(fen);
+    const path = this.bucketPath(key);
+    if (!existsSync(path)) return null;
+
+    const prefix = `["${key}"`;
+    const found = readFileSync(path, 'utf8').split('\n')
+      .filter(line => line.startsWith(prefix))
+      .map(line => {
+        const [, positionFen, moves]: StoredPosition = JSON.parse(line);
+        return explorerPosition(positionFen, moves);
+      });
+    return PositionIndex.merge(found);
+  }
+
+  /**
+   * Every indexed position with at least minGames games, one bucket in memory at a time
+   */
+  public *entries(minGames: number = 1): Generator<ExplorerPosition> {
+    this.flush();
+    const buckets = readdirSync(this.directory).filter(name => name.endsWith(BUCKET_EXTENSION)).sort();
+
+    for (const bucket of buckets) {
+      const positions = new Map<string, ExplorerPosition[]>();
+      for (const line of readFileSync(join(this.directory, bucket), 'utf8').split('\n')) {
+        if (!line) continue;
+        const [key, fen, moves]: StoredPosition = JSON.parse(line);
+        const found = positions.get(key) || [];
+        found.push(explorerPosition(fen, moves));
+        positions.set(key, found);
+      }
+      for (const found of positions.values()) {
+        const position = PositionIndex.merge(found);
+        if (position && position.games >= minGames) yield position;
+      }
+    }
+  }
+
+  /**
+   * Append the pending positions to their buckets, then record the games they
+   * hold. When another store on the directory has written in the meantime, its
+   * positions are kept and the pending ones dropped.
+   */
+  public flush(): void {
+    if (this.indexedGames === this.pendingFrom) return;
+
+    const written = this.readInfo().games;
+    if (written !== this.pendingFrom) {
+      this.pending = new PositionIndex(this.maxPlies);
+      this.pendingFrom = this.indexedGames = written;
+      return;
+    }
+
+    const buckets = new Map<string, string[]>();
+    for (const stored of this.pending.serialize().positions) {
+      const path = this.bucketPath(stored[0]);
+      const lines = buckets.get(path) || [];
+      lines.push(JSON.stringify(stored));
+      buckets.set(path, lines);
+    }
+    buckets.forEach((lines, path) => appendFileSync(path, lines.join('\n') + '\n'));
+
+    const info: StoredIndexInfo = { version: STORAGE_VERSION, maxPlies: this.maxPlies, games: this.indexedGames };
+    writeFileSync(join(this.directory, INFO_FILE), JSON.stringify(info));
+    this.pending = new PositionIndex(this.maxPlies);
+    this.pendingFrom = this.indexedGames;
+  }
+
+  private readInfo(): StoredIndexInfo {
+    const path = join(this.directory, INFO_FILE);
+    if (!existsSync(path)) return { version: STORAGE_VERSION, maxPlies: DEFAULT_INDEX_PLIES, games: 0 };
+    return JSON.parse(readFileSync(path, 'utf8'));
+  }
+
+  private bucketPath(key: string): string {
+    return join(this.directory, key.slice(0, BUCKET_DIGITS) + BUCKET_EXTENSION);
+  }
+}
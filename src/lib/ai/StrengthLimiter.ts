@@ -0,0 +1,193 @@
+import { Chess } from 'chess.js';
+import { ChessAIAgent, SearchLine } from './ChessAIAgent';
+import { SearchLimits } from './TimeManager';
+
+/**
+ * Strength Limiter
+ * Maps a target Elo to search limits, softmax move selection and a blunder model,
+ * and calibrates that mapping against reference opponents of known strength
+ */
+
+export type BlunderModel =
+  | 'none'
+  | 'random' // any legal move
+  | 'shallow'; // best move at one ply without quiescence: overlooks every reply
+
+export interface StrengthProfile {
+  targetElo: number;
+  maxDepth: number;
+  nodeBudget: number;
+  candidateMoves: number; // lines searched and sampled from
+  softmaxScale: number; // centipawns per unit of temperature
+  blunderRate: number; // probability of replacing the search move by a blunder
+  blunderModel: BlunderModel;
+}
+
+export interface CalibrationPoint {
+  targetElo: number; // Elo the profile was built for
+  measuredElo: number; // performance rating it achieved against the references
+}
+
+export interface ReferenceOpponent {
+  name: string;
+  elo: number;
+  agent: ChessAIAgent;
+}
+
+export const MIN_STRENGTH_ELO = 600;
+export const MAX_STRENGTH_ELO = 2200;
+
+// Uncalibrated profile anchors; settings in between are interpolated
+const STRENGTH_ANCHORS: StrengthProfile[] = [
+  { targetElo: 600, maxDepth: 1, nodeBudget: 150, candidateMoves: 6, softmaxScale: 200, blunderRate: 0.25, blunderModel: 'random' },
+  { targetElo: 1000, maxDepth: 1, nodeBudget: 400, candidateMoves: 5, softmaxScale: 120, blunderRate: 0.15, blunderModel: 'shallow' },
+  { targetElo: 1400, maxDepth: 2, nodeBudget: 1500, candidateMoves: 4, softmaxScale: 60, blunderRate: 0.08, blunderModel: 'shallow' },
+  { targetElo: 1800, maxDepth: 3, nodeBudget: 5000, candidateMoves: 3, softmaxScale: 25, blunderRate: 0.03, blunderModel: 'shallow' },
+  { targetElo: 2200, maxDepth: 4, nodeBudget: 20000, candidateMoves: 2, softmaxScale: 8, blunderRate: 0, blunderModel: 'none' },
+];
+
+const CALIBRATION_MAX_PLIES = 200; // adjudicated as a draw after this
+const MAX_PERFORMANCE_DIFFERENCE = 800; // Elo, for perfect or zero scores
+
+/**
+ * Profile for a target Elo. With a calibration, the profile that actually
+ * performed at the target is used instead of the nominal one.
+ */
+export function strengthProfileForElo(targetElo: number, calibration: CalibrationPoint[] = []): StrengthProfile {
+  const elo = Math.max(MIN_STRENGTH_ELO, Math.min(MAX_STRENGTH_ELO, targetElo));
+  const nominal = calibration.length >= 2 ? invertCalibration(elo, calibration) : elo;
+  const clamped = Math.max(MIN_STRENGTH_ELO, Math.min(MAX_STRENGTH_ELO, nominal));
+
+  const upperIndex = STRENGTH_ANCHORS.findIndex(anchor => anchor.targetElo >= clamped);
+  const upper = STRENGTH_ANCHORS[upperIndex];
+  const lower = STRENGTH_ANCHORS[Math.max(0, upperIndex - 1)];
+  const t = upper === lower ? 0 : (clamped - lower.targetElo) / (upper.targetElo - lower.targetElo);
+  const mix = (a: number, b: number) => a + (b - a) * t;
+
+  return {
+    targetElo: elo,
+    maxDepth: Math.round(mix(lower.maxDepth, upper.maxDepth)),
+    nodeBudget: Math.round(mix(lower.nodeBudget, upper.nodeBudget)),
+    candidateMoves: Math.round(mix(lower.candidateMoves, upper.candidateMoves)),
+    softmaxScale: mix(lower.softmaxScale, upper.softmaxScale),
+    blunderRate: mix(lower.blunderRate, upper.blunderRate),
+    // Keep blundering the lower level's way until the rate reaches zero
+    blunderModel: t < 0.5 || upper.blunderModel === 'none' ? lower.blunderModel : upper.blunderModel,
+  };
+}
+
+/**
+ * Sample a line with probability ∝ exp(advantage / (scale · temperature)), where the
+ * advantage is measured from the side to move. A temperature of 0 always takes the best line.
+ */
+export function softmaxSelect(lines: SearchLine[], maximizingPlayer: boolean, scale: number, temperature: number): SearchLine {
+  if (lines.length === 0) throw new Error('No lines to select from');
+
+  const sign = maximizingPlayer ? 1 : -1;
+  const best = Math.max(...lines.map(line => sign * line.evaluation));
+  const divisor = scale * temperature;
+  if (divisor <= 0) return lines.find(line => sign * line.evaluation === best)!;
+
+  const weights = lines.map(line => Math.exp((sign * line.evaluation - best) / divisor));
+  const total = weights.reduce((sum, weight) => sum + weight, 0);
+
+  let r = Math.random() * total;
+  for (let i = 0; i < lines.length; i++) {
+    r -= weights[i];
+    if (r <= 0) return lines[i];
+  }
+  return lines[lines.length - 1];
+}
+
+/**
+ * Performance rating from an average opponent rating and a score in [0, 1]
+ */
+export function performanceRating(opponentElo: number, score: number): number {
+  if (score <= 0) return opponentElo - MAX_PERFORMANCE_DIFFERENCE;
+  if (score >= 1) return opponentElo + MAX_PERFORMANCE_DIFFERENCE;
+  const difference = -400 * Math.log10(1 / score - 1);
+  return opponentElo + Math.max(-MAX_PERFORMANCE_DIFFERENCE, Math.min(MAX_PERFORMANCE_DIFFERENCE, difference));
+}
+
+/**
+ * Play each nominal strength level against the reference opponents (alternating
+ * colours, no learning) and measure the rating it performs at. The result can be
+ * passed to `ChessAIAgent.setStrengthCalibration`.
+ */
+export async function calibrateStrength(
+  agent: ChessAIAgent,
+  targets: number[],
+  references: ReferenceOpponent[],
+  gamesPerOpponent: number = 4,
+  limits: SearchLimits = {}
+): Promise<CalibrationPoint[]> {
+  if (references.length === 0) throw new Error('Calibration needs at least one reference opponent');
+
+  const savedStrength = agent.getStrengthProfile();
+  const savedCalibration = agent.getStrengthCalibration();
+  const points: CalibrationPoint[] = [];
+
+  agent.setStrengthCalibration([]);
+  try {
+    for (const target of targets) {
+      agent.setStrength(target);
+      let score = 0;
+      let games = 0;
+      let opponentElo = 0;
+
+      for (const reference of references) {
+        for (let game = 0; game < gamesPerOpponent; game++) {
+          const agentIsWhite = game % 2 === 0;
+          const result = await playCalibrationGame(
+            agentIsWhite ? agent : reference.agent,
+            agentIsWhite ? reference.agent : agent,
+            limits
+          );
+          score += agentIsWhite ? result : 1 - result;
+          opponentElo += reference.elo;
+          games++;
+        }
+      }
+
+      const measuredElo = performanceRating(opponentElo / games, score / games);
+      points.push({ targetElo: target, measuredElo });
+      console.log(`🎯 Strength ${target}: performed at ${Math.round(measuredElo)} (${score}/${games})`);
+    }
+  } finally {
+    agent.setStrengthCalibration(savedCalibration);
+    agent.setStrength(savedStrength ? savedStrength.targetElo : null);
+  }
+
+  return points;
+}
+
+/**
+ * White's score (1, 0.5 or 0) in a game between two agents
+ */
+async function playCalibrationGame(white: ChessAIAgent, black: ChessAIAgent, limits: SearchLimits): Promise<number> {
+  const chess = new Chess();
+
+  while (!chess.isGameOver() && chess.history().length < CALIBRATION_MAX_PLIES) {
+    const player = chess.turn() === 'w' ? white : black;
+    const decision = await player.makeMove(chess, limits);
+    chess.move(decision.move);
+  }
+
+  if (!chess.isCheckmate()) return 0.5;
+  return chess.turn() === 'b' ? 1 : 0;
+}
+
+/**
+ * Nominal strength whose measured performance matches `elo`, interpolated
+ * between calibration points (and extrapolated from the nearest two)
+ */
+function invertCalibration(elo: number, calibration: CalibrationPoint[]): number {
+  const points = [...calibration].sort((a, b) => a.measuredElo - b.measuredElo);
+  let i = points.findIndex(point => point.measuredElo >= elo);
+  if (i <= 0) i = i === 0 ? 1 : points.length - 1;
+
+  const a = points[i - 1];
+  const b = points[i];
+  if (b.measuredElo === a.measuredElo) return (a.targetElo + b.targetElo) / 2;
+  return a.targetElo + (elo - a.measuredElo) * (b.targetElo - a.targetElo) / (b.measuredElo - a.measuredElo);
+}
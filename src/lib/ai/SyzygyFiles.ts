@@ -0,0 +1,34 @@
+import { existsSync, readdirSync, readFileSync } from 'fs';
+import { delimiter, join } from 'path';
+import { SyzygyFileSource, SYZYGY_WDL_EXTENSION, SYZYGY_DTZ_EXTENSION } from './SyzygyTablebase';
+
+/**
+ * Syzygy files
+ * Table files in local directories (Node only). Several directories are given
+ * the way engines take a SyzygyPath: separated by `:` (`;` on Windows).
+ */
+
+export function syzygyDirectorySource(path: string): SyzygyFileSource {
+  const files = new Map<string, string>(); // first directory wins
+  for (const directory of path.split(delimiter)) {
+    if (!directory || !existsSync(directory)) continue;
+    for (const file of readdirSync(directory)) {
+      if ((file.endsWith(SYZYGY_WDL_EXTENSION) || file.endsWith(SYZYGY_DTZ_EXTENSION)) && !files.has(file)) {
+        files.set(file, join(directory, file));
+      }
+    }
+  }
+
+  return {
+    list: () => Array.from(files.keys()),
+    read: name => {
+      const file = files.get(name);
+      if (!file) return null;
+      try {
+        return new Uint8Array(readFileSync(file));
+      } catch {
+        return null;
+      }
+    },
+  };
+}
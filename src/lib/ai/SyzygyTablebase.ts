@@ -0,0 +1,817 @@
+import { Chess, Move } from 'chess.js';
+
+/**
+ * Syzygy Tablebases
+ * Reader for Syzygy WDL (.rtbw) and DTZ (.rtbz) endgame table files: the
+ * win/draw/loss of a position and its distance to the next capture or pawn move
+ * (zeroing move), with the fifty-move rule taken into account
+ */
+
+// -2 loss, -1 loss that the fifty-move rule saves (blessed), 0 draw,
+// 1 win that the fifty-move rule spoils (cursed), 2 win; for the side to move
+export type SyzygyWdl = -2 | -1 | 0 | 1 | 2;
+
+/**
+ * Where table files come from: the names available and their contents
+ * (null when a file cannot be read)
+ */
+export interface SyzygyFileSource {
+  list(): string[];
+  read(name: string): Uint8Array | null;
+}
+
+export interface SyzygyMoveProbe {
+  move: string; // SAN
+  wdl: SyzygyWdl; // for the side playing the move
+  dtz: number | null; // plies to a zeroing move for the side playing it (negative when losing); null without DTZ tables
+}
+
+export interface SyzygyRootProbe {
+  wdl: SyzygyWdl;
+  dtz: number | null;
+  moves: SyzygyMoveProbe[];
+}
+
+export const SYZYGY_WDL_EXTENSION = '.rtbw';
+export const SYZYGY_DTZ_EXTENSION = '.rtbz';
+export const MAX_SYZYGY_PIECES = 7;
+
+type TableKind = 'wdl' | 'dtz';
+
+const WDL_MAGIC = [0x71, 0xe8, 0x23, 0x5d];
+const DTZ_MAGIC = [0xd7, 0x66, 0x0c, 0xa5];
+const TABLE_NAME = /^K[QRBNP]*vK[QRBNP]*$/;
+const PIECE_ORDER = 'KQRBNP'; // order of the pieces in a table name
+const PIECE_CODES: { [letter: string]: number } = { P: 1, N: 2, B: 3, R: 4, Q: 5, K: 6 }; // black: + 8
+const TYPE_LETTERS: { [type: string]: string } = { p: 'P', n: 'N', b: 'B', r: 'R', q: 'Q', k: 'K' };
+const PAWN_CODE = 1;
+
+// File header flags
+const SPLIT = 1;
+const HAS_PAWNS = 2;
+
+// Per-table flags
+const FLAG_STM = 1;
+const FLAG_MAPPED = 2;
+const FLAG_WIN_PLIES = 4;
+const FLAG_LOSS_PLIES = 8;
+const FLAG_WIDE = 16;
+const FLAG_SINGLE_VALUE = 128;
+
+const CHANGE_STM = 'change-stm'; // a one-sided DTZ table stores the other side to move
+const WDL_TO_MAP = [1, 3, 0, 2, 0]; // DTZ value map per WDL + 2
+const NO_SYMBOL = 0xfff;
+
+const BIG_32 = BigInt(32);
+const BIG_64 = BigInt(64);
+const MASK_64 = (BigInt(1) << BIG_64) - BigInt(1);
+
+// Index encoding tables, as in the generator
+const BINOMIAL: number[][] = Array.from({ length: 7 }, () => new Array<number>(64).fill(0));
+const MAP_PAWNS = new Array<number>(64).fill(0);
+const LEAD_PAWN_INDEX: number[][] = Array.from({ length: 6 }, () => new Array<number>(64).fill(0));
+const LEAD_PAWNS_SIZE: number[][] = Array.from({ length: 6 }, () => new Array<number>(4).fill(0));
+const MAP_B1H1H7 = new Array<number>(64).fill(0);
+const MAP_A1D1D4 = new Array<number>(64).fill(0);
+const MAP_KK: number[][] = Array.from({ length: 10 }, () => new Array<number>(64).fill(0));
+
+const fileOf = (square: number) => square & 7;
+const rankOf = (square: number) => square >> 3;
+const offDiagonal = (square: number) => rankOf(square) - fileOf(square); // > 0 above a1-h8, < 0 below
+const flipFile = (square: number) => square ^ 7;
+
+BINOMIAL[0][0] = 1;
+for (let n = 1; n < 64; n++) {
+  for (let k = 0; k < 7 && k <= n; k++) {
+    BINOMIAL[k][n] = (k > 0 ? BINOMIAL[k - 1][n - 1] : 0) + (k < n ? BINOMIAL[k][n - 1] : 0);
+  }
+}
+
+// Pawns on a2-h7: the higher the code, the nearer the edge and the lower the rank
+let availableSquares = 47;
+for (let count = 1; count <= 5; count++) {
+  for (let file = 0; file < 4; file++) {
+    let index = 0;
+    for (let rank = 1; rank <= 6; rank++) {
+      const square = rank * 8 + file;
+      if (count === 1) {
+        MAP_PAWNS[square] = availableSquares--;
+        MAP_PAWNS[flipFile(square)] = availableSquares--;
+      }
+      LEAD_PAWN_INDEX[count][square] = index;
+      index += BINOMIAL[count - 1][MAP_PAWNS[square]];
+    }
+    LEAD_PAWNS_SIZE[count][file] = index;
+  }
+}
+
+let code = 0;
+for (let square = 0; square < 64; square++) {
+  if (offDiagonal(square) < 0) MAP_B1H1H7[square] = code++;
+}
+
+// The a1-d1-d4 triangle, diagonal squares last
+code = 0;
+const diagonal: number[] = [];
+for (let square = 0; square <= 27; square++) {
+  if (fileOf(square) > 3) continue;
+  if (offDiagonal(square) < 0) MAP_A1D1D4[square] = code++;
+  else if (offDiagonal(square) === 0) diagonal.push(square);
+}
+diagonal.forEach(square => { MAP_A1D1D4[square] = code++; });
+
+// The 462 legal placements of two kings with the first in the triangle
+code = 0;
+const bothOnDiagonal: [number, number][] = [];
+for (let index = 0; index < 10; index++) {
+  for (let first = 0; first <= 27; first++) {
+    if (fileOf(first) > 3 || offDiagonal(first) > 0 || MAP_A1D1D4[first] !== index) continue;
+    if (index === 0 && first !== 1) continue; // b1 is the square mapped to 0
+    for (let second = 0; second < 64; second++) {
+      const apart = Math.max(Math.abs(fileOf(first) - fileOf(second)), Math.abs(rankOf(first) - rankOf(second)));
+      if (apart <= 1) continue;
+      if (offDiagonal(first) === 0 && offDiagonal(second) > 0) continue;
+      if (offDiagonal(first) === 0 && offDiagonal(second) === 0) bothOnDiagonal.push([index, second]);
+      else MAP_KK[index][second] = code++;
+    }
+  }
+}
+bothOnDiagonal.forEach(([index, second]) => { MAP_KK[index][second] = code++; });
+
+/**
+ * One compressed value table: a canonical Huffman code over symbols that
+ * expand into runs of values by recursive pairing
+ */
+interface PairsData {
+  flags: number;
+  pieces: number[];
+  groupLength: number[]; // zero-terminated
+  groupIndex: number[];
+  blockSize: number;
+  span: number;
+  blockCount: number;
+  blockLengthSize: number;
+  sparseIndexSize: number;
+  minSymbolLength: number; // the value itself for single-value tables
+  lowestSymbol: number[];
+  base: bigint[];
+  symbolLength: number[];
+  tree: number; // offset of the symbol pairs
+  sparseIndex: number;
+  blockLength: number;
+  data: number;
+  mapIndex: number[]; // DTZ value maps per WDL
+}
+
+interface PlacedPiece {
+  code: number;
+  square: number;
+}
+
+function tableName(counts: { [code: number]: number }, black: boolean): string {
+  return PIECE_ORDER.split('').map(letter => letter.repeat(counts[PIECE_CODES[letter] + (black ? 8 : 0)] || 0)).join('');
+}
+
+function dtzBeforeZeroing(wdl: SyzygyWdl): number {
+  return wdl === 2 ? 1 : wdl === 1 ? 101 : wdl === -1 ? -101 : wdl === -2 ? -1 : 0;
+}
+
+function isZeroing(move: Move): boolean {
+  return move.captured !== undefined || move.piece === 'p';
+}
+
+/**
+ * The tables of one material configuration, decoded from its file
+ */
+class SyzygyTable {
+  public readonly kind: TableKind;
+  public readonly symmetric: boolean;
+  public readonly hasPawns: boolean;
+  private hasUniquePieces: boolean = false;
+  private pawnCount: [number, number] = [0, 0]; // leading colour first
+  private pieceCount: number;
+  private pairs: PairsData[][] = []; // [side][file]
+  private map: number = 0;
+  private bytes: Uint8Array;
+
+  constructor(name: string, kind: TableKind, bytes: Uint8Array) {
+    this.kind = kind;
+    this.bytes = bytes;
+
+    const [white, black] = name.split('v');
+    this.symmetric = white === black;
+    this.hasPawns = name.includes('P');
+    this.pieceCount = name.length - 1;
+
+    const counts: { [code: number]: number } = {};
+    for (const letter of white) counts[PIECE_CODES[letter]] = (counts[PIECE_CODES[letter]] || 0) + 1;
+    for (const letter of black) counts[PIECE_CODES[letter] + 8] = (counts[PIECE_CODES[letter] + 8] || 0) + 1;
+    for (const letter of 'PNBRQ') {
+      if (counts[PIECE_CODES[letter]] === 1 || counts[PIECE_CODES[letter] + 8] === 1) this.hasUniquePieces = true;
+    }
+
+    // The leading colour has the fewer pawns (white on equal counts)
+    const whitePawns = counts[PAWN_CODE] || 0;
+    const blackPawns = counts[PAWN_CODE + 8] || 0;
+    const whiteLeads = blackPawns === 0 || (whitePawns > 0 && blackPawns >= whitePawns);
+    this.pawnCount = whiteLeads ? [whitePawns, blackPawns] : [blackPawns, whitePawns];
+
+    const magic = kind === 'wdl' ? WDL_MAGIC : DTZ_MAGIC;
+    if (bytes.length < 6 || magic.some((byte, i) => bytes[i] !== byte)) {
+      throw new Error(`${name}: not a Syzygy ${kind.toUpperCase()} table`);
+    }
+    if (Boolean(bytes[4] & HAS_PAWNS) !== this.hasPawns || (kind === 'wdl' && Boolean(bytes[4] & SPLIT) === this.symmetric)) {
+      throw new Error(`${name}: table header does not match its material`);
+    }
+    this.parse(5);
+  }
+
+  /**
+   * Table value of a position (pieces as stored: colours and ranks already
+   * flipped when the table is probed from the other side), or CHANGE_STM
+   */
+  public probe(pieces: PlacedPiece[], stm: number, wdl: SyzygyWdl): number | typeof CHANGE_STM {
+    const squares: number[] = [];
+    const codes: number[] = [];
+    const leadCode = this.hasPawns ? this.pairs[0][0].pieces[0] : -1;
+    let leadPawns = 0;
+    let file = 0;
+
+    if (this.hasPawns) {
+      pieces.filter(piece => piece.code === leadCode).forEach(piece => {
+        squares.push(piece.square);
+        codes.push(piece.code);
+      });
+      leadPawns = squares.length;
+      let lead = 0;
+      for (let i = 1; i < leadPawns; i++) {
+        if (MAP_PAWNS[squares[i]] > MAP_PAWNS[squares[lead]]) lead = i;
+      }
+      [squares[0], squares[lead]] = [squares[lead], squares[0]];
+      file = Math.min(fileOf(squares[0]), 7 - fileOf(squares[0]));
+    }
+
+    const side = this.kind === 'wdl' ? stm : 0;
+    const d = this.pairs[side][file];
+    if (this.kind === 'dtz' && (d.flags & FLAG_STM) !== stm && !(this.symmetric && !this.hasPawns)) {
+      return CHANGE_STM;
+    }
+
+    pieces.filter(piece => piece.code !== leadCode).forEach(piece => {
+      squares.push(piece.square);
+      codes.push(piece.code);
+    });
+
+    // Same piece sequence as the table
+    for (let i = leadPawns; i < squares.length - 1; i++) {
+      for (let j = i + 1; j < squares.length; j++) {
+        if (d.pieces[i] === codes[j]) {
+          [codes[i], codes[j]] = [codes[j], codes[i]];
+          [squares[i], squares[j]] = [squares[j], squares[i]];
+          break;
+        }
+      }
+    }
+
+    // The leading piece goes to files a-d
+    if (fileOf(squares[0]) > 3) {
+      for (let i = 0; i < squares.length; i++) squares[i] = flipFile(squares[i]);
+    }
+
+    let index: number;
+    if (this.hasPawns) {
+      index = LEAD_PAWN_INDEX[leadPawns][squares[0]];
+      const others = squares.slice(1, leadPawns).sort((a, b) => MAP_PAWNS[a] - MAP_PAWNS[b]);
+      others.forEach((square, i) => {
+        squares[i + 1] = square;
+        index += BINOMIAL[i + 1][MAP_PAWNS[square]];
+      });
+    } else {
+      // Ranks 1-4, then below the a1-h8 diagonal
+      if (rankOf(squares[0]) > 3) {
+        for (let i = 0; i < squares.length; i++) squares[i] ^= 56;
+      }
+      for (let i = 0; i < d.groupLength[0]; i++) {
+        if (!offDiagonal(squares[i])) continue;
+        if (offDiagonal(squares[i]) > 0) {
+          for (let j = i; j < squares.length; j++) squares[j] = ((squares[j] >> 3) | (squares[j] << 3)) & 63;
+        }
+        break;
+      }
+
+      if (this.hasUniquePieces) {
+        const [s0, s1, s2] = squares;
+        const adjust1 = s1 > s0 ? 1 : 0;
+        const adjust2 = (s2 > s0 ? 1 : 0) + (s2 > s1 ? 1 : 0);
+        if (offDiagonal(s0)) {
+          index = (MAP_A1D1D4[s0] * 63 + (s1 - adjust1)) * 62 + s2 - adjust2;
+        } else if (offDiagonal(s1)) {
+          index = (6 * 63 + rankOf(s0) * 28 + MAP_B1H1H7[s1]) * 62 + s2 - adjust2;
+        } else if (offDiagonal(s2)) {
+          index = 6 * 63 * 62 + 4 * 28 * 62 + rankOf(s0) * 7 * 28 + (rankOf(s1) - adjust1) * 28 + MAP_B1H1H7[s2];
+        } else {
+          index = 6 * 63 * 62 + 4 * 28 * 62 + 4 * 7 * 28 + rankOf(s0) * 7 * 6 + (rankOf(s1) - adjust1) * 6 + (rankOf(s2) - adjust2);
+        }
+      } else {
+        index = MAP_KK[MAP_A1D1D4[squares[0]]][squares[1]];
+      }
+    }
+
+    // The remaining groups, each as a combination of squares not taken by earlier groups
+    index *= d.groupIndex[0];
+    let start = d.groupLength[0];
+    let remainingPawns = this.hasPawns && this.pawnCount[1] > 0;
+    for (let next = 1; d.groupLength[next]; next++) {
+      const length = d.groupLength[next];
+      const group = squares.slice(start, start + length).sort((a, b) => a - b);
+      let n = 0;
+      group.forEach((square, i) => {
+        let adjust = 0;
+        for (let j = 0; j < start; j++) if (square > squares[j]) adjust++;
+        n += BINOMIAL[i + 1][square - adjust - (remainingPawns ? 8 : 0)];
+      });
+      remainingPawns = false;
+      index += n * d.groupIndex[next];
+      start += length;
+    }
+
+    return this.mapScore(file, this.decompress(d, index), wdl);
+  }
+
+  private mapScore(file: number, value: number, wdl: SyzygyWdl): number {
+    if (this.kind === 'wdl') return value - 2;
+
+    const d = this.pairs[0][file];
+    if (d.flags & FLAG_MAPPED) {
+      const index = d.mapIndex[WDL_TO_MAP[wdl + 2]] + value;
+      value = d.flags & FLAG_WIDE ? this.u16(this.map + 2 * index) : this.bytes[this.map + index];
+    }
+
+    // Values are stored in moves unless the table says plies
+    if ((wdl === 2 && !(d.flags & FLAG_WIN_PLIES)) || (wdl === -2 && !(d.flags & FLAG_LOSS_PLIES)) || wdl === 1 || wdl === -1) {
+      value *= 2;
+    }
+    return value + 1;
+  }
+
+  private parse(offset: number): void {
+    const sides = this.kind === 'wdl' && !this.symmetric ? 2 : 1;
+    const files = this.hasPawns ? 4 : 1;
+    const bothPawns = this.hasPawns && this.pawnCount[1] > 0;
+    const bytes = this.bytes;
+
+    for (let side = 0; side < sides; side++) this.pairs.push([]);
+    for (let file = 0; file < files; file++) {
+      const order = [
+        [bytes[offset] & 0xf, bothPawns ? bytes[offset + 1] & 0xf : 0xf],
+        [bytes[offset] >> 4, bothPawns ? bytes[offset + 1] >> 4 : 0xf],
+      ];
+      offset += bothPawns ? 2 : 1;
+
+      const pieces: number[][] = [[], []];
+      for (let i = 0; i < this.pieceCount; i++, offset++) {
+        pieces[0].push(bytes[offset] & 0xf);
+        pieces[1].push(bytes[offset] >> 4);
+      }
+      for (let side = 0; side < sides; side++) {
+        this.pairs[side].push(this.createGroups(pieces[side], order[side], file));
+      }
+    }
+    offset += offset & 1;
+
+    for (let file = 0; file < files; file++) {
+      for (let side = 0; side < sides; side++) offset = this.parseSizes(this.pairs[side][file], offset);
+    }
+
+    if (this.kind === 'dtz') {
+      this.map = offset;
+      for (let file = 0; file < files; file++) {
+        const d = this.pairs[0][file];
+        if (!(d.flags & FLAG_MAPPED)) continue;
+        if (d.flags & FLAG_WIDE) {
+          offset += offset & 1;
+          for (let i = 0; i < 4; i++) {
+            d.mapIndex[i] = Math.floor((offset - this.map) / 2) + 1;
+            offset += 2 + 2 * this.u16(offset);
+          }
+        } else {
+          for (let i = 0; i < 4; i++) {
+            d.mapIndex[i] = offset - this.map + 1;
+            offset += 1 + bytes[offset];
+          }
+        }
+      }
+      offset += offset & 1;
+    }
+
+    for (let file = 0; file < files; file++) {
+      for (let side = 0; side < sides; side++) {
+        const d = this.pairs[side][file];
+        d.sparseIndex = offset;
+        offset += d.sparseIndexSize * 6;
+      }
+    }
+    for (let file = 0; file < files; file++) {
+      for (let side = 0; side < sides; side++) {
+        const d = this.pairs[side][file];
+        d.blockLength = offset;
+        offset += d.blockLengthSize * 2;
+      }
+    }
+    for (let file = 0; file < files; file++) {
+      for (let side = 0; side < sides; side++) {
+        const d = this.pairs[side][file];
+        offset = (offset + 0x3f) & ~0x3f; // 64-byte alignment
+        d.data = offset;
+        offset += d.blockCount * d.blockSize;
+        if (d.blockCount > 0 && offset > bytes.length) throw new Error('table file is truncated');
+      }
+    }
+  }
+
+  /**
+   * Split the pieces into groups (leading pieces or pawns, then runs of equal
+   * pieces) and work out each group's factor in the position index
+   */
+  private createGroups(pieces: number[], order: number[], file: number): PairsData {
+    const groupLength = [1];
+    let firstLength = this.hasPawns ? 0 : this.hasUniquePieces ? 3 : 2;
+    for (let i = 1; i < pieces.length; i++) {
+      if (--firstLength > 0 || pieces[i] === pieces[i - 1]) groupLength[groupLength.length - 1]++;
+      else groupLength.push(1);
+    }
+    const groups = groupLength.length;
+    groupLength.push(0);
+
+    const bothPawns = this.hasPawns && this.pawnCount[1] > 0;
+    const groupIndex = new Array<number>(groups + 1).fill(0);
+    let next = bothPawns ? 2 : 1;
+    let freeSquares = 64 - groupLength[0] - (bothPawns ? groupLength[1] : 0);
+    let index = 1;
+
+    for (let k = 0; next < groups || k === order[0] || k === order[1]; k++) {
+      if (k === order[0]) {
+        groupIndex[0] = index;
+        index *= this.hasPawns ? LEAD_PAWNS_SIZE[groupLength[0]][file] : this.hasUniquePieces ? 31332 : 462;
+      } else if (k === order[1]) {
+        groupIndex[1] = index;
+        index *= BINOMIAL[groupLength[1]][48 - groupLength[0]];
+      } else {
+        groupIndex[next] = index;
+        index *= BINOMIAL[groupLength[next]][freeSquares];
+        freeSquares -= groupLength[next++];
+      }
+    }
+    groupIndex[groups] = index;
+
+    return {
+      flags: 0, pieces, groupLength, groupIndex,
+      blockSize: 0, span: 0, blockCount: 0, blockLengthSize: 0, sparseIndexSize: 0,
+      minSymbolLength: 0, lowestSymbol: [], base: [], symbolLength: [], tree: 0,
+      sparseIndex: 0, blockLength: 0, data: 0, mapIndex: [0, 0, 0, 0],
+    };
+  }
+
+  private parseSizes(d: PairsData, offset: number): number {
+    const bytes = this.bytes;
+    d.flags = bytes[offset++];
+    if (d.flags & FLAG_SINGLE_VALUE) {
+      d.minSymbolLength = bytes[offset++];
+      return offset;
+    }
+
+    const tableSize = d.groupIndex[d.groupLength.indexOf(0)];
+    d.blockSize = 2 ** bytes[offset++];
+    d.span = 2 ** bytes[offset++];
+    d.sparseIndexSize = Math.ceil(tableSize / d.span);
+    const padding = bytes[offset++];
+    d.blockCount = this.u32(offset);
+    offset += 4;
+    d.blockLengthSize = d.blockCount + padding;
+    const maxSymbolLength = bytes[offset++];
+    d.minSymbolLength = bytes[offset++];
+
+    // Canonical Huffman code: the lowest code of each length, left-aligned in 64 bits
+    const lengths = maxSymbolLength - d.minSymbolLength + 1;
+    for (let i = 0; i < lengths; i++) d.lowestSymbol.push(this.u16(offset + 2 * i));
+    const base = new Array<number>(lengths).fill(0);
+    for (let i = lengths - 2; i >= 0; i--) {
+      base[i] = Math.floor((base[i + 1] + d.lowestSymbol[i] - d.lowestSymbol[i + 1]) / 2);
+    }
+    d.base = base.map((value, i) => (BigInt(value) << BigInt(64 - i - d.minSymbolLength)) & MASK_64);
+    offset += lengths * 2;
+
+    const symbols = this.u16(offset);
+    offset += 2;
+    d.tree = offset;
+    d.symbolLength = new Array<number>(symbols).fill(0);
+    const visited = new Array<boolean>(symbols).fill(false);
+    const symbolLength = (symbol: number): number => {
+      visited[symbol] = true;
+      const right = this.rightSymbol(d, symbol);
+      if (right === NO_SYMBOL) return 0;
+      const left = this.leftSymbol(d, symbol);
+      if (!visited[left]) d.symbolLength[left] = symbolLength(left);
+      if (!visited[right]) d.symbolLength[right] = symbolLength(right);
+      return d.symbolLength[left] + d.symbolLength[right] + 1;
+    };
+    for (let symbol = 0; symbol < symbols; symbol++) {
+      if (!visited[symbol]) d.symbolLength[symbol] = symbolLength(symbol);
+    }
+
+    return offset + symbols * 3 + (symbols & 1);
+  }
+
+  /**
+   * Value at a position index: find its block through the sparse index, decode
+   * symbols up to the one covering it, then descend that symbol's pairs
+   */
+  private decompress(d: PairsData, index: number): number {
+    if (d.flags & FLAG_SINGLE_VALUE) return d.minSymbolLength;
+
+    const k = Math.floor(index / d.span);
+    let block = this.u32(d.sparseIndex + 6 * k);
+    let offset = this.u16(d.sparseIndex + 6 * k + 4) + (index % d.span) - d.span / 2;
+    const blockLength = (b: number) => this.u16(d.blockLength + 2 * b);
+    while (offset < 0) offset += blockLength(--block) + 1;
+    while (offset > blockLength(block)) offset -= blockLength(block++) + 1;
+
+    let pointer = d.data + block * d.blockSize;
+    let buffer = (BigInt(this.u32BigEndian(pointer)) << BIG_32) | BigInt(this.u32BigEndian(pointer + 4));
+    pointer += 8;
+    let bufferSize = 64;
+    let symbol: number;
+
+    for (;;) {
+      let length = 0;
+      while (buffer < d.base[length]) length++;
+      symbol = Number((buffer - d.base[length]) >> BigInt(64 - length - d.minSymbolLength)) + d.lowestSymbol[length];
+      if (offset < d.symbolLength[symbol] + 1) break;
+
+      offset -= d.symbolLength[symbol] + 1;
+      length += d.minSymbolLength;
+      buffer = (buffer << BigInt(length)) & MASK_64;
+      bufferSize -= length;
+      if (bufferSize <= 32) {
+        bufferSize += 32;
+        buffer |= BigInt(this.u32BigEndian(pointer)) << BigInt(64 - bufferSize);
+        pointer += 4;
+      }
+    }
+
+    while (d.symbolLength[symbol]) {
+      const left = this.leftSymbol(d, symbol);
+      if (offset < d.symbolLength[left] + 1) {
+        symbol = left;
+      } else {
+        offset -= d.symbolLength[left] + 1;
+        symbol = this.rightSymbol(d, symbol);
+      }
+    }
+    return this.leftSymbol(d, symbol);
+  }
+
+  private leftSymbol(d: PairsData, symbol: number): number {
+    const at = d.tree + 3 * symbol;
+    return ((this.bytes[at + 1] & 0xf) << 8) | this.bytes[at];
+  }
+
+  private rightSymbol(d: PairsData, symbol: number): number {
+    const at = d.tree + 3 * symbol;
+    return (this.bytes[at + 2] << 4) | (this.bytes[at + 1] >> 4);
+  }
+
+  private u16(offset: number): number {
+    return (this.bytes[offset] | (this.bytes[offset + 1] << 8)) >>> 0;
+  }
+
+  private u32(offset: number): number {
+    return (this.bytes[offset] | (this.bytes[offset + 1] << 8) | (this.bytes[offset + 2] << 16) | (this.bytes[offset + 3] << 24)) >>> 0;
+  }
+
+  private u32BigEndian(offset: number): number {
+    // Reads past the end of the file (the last block's refill) see zeros
+    return (((this.bytes[offset] || 0) << 24) | ((this.bytes[offset + 1] || 0) << 16) | ((this.bytes[offset + 2] || 0) << 8) | (this.bytes[offset + 3] || 0)) >>> 0;
+  }
+}
+
+/**
+ * A set of Syzygy table files. Tables are decoded on first use; positions whose
+ * tables are missing (or unreadable) are simply not covered.
+ */
+export class SyzygyTablebase {
+  private source: SyzygyFileSource;
+  private available: Map<string, Set<TableKind>> = new Map();
+  private tables: Map<string, SyzygyTable | null> = new Map(); // by file name; null when unusable
+  private largest: number = 0;
+
+  constructor(source: SyzygyFileSource) {
+    this.source = source;
+    for (const file of source.list()) {
+      const kind: TableKind | null = file.endsWith(SYZYGY_WDL_EXTENSION) ? 'wdl' : file.endsWith(SYZYGY_DTZ_EXTENSION) ? 'dtz' : null;
+      const name = file.slice(0, -SYZYGY_WDL_EXTENSION.length);
+      if (!kind || !TABLE_NAME.test(name) || name.length - 1 > MAX_SYZYGY_PIECES) continue;
+
+      if (!this.available.has(name)) this.available.set(name, new Set());
+      this.available.get(name)!.add(kind);
+      if (kind === 'wdl') this.largest = Math.max(this.largest, name.length - 1);
+    }
+  }
+
+  /**
+   * Number of WDL tables (material configurations that can be probed)
+   */
+  public get size(): number {
+    return this.signatures().length;
+  }
+
+  /**
+   * Most pieces (kings included) of any WDL table; 0 without tables
+   */
+  public get maxPieces(): number {
+    return this.largest;
+  }
+
+  public signatures(): string[] {
+    return Array.from(this.available.entries())
+      .filter(([, kinds]) => kinds.has('wdl'))
+      .map(([name]) => name)
+      .sort();
+  }
+
+  public hasDtz(name: string): boolean {
+    return this.available.get(name)?.has('dtz') ?? false;
+  }
+
+  /**
+   * Win/draw/loss of a position for the side to move; null when it has castling
+   * rights, too many pieces or a table is missing
+   */
+  public probeWdl(chess: Chess): SyzygyWdl | null {
+    if (!this.covers(chess)) return null;
+    const result = this.search(chess, false);
+    return result ? result.wdl : null;
+  }
+
+  /**
+   * Distance to zeroing in plies for the side to move, positive when winning,
+   * negative when losing and beyond ±100 when the fifty-move rule gets in the
+   * way; 0 for draws, null when not covered
+   */
+  public probeDtz(chess: Chess): number | null {
+    if (!this.covers(chess)) return null;
+    return this.dtz(chess);
+  }
+
+  /**
+   * The position's result with the result and distance of every legal move
+   */
+  public probeRoot(chess: Chess): SyzygyRootProbe | null {
+    const wdl = this.probeWdl(chess);
+    if (wdl === null) return null;
+    const rootDtz = this.probeDtz(chess);
+
+    const moves: SyzygyMoveProbe[] = [];
+    for (const move of chess.moves({ verbose: true })) {
+      chess.move({ from: move.from, to: move.to, promotion: move.promotion });
+      const child = this.search(chess, false);
+      let dtz: number | null = null;
+      if (child && isZeroing(move)) {
+        dtz = dtzBeforeZeroing(-child.wdl as SyzygyWdl);
+      } else if (child && rootDtz !== null) {
+        const value = this.dtz(chess);
+        if (value !== null) dtz = value < 0 ? -value + 1 : value > 0 ? -value - 1 : 0;
+      }
+      if (dtz === 2 && chess.isCheckmate()) dtz = 1;
+      chess.undo();
+
+      if (!child) return null;
+      moves.push({ move: move.san, wdl: -child.wdl as SyzygyWdl, dtz });
+    }
+
+    return { wdl, dtz: rootDtz, moves };
+  }
+
+  private covers(chess: Chess): boolean {
+    const [placement, , castling] = chess.fen().split(' ');
+    const pieces = placement.replace(/[^a-zA-Z]/g, '').length;
+    return castling === '-' && pieces <= this.largest;
+  }
+
+  /**
+   * Captures (and pawn moves for DTZ) searched before the tables are trusted:
+   * tables hold no en passant rights and may store "don't care" values where
+   * the best move is a zeroing one
+   */
+  private search(chess: Chess, zeroingMoves: boolean): { wdl: SyzygyWdl; zeroingBest: boolean } | null {
+    const moves = chess.moves({ verbose: true });
+    let best = -2;
+    let searched = 0;
+
+    for (const move of moves) {
+      if (move.captured === undefined && (!zeroingMoves || move.piece !== 'p')) continue;
+      searched++;
+      chess.move({ from: move.from, to: move.to, promotion: move.promotion });
+      const child = this.search(chess, false);
+      chess.undo();
+      if (!child) return null;
+
+      const value = -child.wdl;
+      if (value > best) {
+        best = value;
+        if (value >= 2) return { wdl: 2, zeroingBest: true };
+      }
+    }
+
+    const noMoreMoves = searched > 0 && searched === moves.length;
+    let value = best;
+    if (!noMoreMoves) {
+      const probed = this.probeTable('wdl', chess, 0);
+      if (probed === null || probed === CHANGE_STM) return null;
+      value = probed;
+    }
+
+    if (best >= value) return { wdl: best as SyzygyWdl, zeroingBest: best > 0 || noMoreMoves };
+    return { wdl: value as SyzygyWdl, zeroingBest: false };
+  }
+
+  private dtz(chess: Chess): number | null {
+    const result = this.search(chess, true);
+    if (!result) return null;
+    if (result.wdl === 0) return 0;
+    if (result.zeroingBest) return dtzBeforeZeroing(result.wdl);
+
+    const stored = this.probeTable('dtz', chess, result.wdl);
+    if (stored === null) return null;
+    if (stored !== CHANGE_STM) return (stored + (Math.abs(result.wdl) === 1 ? 100 : 0)) * Math.sign(result.wdl);
+
+    // Only the other side to move is stored: one ply more, best distance of the moves
+    let best = 0xffff;
+    for (const move of chess.moves({ verbose: true })) {
+      const zeroing = isZeroing(move);
+      chess.move({ from: move.from, to: move.to, promotion: move.promotion });
+      let value: number | null;
+      if (zeroing) {
+        const child = this.search(chess, false);
+        value = child ? -dtzBeforeZeroing(child.wdl) : null;
+      } else {
+        const child = this.dtz(chess);
+        value = child === null ? null : -child;
+      }
+      const mates = value === 1 && chess.isCheckmate();
+      chess.undo();
+      if (value === null) return null;
+
+      if (mates) best = 1;
+      if (!zeroing) value += Math.sign(value);
+      if (value < best && Math.sign(value) === Math.sign(result.wdl)) best = value;
+    }
+    return best === 0xffff ? -1 : best;
+  }
+
+  /**
+   * Look the position up in its table, seen from the stronger side when the
+   * table is stored the other way round
+   */
+  private probeTable(kind: TableKind, chess: Chess, wdl: SyzygyWdl): number | typeof CHANGE_STM | null {
+    const pieces: PlacedPiece[] = [];
+    const counts: { [code: number]: number } = {};
+    chess.board().forEach((row, r) => row.forEach((square, file) => {
+      if (!square) return;
+      const pieceCode = PIECE_CODES[TYPE_LETTERS[square.type]] + (square.color === 'b' ? 8 : 0);
+      pieces.push({ code: pieceCode, square: (7 - r) * 8 + file });
+      counts[pieceCode] = (counts[pieceCode] || 0) + 1;
+    }));
+    if (pieces.length === 2) return 0; // KvK
+
+    const white = tableName(counts, false);
+    const black = tableName(counts, true);
+    const blackStronger = !this.available.get(`${white}v${black}`)?.has(kind);
+    const name = blackStronger ? `${black}v${white}` : `${white}v${black}`;
+    const table = this.table(name, kind);
+    if (!table) return null;
+
+    const blackToMove = chess.turn() === 'b';
+    const flip = blackStronger || (table.symmetric && blackToMove);
+    const stm = flip !== blackToMove ? 1 : 0;
+    const placed = flip ? pieces.map(piece => ({ code: piece.code ^ 8, square: piece.square ^ 56 })) : pieces;
+    return table.probe(placed, stm, wdl);
+  }
+
+  private table(name: string, kind: TableKind): SyzygyTable | null {
+    const file = name + (kind === 'wdl' ? SYZYGY_WDL_EXTENSION : SYZYGY_DTZ_EXTENSION);
+    if (!this.tables.has(file)) {
+      let table: SyzygyTable | null = null;
+      if (this.available.get(name)?.has(kind)) {
+        try {
+          const bytes = this.source.read(file);
+          if (bytes) table = new SyzygyTable(name, kind, bytes);
+        } catch (error) {
+          console.warn(`Ignoring Syzygy table ${file}:`, error instanceof Error ? error.message : error);
+        }
+      }
+      this.tables.set(file, table);
+    }
+    return this.tables.get(file) ?? null;
+  }
+}
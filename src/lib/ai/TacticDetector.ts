@@ -0,0 +1,435 @@
+import { Chess, Color, Move, Square } from 'chess.js';
+import { PGNGame, TacticalPattern } from './ChessLearningEngine';
+import { MoveOrderer, parseSan } from './MoveOrdering';
+
+/**
+ * Tactic Detector
+ * Finds the tactics of real games: positions where the side to move wins
+ * material by force. The game's own moves point at the candidates (the side
+ * to move is at least minGain up a few moves later), and a
+ * material search verifies each of them: the gain has to be forced, only one
+ * first move may win it, and it may not simply be a piece left hanging. The
+ * solution line is then labelled with the motif that makes it work and rated.
+ */
+
+export type TacticType = TacticalPattern['type'];
+
+export interface TacticDetectorOptions {
+  depth: number; // plies searched in full, captures only after that
+  minGain: number; // centipawns of material a tactic has to win
+  swingPlies: number; // the game's material swing is measured this many moves later
+  maxNodes: number; // per position searched; beyond it the position is given up
+  maxPerGame: number;
+}
+
+export const DEFAULT_TACTIC_DETECTOR_OPTIONS: TacticDetectorOptions = {
+  depth: 3,
+  minGain: 150, // more than a pawn: a piece, or the exchange
+  swingPlies: 6,
+  maxNodes: 40000,
+  maxPerGame: 5,
+};
+
+interface SearchLine {
+  score: number; // material won by the side to move, in centipawns
+  moves: string[];
+}
+
+const MATERIAL: { [piece: string]: number } = {
+  'p': 100, 'n': 320, 'b': 330, 'r': 500, 'q': 900, 'k': 0,
+};
+
+const MATE = 100000;
+const MATE_THRESHOLD = MATE - 1000;
+const MAX_QUIESCENCE_PLY = 8;
+const BASE_RATING = 1000;
+
+const MOTIF_NAMES: { [type in TacticType]: string } = {
+  'fork': 'Fork',
+  'pin': 'Pin',
+  'skewer': 'Skewer',
+  'discovered-attack': 'Discovered Attack',
+  'double-attack': 'Double Attack',
+  'deflection': 'Deflection',
+  'decoy': 'Decoy',
+  'clearance': 'Clearance',
+  'interference': 'Interference',
+};
+
+const MOTIF_EXPLANATIONS: { [type in TacticType]: string } = {
+  'fork': 'one piece attacks two targets at once',
+  'pin': 'the attacked piece cannot move without exposing a more valuable one behind it',
+  'skewer': 'a valuable piece is attacked and has to move, exposing the one behind it',
+  'discovered-attack': 'moving one piece uncovers an attack by another',
+  'double-attack': 'two targets are attacked at once',
+  'deflection': 'a defender is forced away from what it protects',
+  'decoy': 'a piece is lured onto a square where it can be attacked',
+  'clearance': 'a piece moves out of the way of another',
+  'interference': 'a piece cuts the line between a defender and what it protects',
+};
+
+// Added to the difficulty rating: the less visible the idea, the higher
+const MOTIF_DIFFICULTY: { [type in TacticType]: number } = {
+  'fork': 0,
+  'double-attack': 0,
+  'pin': 100,
+  'skewer': 100,
+  'discovered-attack': 150,
+  'deflection': 200,
+  'decoy': 250,
+  'clearance': 250,
+  'interference': 300,
+};
+
+const DIRECTIONS: { [piece: string]: number[][] } = {
+  'b': [[1, 1], [1, -1], [-1, 1], [-1, -1]],
+  'r': [[1, 0], [-1, 0], [0, 1], [0, -1]],
+  'q': [[1, 1], [1, -1], [-1, 1], [-1, -1], [1, 0], [-1, 0], [0, 1], [0, -1]],
+};
+
+function opponent(color: Color): Color {
+  return color === 'w' ? 'b' : 'w';
+}
+
+function squareName(file: number, rank: number): Square {
+  return (String.fromCharCode(97 + file) + (rank + 1)) as Square;
+}
+
+function pieceSquares(chess: Chess, color: Color): Square[] {
+  const squares: Square[] = [];
+  chess.board().forEach(row => row.forEach(piece => {
+    if (piece && piece.color === color) squares.push(piece.square);
+  }));
+  return squares;
+}
+
+/**
+ * Enemy pieces worth attacking from a square: the king (a check), pieces
+ * worth more than the attacker and undefended pieces
+ */
+function targetsOf(chess: Chess, from: Square, color: Color): Square[] {
+  const attacker = chess.get(from);
+  if (!attacker) return [];
+  return pieceSquares(chess, opponent(color)).filter(square => {
+    if (!chess.attackers(square, color).includes(from)) return false;
+    const target = chess.get(square)!;
+    return target.type === 'k' || MATERIAL[target.type] > MATERIAL[attacker.type] ||
+           chess.attackers(square, opponent(color)).length === 0;
+  });
+}
+
+/**
+ * The two enemy pieces a slider lines up behind each other, if any
+ */
+function lineUps(chess: Chess, from: Square, color: Color): { front: Square; back: Square }[] {
+  const piece = chess.get(from);
+  const directions = piece ? DIRECTIONS[piece.type] : undefined;
+  if (!directions) return [];
+
+  const found: { front: Square; back: Square }[] = [];
+  const file = from.charCodeAt(0) - 97;
+  const rank = parseInt(from[1]) - 1;
+  for (const [df, dr] of directions) {
+    const hit: Square[] = [];
+    for (let f = file + df, r = rank + dr; f >= 0 && f < 8 && r >= 0 && r < 8 && hit.length < 2; f += df, r += dr) {
+      const square = squareName(f, r);
+      const occupant = chess.get(square);
+      if (!occupant) continue;
+      if (occupant.color === color) break;
+      hit.push(square);
+    }
+    if (hit.length === 2) found.push({ front: hit[0], back: hit[1] });
+  }
+  return found;
+}
+
+/**
+ * Squares a sliding move passes over
+ */
+function pathOf(move: Move): Square[] {
+  const df = move.to.charCodeAt(0) - move.from.charCodeAt(0);
+  const dr = parseInt(move.to[1]) - parseInt(move.from[1]);
+  if (move.piece === 'n' || (df !== 0 && dr !== 0 && Math.abs(df) !== Math.abs(dr))) return [];
+
+  const steps = Math.max(Math.abs(df), Math.abs(dr));
+  const path: Square[] = [];
+  for (let i = 1; i < steps; i++) {
+    path.push(squareName(move.from.charCodeAt(0) - 97 + i * Math.sign(df), parseInt(move.from[1]) - 1 + i * Math.sign(dr)));
+  }
+  return path;
+}
+
+/**
+ * Name the idea behind a winning line (verbose moves from the tactic's position)
+ */
+function motifOf(line: Move[]): TacticType {
+  const [first, reply, next] = line;
+  const us = first.color;
+  const them = opponent(us);
+  const before = new Chess(first.before);
+  const afterFirst = new Chess(first.after);
+
+  // Where the material is won: our most valuable capture after the first move
+  let won: Square | null = null;
+  let wonValue = 0;
+  for (let index = 2; index < line.length; index += 2) {
+    const captured = line[index].captured;
+    if (captured && MATERIAL[captured] > wonValue) {
+      won = line[index].to;
+      wonValue = MATERIAL[captured];
+    }
+  }
+
+  // A piece is lured onto the sacrificed piece's square and attacked there
+  if (reply && next && reply.captured && reply.to === first.to && next.to !== first.to) {
+    const afterNext = new Chess(next.after);
+    if (afterNext.attackers(first.to, us).includes(next.to) || (reply.piece === 'k' && afterNext.inCheck())) return 'decoy';
+  }
+
+  // A forced answer takes a defender away from what is then won
+  if (reply && won && reply.to !== won && (first.captured || afterFirst.inCheck()) &&
+      afterFirst.attackers(won, them).includes(reply.from)) {
+    return 'deflection';
+  }
+
+  if (targetsOf(afterFirst, first.to, us).length >= 2) return 'fork';
+
+  for (const { front, back } of lineUps(afterFirst, first.to, us)) {
+    const frontPiece = afterFirst.get(front)!.type;
+    const backPiece = afterFirst.get(back)!.type;
+    if (frontPiece === 'k') return 'skewer';
+    if (backPiece === 'k' || MATERIAL[backPiece] > MATERIAL[frontPiece]) return 'pin';
+    if (MATERIAL[frontPiece] > MATERIAL[backPiece]) return 'skewer';
+  }
+
+  // Another piece attacks through the square the first move left
+  const discovered = pieceSquares(afterFirst, them).some(square => afterFirst.attackers(square, us).some(attacker =>
+    attacker !== first.to && !before.attackers(square, us).includes(attacker) && targetsOf(afterFirst, attacker, us).includes(square)
+  ));
+  if (discovered) return 'discovered-attack';
+
+  // The first move stands between a defender and what is then won
+  if (won && before.attackers(won, them).some(defender =>
+    defender !== first.to && afterFirst.get(defender)?.color === them && !afterFirst.attackers(won, them).includes(defender)
+  )) {
+    return 'interference';
+  }
+
+  // A later move of ours goes through or to the square the first move left
+  if (line.some((move, index) => index % 2 === 0 && index > 0 && (move.to === first.from || pathOf(move).includes(first.from)))) {
+    return 'clearance';
+  }
+
+  return 'double-attack';
+}
+
+/**
+ * Difficulty on the puzzle rating scale: longer lines, quiet first moves,
+ * sacrifices and less visible motifs are harder
+ */
+function ratingOf(line: Move[], type: TacticType): number {
+  const first = line[0];
+  const afterFirst = new Chess(first.after);
+  const ourMoves = Math.ceil(line.length / 2);
+  const quiet = !first.captured && !afterFirst.inCheck();
+  // The moved piece can be taken at a profit
+  const takers = afterFirst.attackers(first.to, opponent(first.color)).map(square => MATERIAL[afterFirst.get(square)!.type]);
+  const defended = afterFirst.attackers(first.to, first.color).length > 0;
+  const sacrifice = takers.length > 0 && MATERIAL[first.piece] > (first.captured ? MATERIAL[first.captured] : 0) &&
+                    (!defended || Math.min(...takers) < MATERIAL[first.piece]);
+
+  return BASE_RATING + 150 * (ourMoves - 1) + (quiet ? 200 : 0) + (sacrifice ? 250 : 0) + MOTIF_DIFFICULTY[type];
+}
+
+export class TacticDetector {
+  private options: TacticDetectorOptions;
+  private moveOrderer = new MoveOrderer();
+  private nodes = 0;
+  private aborted = false;
+
+  constructor(options: Partial<TacticDetectorOptions> = {}) {
+    this.options = { ...DEFAULT_TACTIC_DETECTOR_OPTIONS, ...options };
+  }
+
+  public getOptions(): TacticDetectorOptions {
+    return { ...this.options };
+  }
+
+  /**
+   * The verified tactics of a game, in the order they were played
+   */
+  public findTactics(game: PGNGame): TacticalPattern[] {
+    let chess: Chess;
+    try {
+      chess = new Chess(game.headers?.FEN || undefined);
+    } catch {
+      return [];
+    }
+
+    // Replay the game, keeping its positions and the material balance (White's view)
+    const positions = [chess.fen()];
+    const balance = [0];
+    for (const san of game.moves) {
+      let move: Move;
+      try {
+        move = chess.move(san);
+      } catch {
+        break;
+      }
+      let gain = move.captured ? MATERIAL[move.captured] : 0;
+      if (move.promotion) gain += MATERIAL[move.promotion] - MATERIAL.p;
+      balance.push(balance[balance.length - 1] + (move.color === 'w' ? gain : -gain));
+      positions.push(chess.fen());
+    }
+
+    const tactics: TacticalPattern[] = [];
+    for (let ply = 0; ply < positions.length - 1 && tactics.length < this.options.maxPerGame; ply++) {
+      const sign = positions[ply].split(' ')[1] === 'w' ? 1 : -1;
+      const kept = balance[Math.min(ply + this.options.swingPlies, balance.length - 1)];
+      if (sign * (kept - balance[ply]) < this.options.minGain) continue;
+
+      const tactic = this.findTactic(positions[ply]);
+      if (!tactic) continue;
+      tactic.name += ` (${game.white} - ${game.black}, move ${positions[ply].split(' ')[5]})`;
+      tactics.push(tactic);
+      ply += tactic.solution.length - 1; // the rest of the line belongs to this tactic
+    }
+    return tactics;
+  }
+
+  /**
+   * The tactic of a position, if the side to move has one
+   */
+  public findTactic(fen: string): TacticalPattern | null {
+    let chess: Chess;
+    try {
+      chess = new Chess(fen);
+    } catch {
+      return null;
+    }
+    if (chess.isGameOver()) return null;
+
+    const { depth, minGain } = this.options;
+    this.nodes = 0;
+    this.aborted = false;
+    this.moveOrderer.newSearch();
+
+    // Material won by captures alone is left hanging, not won by a tactic
+    if (this.quiescence(chess, minGain - 1, minGain, 0, 0).score >= minGain) return null;
+
+    const best = this.search(chess, depth, -Infinity, Infinity, 0, 0);
+    if (this.aborted || best.score < minGain || best.score >= MATE_THRESHOLD) return null;
+
+    // Only one first move may win it
+    for (const move of chess.moves()) {
+      if (move === best.moves[0]) continue;
+      const gain = this.materialGain(chess, move);
+      chess.move(move);
+      const score = -this.search(chess, depth - 1, -minGain, -minGain + 1, -gain, 1).score;
+      chess.undo();
+      if (this.aborted || score >= minGain) return null;
+    }
+
+    // The material balance after each move of the line
+    const replay = new Chess(fen);
+    const line = best.moves.map(san => replay.move(san));
+    const balance: number[] = [];
+    line.reduce((material, move, index) => {
+      const gain = (move.captured ? MATERIAL[move.captured] : 0) + (move.promotion ? MATERIAL[move.promotion] - MATERIAL.p : 0);
+      balance.push(material + (index % 2 === 0 ? gain : -gain));
+      return balance[index];
+    }, 0);
+
+    // Not a piece left hanging: the first move and its answer do not win it yet
+    if (balance[Math.min(2, balance.length) - 1] >= minGain) return null;
+
+    // The solution ends with the move that completes the gain
+    const last = balance.findIndex((material, index) => index % 2 === 0 && material >= minGain);
+    if (last >= 0) line.splice(last + 1);
+    const material = balance[line.length - 1];
+
+    const type = motifOf(line);
+    const side = line[0].color === 'w' ? 'White' : 'Black';
+    return {
+      name: MOTIF_NAMES[type],
+      type,
+      position: fen,
+      solution: line.map(move => move.san),
+      explanation: `${side} wins ${(material / 100).toFixed(1)} pawns of material with ${line[0].san}: ${MOTIF_EXPLANATIONS[type]}`,
+      rating: ratingOf(line, type),
+    };
+  }
+
+  /**
+   * Material search: the best material balance the side to move can force
+   */
+  private search(chess: Chess, depth: number, alpha: number, beta: number, material: number, ply: number): SearchLine {
+    if (++this.nodes > this.options.maxNodes) this.aborted = true;
+    if (this.aborted) return { score: material, moves: [] };
+    if (depth <= 0) return this.quiescence(chess, alpha, beta, material, 0);
+
+    const moves = chess.moves();
+    if (moves.length === 0) {
+      return { score: chess.inCheck() ? -MATE + ply : 0, moves: [] };
+    }
+
+    let best: SearchLine = { score: -Infinity, moves: [] };
+    for (const move of this.moveOrderer.orderMoves(chess, moves, ply)) {
+      const gain = this.materialGain(chess, move);
+      chess.move(move);
+      const child = this.search(chess, depth - 1, -beta, -alpha, -(material + gain), ply + 1);
+      chess.undo();
+
+      const score = -child.score;
+      if (score > best.score) best = { score, moves: [move, ...child.moves] };
+      if (score > alpha) alpha = score;
+      if (alpha >= beta) {
+        this.moveOrderer.recordCutoff(chess, move, ply, depth);
+        break;
+      }
+      if (this.aborted) break;
+    }
+    return best;
+  }
+
+  /**
+   * Captures and promotions until the position is quiet
+   */
+  private quiescence(chess: Chess, alpha: number, beta: number, material: number, qply: number): SearchLine {
+    this.nodes++;
+    let best: SearchLine = { score: material, moves: [] };
+    if (material >= beta || qply >= MAX_QUIESCENCE_PLY) return best;
+    alpha = Math.max(alpha, material);
+
+    const captures = chess.moves().filter(move => {
+      const info = parseSan(move);
+      return info.isCapture || info.promotion !== null;
+    });
+    for (const move of this.moveOrderer.orderCaptures(chess, captures)) {
+      const gain = this.materialGain(chess, move);
+      chess.move(move);
+      const child = this.quiescence(chess, -beta, -alpha, -(material + gain), qply + 1);
+      chess.undo();
+
+      const score = -child.score;
+      if (score > best.score) best = { score, moves: [move, ...child.moves] };
+      if (score > alpha) alpha = score;
+      if (alpha >= beta) break;
+    }
+    return best;
+  }
+
+  /**
+   * Material a move wins before the answer: what it captures and what it promotes to
+   */
+  private materialGain(chess: Chess, san: string): number {
+    const info = parseSan(san);
+    let gain = 0;
+    if (info.isCapture && info.to) {
+      const captured = chess.get(info.to as Square);
+      gain += captured ? MATERIAL[captured.type] : MATERIAL.p; // en passant
+    }
+    if (info.promotion) gain += MATERIAL[info.promotion] - MATERIAL.p;
+    return gain;
+  }
+}
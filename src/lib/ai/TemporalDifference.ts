@@ -0,0 +1,42 @@
+/**
+ * Temporal-Difference Learning
+ * λ-returns for TD(λ) and TD-Leaf updates over the positions of one game
+ */
+
+export interface TDConfig {
+  discountFactor: number; // γ
+  lambda: number; // λ: 0 = one-step TD, 1 = Monte Carlo (final outcome only)
+}
+
+/**
+ * Forward-view TD(λ) targets for a sequence of position values.
+ *
+ * `values[t]` is the current evaluation of the t-th position (or of the leaf of
+ * its principal variation for TD-Leaf), `outcome` is the final result; all from
+ * the same point of view and in [-1, 1]. Computed backwards as
+ *   G_N = outcome,  G_t = γ · ((1 - λ) · V_{t+1} + λ · G_{t+1})
+ */
+export function computeLambdaReturns(values: number[], outcome: number, config: TDConfig): number[] {
+  const gamma = clamp(config.discountFactor);
+  const lambda = clamp(config.lambda);
+  const targets = new Array(values.length).fill(0);
+
+  let nextValue = outcome;
+  let nextReturn = outcome;
+
+  for (let t = values.length - 1; t >= 0; t--) {
+    const isLast = t === values.length - 1;
+    targets[t] = isLast
+      ? gamma * outcome
+      : gamma * ((1 - lambda) * nextValue + lambda * nextReturn);
+
+    nextValue = values[t];
+    nextReturn = targets[t];
+  }
+
+  return targets;
+}
+
+function clamp(value: number): number {
+  return Math.max(0, Math.min(1, value));
+}
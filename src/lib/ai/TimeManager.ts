@@ -0,0 +1,93 @@
+/**
+ * Search Time Management
+ * Turns a per-move budget or a game clock into deadlines for iterative deepening
+ */
+
+export interface SearchLimits {
+  depth?: number; // maximum depth to iterate to
+  moveTime?: number; // fixed budget for this move (ms)
+  timeRemaining?: number; // clock time left for the side to move (ms)
+  increment?: number; // clock increment per move (ms)
+  movesToGo?: number; // moves until the next time control, if known
+  nodes?: number; // node budget for this move
+}
+
+export interface TimeBudget {
+  softLimit: number; // don't start a new iteration after this (ms)
+  hardLimit: number; // abort the running iteration after this (ms)
+}
+
+const MOVE_OVERHEAD = 30; // ms reserved for move transmission and bookkeeping
+const DEFAULT_MOVES_TO_GO = 30;
+const YIELD_INTERVAL = 50; // ms of searching between turns of the event loop
+
+export class TimeManager {
+  private startTime: number = 0;
+  private budget: TimeBudget = { softLimit: Infinity, hardLimit: Infinity };
+  private lastYield: number = 0;
+
+  public start(limits: SearchLimits): void {
+    this.startTime = Date.now();
+    this.lastYield = this.startTime;
+    this.budget = TimeManager.allocate(limits);
+  }
+
+  public elapsed(): number {
+    return Date.now() - this.startTime;
+  }
+
+  public getBudget(): TimeBudget {
+    return { ...this.budget };
+  }
+
+  public isTimed(): boolean {
+    return this.budget.hardLimit !== Infinity;
+  }
+
+  /**
+   * An iteration that starts after the soft limit rarely finishes before the hard one
+   */
+  public canStartIteration(): boolean {
+    return this.elapsed() < this.budget.softLimit;
+  }
+
+  public isTimeUp(): boolean {
+    return this.elapsed() >= this.budget.hardLimit;
+  }
+
+  /**
+   * Let the event loop run (input such as a stop request, timers) once the
+   * search has gone on for YIELD_INTERVAL ms since it last did
+   */
+  public async yieldIfDue(): Promise<void> {
+    if (Date.now() - this.lastYield < YIELD_INTERVAL) return;
+    await new Promise(resolve => setTimeout(resolve, 0));
+    this.lastYield = Date.now();
+  }
+
+  /**
+   * Compute soft/hard deadlines from the search limits
+   */
+  public static allocate(limits: SearchLimits): TimeBudget {
+    if (limits.moveTime !== undefined) {
+      const limit = Math.max(1, limits.moveTime - MOVE_OVERHEAD);
+      return { softLimit: limit, hardLimit: limit };
+    }
+
+    if (limits.timeRemaining !== undefined) {
+      const remaining = Math.max(0, limits.timeRemaining - MOVE_OVERHEAD);
+      const increment = limits.increment || 0;
+      const movesToGo = Math.max(1, limits.movesToGo || DEFAULT_MOVES_TO_GO);
+
+      // Spend an even share of the clock plus most of the increment,
+      // but never more than a fraction of what is left
+      const target = remaining / movesToGo + increment * 0.8;
+      const softLimit = Math.max(1, Math.min(target, remaining * 0.25));
+      const hardLimit = Math.max(1, Math.min(target * 3, remaining * 0.5));
+
+      return { softLimit, hardLimit };
+    }
+
+    return { softLimit: Infinity, hardLimit: Infinity };
+  }
+}
@@ -1,4 +1,5 @@
-import { ChessAIAgent } from './ChessAIAgent';
+import { Chess } from 'chess.js';
+import { ChessAIAgent, MoveProvider } from './ChessAIAgent';
 import { MultiGameAI, GameType, GameState } from './MultiGameAI';
 import { OnlineGamingEngine, OnlineGame, TournamentInfo, TimeControl } from './OnlineGamingEngine';
 
@@ -62,7 +63,7 @@ export interface TournamentParticipant {
   id: string;
   name: string;
   rating: number;
-  agent?: ChessAIAgent | MultiGameAI;
+  agent?: MoveProvider | MultiGameAI; // agents and external engines (chess), or multi-game AIs
   isAI: boolean;
   registrationTime: number;
   status: 'registered' | 'active' | 'eliminated' | 'withdrawn';
@@ -274,7 +275,7 @@ export class TournamentSystem {
 
   public async registerForTournament(
     tournamentId: string,
-    agent: ChessAIAgent | MultiGameAI
+    agent: MoveProvider | MultiGameAI
   ): Promise<boolean> {
     const tournament = this.tournaments.get(tournamentId);
     if (!tournament) {
@@ -577,6 +578,12 @@ export class TournamentSystem {
   }
 }
 
+const MAX_GAME_PLIES = 300; // games still running after this are drawn
+
+function isMoveProvider(agent?: MoveProvider | MultiGameAI): agent is MoveProvider {
+  return agent !== undefined && !(agent instanceof MultiGameAI);
+}
+
 class Tournament {
   public id: string;
   public config: TournamentConfig;
@@ -597,7 +604,7 @@ class Tournament {
     this.config = config;
   }
 
-  public async registerParticipant(agent: ChessAIAgent | MultiGameAI): Promise<boolean> {
+  public async registerParticipant(agent: MoveProvider | MultiGameAI): Promise<boolean> {
     if (this.status !== 'registration') {
       throw new Error('Tournament registration is closed');
     }
@@ -777,15 +784,17 @@ class Tournament {
     match.status = 'active';
     console.log(`Match starting: ${match.player1.name} vs ${match.player2.name}`);
     
-    // Simulate game(s)
-    const gameResult = await this.simulateGame(match.player1, match.player2);
+    // Chess players that choose their own moves play the game out; others are simulated
+    const gameResult = this.config.gameType === 'chess' && isMoveProvider(match.player1.agent) && isMoveProvider(match.player2.agent)
+      ? await this.playChessGame(match.player1, match.player1.agent, match.player2, match.player2.agent)
+      : await this.simulateGame(match.player1, match.player2);
     
     match.result = {
       score1: gameResult.result === '1-0' ? 1 : gameResult.result === '1/2-1/2' ? 0.5 : 0,
       score2: gameResult.result === '0-1' ? 1 : gameResult.result === '1/2-1/2' ? 0.5 : 0,
       games: [gameResult],
       winner: gameResult.winner,
-      method: 'normal'
+      method: gameResult.termination === 'forfeit' ? 'forfeit' : 'normal'
     };
     
     match.status = 'completed';
@@ -812,6 +821,65 @@ class Tournament {
     console.log(`Match completed: ${match.player1.name} ${match.result.score1}-${match.result.score2} ${match.player2.name}`);
   }
 
+  /**
+   * Play a real chess game, player 1 with White, on the tournament clock. A
+   * player that fails to move (an engine that crashed, timed out or answered an
+   * illegal move) forfeits the game.
+   */
+  private async playChessGame(
+    player1: TournamentParticipant,
+    white: MoveProvider,
+    player2: TournamentParticipant,
+    black: MoveProvider
+  ): Promise<GameResult> {
+    const chess = new Chess();
+    const startTime = Date.now();
+    const increment = this.config.timeControl.increment * 1000;
+    const clocks = { w: this.config.timeControl.initialTime * 1000, b: this.config.timeControl.initialTime * 1000 };
+    let flagged: 'w' | 'b' | null = null;
+    let forfeited: 'w' | 'b' | null = null;
+
+    while (!chess.isGameOver() && chess.history().length < MAX_GAME_PLIES) {
+      const side = chess.turn();
+      try {
+        const decision = await (side === 'w' ? white : black).makeMove(chess, { timeRemaining: clocks[side], increment });
+        clocks[side] -= decision.thinkingTime;
+        if (clocks[side] <= 0) {
+          flagged = side;
+          break;
+        }
+        clocks[side] += increment;
+        chess.move(decision.move);
+      } catch (error) {
+        console.error(`${side === 'w' ? player1.name : player2.name} forfeits after move ${chess.history().length}:`, error);
+        forfeited = side;
+        break;
+      }
+    }
+
+    let result: '1-0' | '0-1' | '1/2-1/2' = '1/2-1/2';
+    let termination = 'draw';
+    if (flagged) {
+      result = flagged === 'w' ? '0-1' : '1-0';
+      termination = 'timeout';
+    } else if (forfeited) {
+      result = forfeited === 'w' ? '0-1' : '1-0';
+      termination = 'forfeit';
+    } else if (chess.isCheckmate()) {
+      result = chess.turn() === 'b' ? '1-0' : '0-1';
+      termination = 'checkmate';
+    }
+
+    return {
+      gameId: `game_${Date.now()}_${Math.random().toString(36).substr(2, 6)}`,
+      result,
+      winner: result === '1-0' ? player1.name : result === '0-1' ? player2.name : undefined,
+      moves: Math.ceil(chess.history().length / 2),
+      duration: Date.now() - startTime,
+      termination
+    };
+  }
+
   private async simulateGame(player1: TournamentParticipant, player2: TournamentParticipant): Promise<GameResult> {
     // Simulate a quick game based on ratings
     const ratingDiff = player1.rating - player2.rating;
@@ -1,6 +1,10 @@
 import { Chess } from 'chess.js';
-import { ChessAIAgent, AgentMemory, LearningParameters } from './ChessAIAgent';
-import { ChessLearningEngine, ChessBook, OnlineGameConfig } from './ChessLearningEngine';
+import { ChessAIAgent, AgentMemory, LearningParameters, PositionAnalysis, MoveProvider } from './ChessAIAgent';
+import { SearchLimits } from './TimeManager';
+import { Persona, PersonaName } from './Persona';
+import { ChessLearningEngine, ChessBook, OnlineGameConfig, GameCollection } from './ChessLearningEngine';
+import { ExplorerPosition } from './PositionIndex';
+import { EcoClassification, classifyOpening } from './EcoClassifier';
 
 export interface TrainingSession {
   id: string;
@@ -13,6 +17,12 @@ export interface TrainingSession {
   currentGame?: Chess;
   isRunning: boolean;
   results: GameResult[];
+  timeControl?: TrainingTimeControl;
+}
+
+export interface TrainingTimeControl {
+  initial: number; // seconds
+  increment: number; // seconds per move
 }
 
 export interface GameResult {
@@ -27,6 +37,33 @@ export interface GameResult {
   whiteEvaluation: number;
   blackEvaluation: number;
   timestamp: Date;
+  opening?: EcoClassification;
+}
+
+export interface AnalyzedMove {
+  ply: number;
+  move: string; // move actually played
+  analysis: PositionAnalysis; // position before the move
+  rank: number | null; // 1-based position of the played move among the lines, null if absent
+  scoreLoss: number; // centipawns the played move gives up against the best line (0 when unknown)
+}
+
+export interface SparringCurriculum {
+  startElo: number;
+  endElo: number;
+  step: number; // Elo added per level
+  gamesPerLevel: number;
+  promotionScore: number; // score needed against a level to move on (0-1)
+  maxAttemptsPerLevel: number; // the curriculum stops at a level not passed in this many rounds
+  timeControl?: TrainingTimeControl;
+}
+
+export interface SparringLevelResult {
+  partnerElo: number;
+  attempt: number;
+  games: number;
+  score: number; // 0-1, from the trained agent's point of view
+  promoted: boolean;
 }
 
 export interface TrainingMetrics {
@@ -50,8 +87,22 @@ export interface TrainingMetrics {
   diversityScore: number;
   averageGameLength: number;
   totalTrainingTime: number;
+  openings: OpeningStats[]; // most played first
+}
+
+export interface OpeningStats {
+  eco: string;
+  name: string;
+  games: number;
+  agent1Wins: number;
+  agent2Wins: number;
+  draws: number;
+  agent1Score: number; // points per game, in [0, 1]
 }
 
+// Games without a time control still search on a budget: this much per move (ms)
+export const DEFAULT_TRAINING_MOVE_TIME = 100;
+
 export class ChessTrainingEngine {
   private activeSessions: Map<string, TrainingSession> = new Map();
   private gameHistory: GameResult[] = [];
@@ -66,7 +117,8 @@ export class ChessTrainingEngine {
     agent1: ChessAIAgent,
     agent2: ChessAIAgent,
     targetGames: number = 100,
-    sessionId?: string
+    sessionId?: string,
+    timeControl?: TrainingTimeControl
   ): Promise<string> {
     const id = sessionId || `session_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
     
@@ -79,6 +131,7 @@ export class ChessTrainingEngine {
       targetGames,
       isRunning: true,
       results: [],
+      timeControl,
     };
 
     this.activeSessions.set(id, session);
@@ -96,7 +149,7 @@ export class ChessTrainingEngine {
         const whiteAgent = session.gamesPlayed % 2 === 0 ? session.agent1 : session.agent2;
         const blackAgent = session.gamesPlayed % 2 === 0 ? session.agent2 : session.agent1;
         
-        const gameResult = await this.playGame(whiteAgent, blackAgent);
+        const gameResult = await this.playGame(whiteAgent, blackAgent, session.timeControl);
         session.results.push(gameResult);
         session.gamesPlayed++;
         
@@ -126,7 +179,16 @@ export class ChessTrainingEngine {
     console.log(`Training Session ${session.id} completed!`);
   }
 
-  private async playGame(whiteAgent: ChessAIAgent, blackAgent: ChessAIAgent): Promise<GameResult> {
+  /**
+   * Play one game; only ChessAIAgent players learn from it, other move providers
+   * (external engines) just play. Without a time control each move gets
+   * DEFAULT_TRAINING_MOVE_TIME.
+   */
+  private async playGame(
+    whiteAgent: MoveProvider,
+    blackAgent: MoveProvider,
+    timeControl?: TrainingTimeControl
+  ): Promise<GameResult> {
     const chess = new Chess();
     const gameId = `game_${Date.now()}_${Math.random().toString(36).substr(2, 6)}`;
     const startTime = Date.now();
@@ -139,13 +201,32 @@ export class ChessTrainingEngine {
     let moveCount = 0;
     const maxMoves = 300; // Prevent infinite games
 
+    // Game clocks in milliseconds (only used when a time control is set)
+    const clocks = {
+      w: timeControl ? timeControl.initial * 1000 : Infinity,
+      b: timeControl ? timeControl.initial * 1000 : Infinity,
+    };
+    let flagged: 'w' | 'b' | null = null;
+
     while (!chess.isGameOver() && moveCount < maxMoves) {
       try {
         const currentAgent = chess.turn() === 'w' ? whiteAgent : blackAgent;
         const currentColor = chess.turn();
         
-        // Get the move from the current agent
-        const moveResult = await currentAgent.makeMove(chess);
+        // Get the move from the current agent, searching against its clock
+        const moveResult = await currentAgent.makeMove(chess, timeControl ? {
+          timeRemaining: clocks[currentColor],
+          increment: timeControl.increment * 1000,
+        } : { moveTime: DEFAULT_TRAINING_MOVE_TIME });
+
+        if (timeControl) {
+          clocks[currentColor] -= moveResult.thinkingTime;
+          if (clocks[currentColor] <= 0) {
+            flagged = currentColor;
+            break;
+          }
+          clocks[currentColor] += timeControl.increment * 1000;
+        }
         
         // Record the position before making the move
         const beforePosition = chess.fen();
@@ -167,6 +248,7 @@ export class ChessTrainingEngine {
           nextPosition: afterPosition,
           gameOutcome: 'draw', // Will be updated
           evaluation: moveResult.evaluation,
+          leafPosition: moveResult.leafPosition,
         };
         
         if (currentColor === 'w') {
@@ -191,7 +273,12 @@ export class ChessTrainingEngine {
     let whiteOutcome: 'win' | 'loss' | 'draw';
     let blackOutcome: 'win' | 'loss' | 'draw';
 
-    if (chess.isCheckmate()) {
+    if (flagged) {
+      // Loss on time
+      result = flagged === 'w' ? 'black' : 'white';
+      whiteOutcome = flagged === 'w' ? 'loss' : 'win';
+      blackOutcome = flagged === 'w' ? 'win' : 'loss';
+    } else if (chess.isCheckmate()) {
       if (chess.turn() === 'b') {
         result = 'white';
         whiteOutcome = 'win';
@@ -219,8 +306,8 @@ export class ChessTrainingEngine {
     });
 
     // Let agents learn from the game
-    whiteAgent.recordGameResult(whiteOutcome, gameMemory.white);
-    blackAgent.recordGameResult(blackOutcome, gameMemory.black);
+    if (whiteAgent instanceof ChessAIAgent) whiteAgent.recordGameResult(whiteOutcome, gameMemory.white);
+    if (blackAgent instanceof ChessAIAgent) blackAgent.recordGameResult(blackOutcome, gameMemory.black);
 
     const gameResult: GameResult = {
       gameId,
@@ -231,9 +318,10 @@ export class ChessTrainingEngine {
       fen: chess.fen(),
       pgn: chess.pgn(),
       duration,
-      whiteEvaluation: whiteAgent.stats.eloRating,
-      blackEvaluation: blackAgent.stats.eloRating,
+      whiteEvaluation: whiteAgent instanceof ChessAIAgent ? whiteAgent.stats.eloRating : 0,
+      blackEvaluation: blackAgent instanceof ChessAIAgent ? blackAgent.stats.eloRating : 0,
       timestamp: new Date(),
+      opening: classifyOpening(chess.history()) || undefined,
     };
 
     return gameResult;
@@ -314,9 +402,34 @@ export class ChessTrainingEngine {
       diversityScore,
       averageGameLength,
       totalTrainingTime,
+      openings: this.calculateOpeningStats(session),
     };
   }
 
+  /**
+   * The session's results by ECO code and opening name
+   */
+  private calculateOpeningStats(session: TrainingSession): OpeningStats[] {
+    const openings = new Map<string, OpeningStats>();
+    for (const result of session.results) {
+      if (!result.opening) continue;
+      const key = `${result.opening.eco} ${result.opening.name}`;
+      let stats = openings.get(key);
+      if (!stats) {
+        stats = { eco: result.opening.eco, name: result.opening.name, games: 0, agent1Wins: 0, agent2Wins: 0, draws: 0, agent1Score: 0 };
+        openings.set(key, stats);
+      }
+
+      stats.games++;
+      const winner = result.result === 'white' ? result.whiteAgent : result.result === 'black' ? result.blackAgent : null;
+      if (!winner) stats.draws++;
+      else if (winner === session.agent1.name) stats.agent1Wins++;
+      else stats.agent2Wins++;
+      stats.agent1Score = (stats.agent1Wins + 0.5 * stats.draws) / stats.games;
+    }
+    return Array.from(openings.values()).sort((a, b) => b.games - a.games);
+  }
+
   private calculateConvergenceRate(progress1: number[], progress2: number[]): number {
     if (progress1.length < 2 || progress2.length < 2) return 0;
     
@@ -364,6 +477,44 @@ export class ChessTrainingEngine {
     return this.gameHistory.slice(-limit);
   }
 
+  /**
+   * Run an agent as an analysis engine over a stored game, one multi-PV search per ply
+   */
+  public async analyzeGame(
+    gameId: string,
+    agent: ChessAIAgent,
+    limits: SearchLimits = { depth: 3 },
+    lineCount: number = 3
+  ): Promise<AnalyzedMove[]> {
+    const game = this.gameHistory.find(g => g.gameId === gameId);
+    if (!game) throw new Error(`Game ${gameId} not found`);
+
+    const chess = new Chess();
+    const analyzed: AnalyzedMove[] = [];
+
+    for (let ply = 0; ply < game.moves.length; ply++) {
+      const move = game.moves[ply];
+      const analysis = await agent.analyzePosition(chess.fen(), limits, lineCount);
+      const index = analysis.lines.findIndex(line => line.move === move);
+      const best = analysis.lines[0];
+      const played = analysis.lines[index];
+
+      // Scores are from White's point of view, so a loss for Black is a gain in score
+      const sign = chess.turn() === 'w' ? 1 : -1;
+      analyzed.push({
+        ply,
+        move,
+        analysis,
+        rank: index >= 0 ? index + 1 : null,
+        scoreLoss: best && played ? sign * (best.evaluation - played.evaluation) : 0,
+      });
+
+      chess.move(move);
+    }
+
+    return analyzed;
+  }
+
   public exportTrainingData(sessionId: string): string {
     const session = this.activeSessions.get(sessionId);
     if (!session) throw new Error(`Session ${sessionId} not found`);
@@ -386,12 +537,14 @@ export class ChessTrainingEngine {
   public createAgent(
     name: string,
     learningParams?: Partial<LearningParameters>,
-    initialElo: number = 1500
+    initialElo: number = 1500,
+    persona?: PersonaName | Persona
   ): ChessAIAgent {
     const defaultParams: LearningParameters = {
       learningRate: 0.01,
       explorationRate: 0.1,
       discountFactor: 0.95,
+      lambda: 0.7,
       memorySize: 10000,
       batchSize: 32,
       updateFrequency: 10,
@@ -401,7 +554,106 @@ export class ChessTrainingEngine {
     const finalParams = { ...defaultParams, ...learningParams };
     const agentId = `agent_${Date.now()}_${Math.random().toString(36).substr(2, 6)}`;
     
-    return new ChessAIAgent(agentId, name, finalParams, initialElo);
+    const agent = new ChessAIAgent(agentId, name, finalParams, initialElo);
+    if (persona) agent.setPersona(persona);
+    return agent;
+  }
+
+  /**
+   * Opponent playing at a fixed target Elo (strength-limited, no exploration)
+   */
+  public createSparringPartner(targetElo: number): ChessAIAgent {
+    const partner = this.createAgent(`Sparring-${targetElo}`, { explorationRate: 0 }, targetElo);
+    partner.setStrength(targetElo);
+    return partner;
+  }
+
+  /**
+   * Train an agent against progressively stronger sparring partners, moving up a
+   * level once it scores well enough against the current one
+   */
+  public async runSparringCurriculum(
+    agent: ChessAIAgent,
+    curriculum: Partial<SparringCurriculum> = {}
+  ): Promise<SparringLevelResult[]> {
+    const config: SparringCurriculum = {
+      startElo: 800,
+      endElo: 2000,
+      step: 200,
+      gamesPerLevel: 10,
+      promotionScore: 0.55,
+      maxAttemptsPerLevel: 3,
+      ...curriculum,
+    };
+    const results: SparringLevelResult[] = [];
+
+    for (let elo = config.startElo; elo <= config.endElo; elo += config.step) {
+      const partner = this.createSparringPartner(elo);
+      let promoted = false;
+
+      for (let attempt = 1; attempt <= config.maxAttemptsPerLevel && !promoted; attempt++) {
+        let score = 0;
+        for (let game = 0; game < config.gamesPerLevel; game++) {
+          const agentIsWhite = game % 2 === 0;
+          const gameResult = await this.playGame(
+            agentIsWhite ? agent : partner,
+            agentIsWhite ? partner : agent,
+            config.timeControl
+          );
+          this.gameHistory.push(gameResult);
+          if (this.gameHistory.length > this.maxHistorySize) {
+            this.gameHistory = this.gameHistory.slice(-this.maxHistorySize);
+          }
+
+          if (gameResult.result === 'draw') score += 0.5;
+          else if ((gameResult.result === 'white') === agentIsWhite) score += 1;
+        }
+
+        const levelScore = config.gamesPerLevel > 0 ? score / config.gamesPerLevel : 0;
+        promoted = levelScore >= config.promotionScore;
+        results.push({ partnerElo: elo, attempt, games: config.gamesPerLevel, score: levelScore, promoted });
+        console.log(`🥊 ${agent.name} vs sparring ${elo} (attempt ${attempt}): ${(levelScore * 100).toFixed(0)}%`);
+      }
+
+      if (!promoted) break;
+    }
+
+    return results;
+  }
+
+  /**
+   * Play a match against any move provider, e.g. a reference UCI engine, with
+   * colours alternating. Returns the agent's score (0-1) and the games.
+   */
+  public async playMatch(
+    agent: ChessAIAgent,
+    opponent: MoveProvider,
+    games: number,
+    timeControl?: TrainingTimeControl
+  ): Promise<{ score: number; games: GameResult[] }> {
+    const results: GameResult[] = [];
+    let score = 0;
+
+    for (let game = 0; game < games; game++) {
+      const agentIsWhite = game % 2 === 0;
+      const gameResult = await this.playGame(
+        agentIsWhite ? agent : opponent,
+        agentIsWhite ? opponent : agent,
+        timeControl
+      );
+      results.push(gameResult);
+      this.gameHistory.push(gameResult);
+      if (this.gameHistory.length > this.maxHistorySize) {
+        this.gameHistory = this.gameHistory.slice(-this.maxHistorySize);
+      }
+
+      if (gameResult.result === 'draw') score += 0.5;
+      else if ((gameResult.result === 'white') === agentIsWhite) score += 1;
+    }
+
+    const matchScore = games > 0 ? score / games : 0;
+    console.log(`⚔️ ${agent.name} vs ${opponent.name}: ${score}/${games}`);
+    return { score: matchScore, games: results };
   }
 
   public saveAgentToStorage(agent: ChessAIAgent): void {
@@ -446,6 +698,20 @@ export class ChessTrainingEngine {
     return await this.learningEngine.loadPGNDatabase(pgnData, source);
   }
 
+  /**
+   * Add a game collection (e.g. an imported PgnGameStore) for literature training
+   */
+  public addGameCollection(collection: GameCollection, source: string = 'collection'): void {
+    this.learningEngine.addGameCollection(collection, source);
+  }
+
+  /**
+   * Opening explorer over the loaded games and collections
+   */
+  public explore(fen: string): ExplorerPosition | null {
+    return this.learningEngine.explore(fen);
+  }
+
   /**
    * Train agent from chess literature
    */
@@ -567,7 +833,7 @@ export class ChessTrainingEngine {
     program: {
       phase1: { books: ChessBook[]; games: number };
       phase2: { onlinePlatforms: string[]; gamesPerPlatform: number };
-      phase3: { tournamentRounds: number; opponents: ChessAIAgent[] };
+      phase3: { tournamentRounds: number; opponents: MoveProvider[] };
     }
   ): Promise<void> {
     console.log(`🎓 Starting Master Training Program for ${agent.name}`);
@@ -616,6 +882,13 @@ export class ChessTrainingEngine {
     console.log(`Knowledge Summary:`, agent.getKnowledgeSummary());
   }
 
+  /**
+   * Opponent for online games (random moves when null)
+   */
+  public setOnlineOpponent(opponent: MoveProvider | null): void {
+    this.learningEngine.setOnlineOpponent(opponent);
+  }
+
   /**
    * Get learning engine statistics
    */
@@ -0,0 +1,157 @@
+import { ZobristHash } from './Zobrist';
+
+/**
+ * Transposition Table
+ * Bounded, hash-indexed cache of search results shared across iterations and moves
+ */
+
+export type BoundType = 'exact' | 'lower' | 'upper';
+
+/**
+ * - always: every store overwrites the slot
+ * - depth-preferred: keep the deeper result unless the stored one is from an older search
+ * - two-tier: two slots per bucket, one depth-preferred and one always-replace
+ */
+export type ReplacementScheme = 'always' | 'depth-preferred' | 'two-tier';
+
+export interface TranspositionTableConfig {
+  size: number; // number of entries, rounded down to a power of two
+  replacement: ReplacementScheme;
+}
+
+export interface TranspositionEntry {
+  hashHi: number;
+  hashLo: number;
+  depth: number;
+  score: number;
+  bound: BoundType;
+  bestMove: string | null;
+  age: number;
+}
+
+export interface TranspositionTableStats {
+  size: number;
+  used: number;
+  probes: number;
+  hits: number;
+  stores: number;
+  overwrites: number;
+}
+
+export const DEFAULT_TRANSPOSITION_TABLE_CONFIG: TranspositionTableConfig = {
+  size: 1 << 18,
+  replacement: 'depth-preferred',
+};
+
+export class TranspositionTable {
+  private config: TranspositionTableConfig;
+  private entries: (TranspositionEntry | null)[];
+  private mask: number;
+  private age: number = 0;
+  private used: number = 0;
+  private stats = { probes: 0, hits: 0, stores: 0, overwrites: 0 };
+
+  constructor(config: Partial<TranspositionTableConfig> = {}) {
+    this.config = { ...DEFAULT_TRANSPOSITION_TABLE_CONFIG, ...config };
+
+    // Round down to a power of two so the index is a simple mask
+    const size = Math.max(2, 1 << Math.floor(Math.log2(Math.max(2, this.config.size))));
+    this.config.size = size;
+    this.mask = size - 1;
+    this.entries = new Array(size).fill(null);
+  }
+
+  public getConfig(): TranspositionTableConfig {
+    return { ...this.config };
+  }
+
+  /**
+   * Look up a position; returns null on a miss or a key collision
+   */
+  public probe(hash: ZobristHash): TranspositionEntry | null {
+    this.stats.probes++;
+
+    for (const index of this.slotsFor(hash)) {
+      const entry = this.entries[index];
+      if (entry && entry.hashHi === hash.hi && entry.hashLo === hash.lo) {
+        this.stats.hits++;
+        return entry;
+      }
+    }
+
+    return null;
+  }
+
+  public store(hash: ZobristHash, depth: number, score: number, bound: BoundType, bestMove: string | null): void {
+    const slots = this.slotsFor(hash);
+    let index = slots[0];
+
+    if (this.config.replacement === 'two-tier') {
+      // Deep results go to the first slot, everything else to the second
+      const primary = this.entries[slots[0]];
+      const samePosition = primary && primary.hashHi === hash.hi && primary.hashLo === hash.lo;
+      index = !primary || samePosition || this.shouldReplace(primary, depth) ? slots[0] : slots[1];
+    } else if (this.config.replacement === 'depth-preferred') {
+      const existing = this.entries[index];
+      const samePosition = existing && existing.hashHi === hash.hi && existing.hashLo === hash.lo;
+      if (existing && !samePosition && !this.shouldReplace(existing, depth)) {
+        return;
+      }
+    }
+
+    const existing = this.entries[index];
+    if (!existing) {
+      this.used++;
+    } else if (existing.hashHi !== hash.hi || existing.hashLo !== hash.lo) {
+      this.stats.overwrites++;
+    }
+
+    // Keep the previous best move when a shallower search at the same position has none
+    const keptMove = bestMove ?? (existing && existing.hashHi === hash.hi && existing.hashLo === hash.lo
+      ? existing.bestMove
+      : null);
+
+    this.entries[index] = {
+      hashHi: hash.hi,
+      hashLo: hash.lo,
+      depth,
+      score,
+      bound,
+      bestMove: keptMove,
+      age: this.age,
+    };
+    this.stats.stores++;
+  }
+
+  /**
+   * Mark the start of a new search so stale entries lose their priority
+   */
+  public newSearch(): void {
+    this.age++;
+  }
+
+  public clear(): void {
+    this.entries.fill(null);
+    this.age = 0;
+    this.used = 0;
+    this.stats = { probes: 0, hits: 0, stores: 0, overwrites: 0 };
+  }
+
+  public getStats(): TranspositionTableStats {
+    return { size: this.config.size, used: this.used, ...this.stats };
+  }
+
+  private shouldReplace(existing: TranspositionEntry, depth: number): boolean {
+    return existing.age !== this.age || depth >= existing.depth;
+  }
+
+  private slotsFor(hash: ZobristHash): number[] {
+    const index = hash.lo & this.mask;
+    if (this.config.replacement === 'two-tier') {
+      // Buckets of two adjacent slots
+      const bucket = index & ~1;
+      return [bucket, bucket + 1];
+    }
+    return [index];
+  }
+}
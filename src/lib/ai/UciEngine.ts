@@ -0,0 +1,223 @@
+import { Chess } from 'chess.js';
+import { ChessAIAgent, SearchLine, SearchAlgorithm } from './ChessAIAgent';
+import { SearchLimits } from './TimeManager';
+import { PERSONA_NAMES } from './Persona';
+import { MIN_STRENGTH_ELO, MAX_STRENGTH_ELO } from './StrengthLimiter';
+import {
+  EngineFrontend, START_FEN, DEFAULT_HASH_MB, DEFAULT_ENGINE_ELO,
+  sanToUci, playUciMove, pvToUci, sideToMoveScore,
+} from './EngineFrontend';
+
+/**
+ * UCI Engine
+ * Universal Chess Interface protocol handling for a ChessAIAgent, independent of
+ * the transport: feed it input lines, it writes responses through `output`
+ */
+
+export interface UciEngineInfo {
+  name: string;
+  author: string;
+}
+
+interface UciGoCommand {
+  limits: SearchLimits;
+  infinite: boolean;
+}
+
+export class UciEngine extends EngineFrontend {
+  private info: UciEngineInfo;
+
+  constructor(agent: ChessAIAgent, output: (line: string) => void, info: Partial<UciEngineInfo> = {}) {
+    super(agent, output);
+    this.info = { name: agent.name, author: 'AI Game Training Platform', ...info };
+  }
+
+  public async handleLine(line: string): Promise<boolean> {
+    const tokens = line.trim().split(/\s+/).filter(token => token.length > 0);
+    const command = tokens[0];
+
+    switch (command) {
+      case 'uci':
+        this.identify();
+        break;
+      case 'isready':
+        this.output('readyok');
+        break;
+      case 'ucinewgame':
+        await this.waitForSearch();
+        this.clearHash();
+        this.position = new Chess();
+        break;
+      case 'position':
+        await this.waitForSearch();
+        this.setPosition(tokens.slice(1));
+        break;
+      case 'go':
+        await this.waitForSearch();
+        this.go(this.parseGo(tokens.slice(1)));
+        break;
+      case 'stop':
+        this.requestStop();
+        await this.waitForSearch();
+        break;
+      case 'setoption':
+        await this.waitForSearch();
+        this.setOption(tokens.slice(1));
+        break;
+      case 'quit':
+        this.requestStop();
+        await this.waitForSearch();
+        return false;
+      default:
+        // Unknown commands (and `debug`, `register`, `ponderhit`) are ignored, as the protocol asks
+        break;
+    }
+
+    return true;
+  }
+
+  private identify(): void {
+    this.output(`id name ${this.info.name}`);
+    this.output(`id author ${this.info.author}`);
+    this.output(`option name Hash type spin default ${DEFAULT_HASH_MB} min 1 max 1024`);
+    this.output('option name OwnBook type check default true');
+    this.output('option name UCI_LimitStrength type check default false');
+    this.output(`option name UCI_Elo type spin default ${DEFAULT_ENGINE_ELO} min ${MIN_STRENGTH_ELO} max ${MAX_STRENGTH_ELO}`);
+    this.output(`option name Persona type combo default none var none ${PERSONA_NAMES.map(name => `var ${name}`).join(' ')}`);
+    this.output('option name SearchAlgorithm type combo default alphabeta var alphabeta var mcts');
+    this.output('option name SyzygyPath type string default <empty>');
+    this.output('uciok');
+  }
+
+  private setPosition(args: string[]): void {
+    const movesIndex = args.indexOf('moves');
+    const setup = movesIndex >= 0 ? args.slice(0, movesIndex) : args;
+    const moves = movesIndex >= 0 ? args.slice(movesIndex + 1) : [];
+
+    try {
+      this.position = new Chess(setup[0] === 'fen' ? setup.slice(1).join(' ') : START_FEN);
+    } catch {
+      this.output(`info string invalid position: ${setup.join(' ')}`);
+      this.position = new Chess();
+      return;
+    }
+
+    for (const move of moves) {
+      if (!playUciMove(this.position, move)) {
+        this.output(`info string illegal move ${move}`);
+        break;
+      }
+    }
+  }
+
+  private parseGo(args: string[]): UciGoCommand {
+    const value = (name: string): number | undefined => {
+      const index = args.indexOf(name);
+      const parsed = index >= 0 ? Number(args[index + 1]) : NaN;
+      return Number.isFinite(parsed) ? parsed : undefined;
+    };
+
+    const white = this.position.turn() === 'w';
+    const limits: SearchLimits = {
+      depth: value('depth'),
+      nodes: value('nodes'),
+      moveTime: value('movetime'),
+      timeRemaining: value(white ? 'wtime' : 'btime'),
+      increment: value(white ? 'winc' : 'binc'),
+      movesToGo: value('movestogo'),
+    };
+
+    return { limits, infinite: args.includes('infinite') };
+  }
+
+  private setOption(args: string[]): void {
+    const nameIndex = args.indexOf('name');
+    const valueIndex = args.indexOf('value');
+    if (nameIndex < 0) return;
+
+    const name = args.slice(nameIndex + 1, valueIndex >= 0 ? valueIndex : undefined).join(' ').toLowerCase();
+    const value = valueIndex >= 0 ? args.slice(valueIndex + 1).join(' ') : '';
+
+    switch (name) {
+      case 'hash':
+        this.setHashSize(Number(value));
+        break;
+      case 'ownbook':
+        this.setOwnBook(value === 'true');
+        break;
+      case 'uci_limitstrength':
+        this.setLimitStrength(value === 'true');
+        break;
+      case 'uci_elo':
+        this.setElo(Number(value));
+        break;
+      case 'persona':
+        this.setPersonaName(value);
+        break;
+      case 'searchalgorithm':
+        if (value === 'alphabeta' || value === 'mcts') {
+          this.agent.configureSearch({ algorithm: value as SearchAlgorithm });
+        }
+        break;
+      case 'syzygypath':
+        this.output(`info string found ${this.setSyzygyPath(value)} Syzygy tables`);
+        break;
+      default:
+        this.output(`info string unknown option ${name}`);
+    }
+  }
+
+  private go(go: UciGoCommand): void {
+    const position = new Chess(this.position.fen());
+    this.startSearch(
+      () => (go.infinite ? this.analyze(position) : this.play(position, go.limits)),
+      message => {
+        this.output(`info string search failed: ${message}`);
+        this.output('bestmove 0000');
+      }
+    );
+  }
+
+  /**
+   * Timed (or depth/node-limited) search: the agent's own move choice,
+   * with an info line per completed depth
+   */
+  private async play(position: Chess, limits: SearchLimits): Promise<void> {
+    if (position.isGameOver()) {
+      this.output('bestmove 0000');
+      return;
+    }
+
+    const decision = await this.agent.makeMove(position, limits, {
+      onIteration: iteration => this.reportLine(position, iteration.lines[0], iteration.depth, iteration.nodes, iteration.time),
+    });
+
+    // Book moves and MCTS searches have no iterations to report as they go
+    if (decision.source !== 'search') this.output(`info string ${decision.source} move`);
+    if (decision.source !== 'search' || this.agent.getSearchOptions().algorithm === 'mcts') {
+      this.reportLine(position, { move: decision.move, evaluation: decision.evaluation, pv: decision.pv }, decision.depth, decision.nodes, decision.thinkingTime);
+    }
+
+    this.output(`bestmove ${sanToUci(position, decision.move)}`);
+  }
+
+  /**
+   * `go infinite`: the protocol expects no bestmove before `stop`
+   */
+  private async analyze(position: Chess): Promise<void> {
+    const best = await this.analyzeUntilStopped(position.fen(), (line, depth, nodes, time) =>
+      this.reportLine(position, line, depth, nodes, time)
+    );
+    this.output(`bestmove ${best ? sanToUci(position, best.move) : '0000'}`);
+  }
+
+  private reportLine(position: Chess, line: SearchLine | undefined, depth: number, nodes: number, time: number): void {
+    if (!line) return;
+
+    const fen = position.fen();
+    const { score, mateIn } = sideToMoveScore(fen, line);
+    const scoreText = mateIn !== null ? `mate ${mateIn}` : `cp ${score}`;
+
+    this.output(`info depth ${depth} score ${scoreText} nodes ${nodes} time ${Math.round(time)} pv ${pvToUci(fen, line).join(' ')}`);
+  }
+}
@@ -0,0 +1,444 @@
+import { spawn, ChildProcess } from 'child_process';
+import { createInterface } from 'readline';
+import { Chess } from 'chess.js';
+import { MoveProvider, MoveDecision, MoveOptions, PositionAnalysis, SearchLine, SearchStatistics, MATE_SCORE } from './ChessAIAgent';
+import { SearchLimits } from './TimeManager';
+import { playUciMove } from './EngineFrontend';
+
+/**
+ * UCI Engine Opponent
+ * An external UCI engine run as a child process (Node only), usable wherever a
+ * ChessAIAgent chooses moves: as a training opponent or as a reference analyser
+ */
+
+export type UciOptionValue = string | number | boolean;
+
+export interface UciEngineOpponentConfig {
+  args: string[]; // command line arguments of the engine binary
+  name?: string; // display name (the engine's own `id name` when not set)
+  options: { [name: string]: UciOptionValue }; // sent with `setoption` after the handshake
+  defaultLimits: SearchLimits; // used when a move is requested without limits
+  maxSearchTime: number; // ms; depth- and node-limited searches are stopped after this
+  responseTimeout: number; // ms allowed for handshake replies, and for `bestmove` after the time is up
+}
+
+export interface UciInfo {
+  depth: number;
+  multipv: number;
+  score: number; // centipawns for the side to move (±MATE_SCORE less the plies to mate for mates)
+  mate: number | null; // moves to mate, negative when being mated
+  nodes: number;
+  pv: string[]; // UCI notation
+}
+
+interface LineWaiter {
+  predicate: (line: string) => boolean;
+  resolve: (line: string) => void;
+  reject: (error: Error) => void;
+  timer: ReturnType<typeof setTimeout> | null;
+}
+
+export const DEFAULT_UCI_OPPONENT_CONFIG: UciEngineOpponentConfig = {
+  args: [],
+  options: {},
+  defaultLimits: { moveTime: 1000 },
+  maxSearchTime: 60000,
+  responseTimeout: 10000,
+};
+
+/**
+ * Fields of an `info` line; null for lines without a score or principal variation
+ * (currmove updates, strings) and for bound-only scores of aspiration re-searches
+ */
+export function parseUciInfo(line: string): UciInfo | null {
+  const tokens = line.trim().split(/\s+/);
+  if (tokens[0] !== 'info' || tokens.includes('lowerbound') || tokens.includes('upperbound')) return null;
+
+  const info: UciInfo = { depth: 0, multipv: 1, score: 0, mate: null, nodes: 0, pv: [] };
+  let scored = false;
+
+  for (let i = 1; i < tokens.length; i++) {
+    switch (tokens[i]) {
+      case 'depth':
+        info.depth = Number(tokens[++i]) || 0;
+        break;
+      case 'multipv':
+        info.multipv = Number(tokens[++i]) || 1;
+        break;
+      case 'nodes':
+        info.nodes = Number(tokens[++i]) || 0;
+        break;
+      case 'score': {
+        const kind = tokens[++i];
+        const value = Number(tokens[++i]) || 0;
+        scored = true;
+        if (kind === 'mate') {
+          info.mate = value;
+          // Mate in n moves is 2n - 1 plies away; being mated in n, 2n
+          info.score = value > 0 ? MATE_SCORE - (2 * value - 1) : -(MATE_SCORE + 2 * value);
+        } else {
+          info.score = value;
+        }
+        break;
+      }
+      case 'pv':
+        info.pv = tokens.slice(i + 1);
+        i = tokens.length;
+        break;
+      case 'string':
+        i = tokens.length;
+        break;
+    }
+  }
+
+  return scored && info.pv.length > 0 ? info : null;
+}
+
+export class UciEngineOpponent implements MoveProvider {
+  public id: string;
+  public name: string;
+  public readonly path: string;
+  private config: UciEngineOpponentConfig;
+  private process: ChildProcess | null = null;
+  private starting: Promise<void> | null = null;
+  private waiters: LineWaiter[] = [];
+  private lineHandlers: ((line: string) => void)[] = [];
+  private engineOptions: Set<string> = new Set(); // lower-cased option names the engine declared
+  private multiPv: number = 1;
+  private queue: Promise<unknown> = Promise.resolve(); // one command exchange at a time
+
+  constructor(id: string, path: string, config: Partial<UciEngineOpponentConfig> = {}) {
+    this.id = id;
+    this.path = path;
+    this.config = { ...DEFAULT_UCI_OPPONENT_CONFIG, ...config };
+    this.name = this.config.name || path;
+  }
+
+  public getConfig(): UciEngineOpponentConfig {
+    return { ...this.config, options: { ...this.config.options } };
+  }
+
+  public get isRunning(): boolean {
+    return this.process !== null;
+  }
+
+  /**
+   * Spawn the engine and complete the handshake (done on first use otherwise)
+   */
+  public start(): Promise<void> {
+    if (!this.starting) {
+      this.starting = this.launch().catch(error => {
+        this.starting = null;
+        this.terminate();
+        throw error;
+      });
+    }
+    return this.starting;
+  }
+
+  /**
+   * Set an option now (the engine is started if needed) and on later restarts
+   */
+  public async setOption(name: string, value: UciOptionValue): Promise<void> {
+    this.config.options = { ...this.config.options, [name]: value };
+    await this.start();
+    await this.exclusive(async () => {
+      this.send(`setoption name ${name} value ${value}`);
+      await this.ready();
+    });
+  }
+
+  /**
+   * Tell the engine a new game starts (clears its hash and history heuristics)
+   */
+  public async newGame(): Promise<void> {
+    await this.start();
+    await this.exclusive(async () => {
+      this.send('ucinewgame');
+      await this.ready();
+    });
+  }
+
+  public async makeMove(chess: Chess, limits: SearchLimits = {}, options: MoveOptions = {}): Promise<MoveDecision> {
+    if (chess.isGameOver()) throw new Error('No legal moves available');
+    await this.start();
+
+    // The game so far is sent as moves from its first position, so the engine sees repetitions
+    const history = chess.history({ verbose: true });
+    const rootFen = history.length > 0 ? history[0].before : chess.fen();
+    const moves = history.map(move => move.from + move.to + (move.promotion || ''));
+    const searchLimits = Object.keys(limits).length > 0 ? limits : this.config.defaultLimits;
+    const fen = chess.fen();
+    const startTime = Date.now();
+
+    const { bestmove, infos } = await this.exclusive(() =>
+      this.search(`position fen ${rootFen}${moves.length > 0 ? ` moves ${moves.join(' ')}` : ''}`, searchLimits, 1,
+        options.onIteration ? info => {
+          const line = this.toSearchLine(fen, info);
+          if (line) options.onIteration!({ depth: info.depth, lines: [line], nodes: info.nodes, time: Date.now() - startTime });
+        } : undefined)
+    );
+
+    const position = new Chess(fen);
+    const move = sanFromUci(position, bestmove);
+    if (!move) throw new Error(`${this.name} played an illegal move: ${bestmove}`);
+
+    const info = infos.get(1);
+    const line = info ? this.toSearchLine(fen, info) : null;
+    const pv = line && line.move === move ? line.pv : [move];
+    for (const san of pv) position.move(san);
+
+    return {
+      move,
+      evaluation: line ? line.evaluation : 0,
+      thinkingTime: Date.now() - startTime,
+      depth: info ? info.depth : 0,
+      nodes: info ? info.nodes : 0,
+      pv,
+      leafPosition: position.fen(),
+      searchStats: searchStatistics(info ? info.nodes : 0),
+      source: 'search',
+    };
+  }
+
+  /**
+   * Multi-PV analysis by the engine, in the same shape as ChessAIAgent.analyzePosition
+   */
+  public async analyzePosition(fen: string, limits: SearchLimits = {}, lineCount: number = 1): Promise<PositionAnalysis> {
+    const chess = new Chess(fen);
+    if (chess.isGameOver()) {
+      return { fen: chess.fen(), lines: [], depth: 0, nodes: 0, time: 0, searchStats: searchStatistics(0) };
+    }
+    await this.start();
+
+    const startTime = Date.now();
+    const searchLimits = Object.keys(limits).length > 0 ? limits : this.config.defaultLimits;
+    const { infos } = await this.exclusive(() =>
+      this.search(`position fen ${chess.fen()}`, searchLimits, Math.max(1, lineCount))
+    );
+
+    const ranked = Array.from(infos.values()).sort((a, b) => a.multipv - b.multipv);
+    const lines = ranked
+      .map(info => this.toSearchLine(chess.fen(), info))
+      .filter((line): line is SearchLine => line !== null);
+    const nodes = ranked.reduce((most, info) => Math.max(most, info.nodes), 0);
+
+    return {
+      fen: chess.fen(),
+      lines,
+      depth: ranked.length > 0 ? Math.min(...ranked.map(info => info.depth)) : 0,
+      nodes,
+      time: Date.now() - startTime,
+      searchStats: searchStatistics(nodes),
+    };
+  }
+
+  /**
+   * Ask the engine to quit, killing it if it does not exit in time
+   */
+  public async quit(): Promise<void> {
+    const child = this.process;
+    if (!child) return;
+
+    await new Promise<void>(resolve => {
+      const timer = setTimeout(() => {
+        child.kill();
+        resolve();
+      }, this.config.responseTimeout);
+      child.once('exit', () => {
+        clearTimeout(timer);
+        resolve();
+      });
+      this.send('quit');
+    });
+    this.terminate();
+  }
+
+  private async launch(): Promise<void> {
+    const child = spawn(this.path, this.config.args, { stdio: ['pipe', 'pipe', 'ignore'] });
+    this.process = child;
+
+    const failed = new Promise<never>((_, reject) => {
+      child.once('error', error => reject(new Error(`Cannot start UCI engine ${this.path}: ${error.message}`)));
+    });
+    child.on('error', () => this.terminate());
+    child.on('exit', () => this.terminate());
+    createInterface({ input: child.stdout! }).on('line', line => this.receive(line));
+
+    // Handshake: identification and declared options up to `uciok`
+    const handshake = this.collect('uciok', line => {
+      const name = line.match(/^id name (.+)$/);
+      if (name && !this.config.name) this.name = name[1].trim();
+      const option = line.match(/^option name (.+?) type /);
+      if (option) this.engineOptions.add(option[1].toLowerCase());
+    });
+    this.send('uci');
+    await Promise.race([handshake, failed]);
+
+    for (const [name, value] of Object.entries(this.config.options)) {
+      this.send(`setoption name ${name} value ${value}`);
+    }
+    this.multiPv = 1;
+    await Promise.race([this.ready(), failed]);
+  }
+
+  /**
+   * One `go`: the last info per multi-PV index and the reply to `bestmove`
+   */
+  private async search(
+    position: string,
+    limits: SearchLimits,
+    lineCount: number,
+    onInfo?: (info: UciInfo) => void
+  ): Promise<{ bestmove: string; infos: Map<number, UciInfo> }> {
+    if (lineCount !== this.multiPv && this.engineOptions.has('multipv')) {
+      this.send(`setoption name MultiPV value ${lineCount}`);
+      this.multiPv = lineCount;
+    }
+
+    const infos = new Map<number, UciInfo>();
+    const reply = this.collect('bestmove', line => {
+      const info = parseUciInfo(line);
+      if (!info || info.multipv > lineCount) return;
+      infos.set(info.multipv, info);
+      if (info.multipv === 1 && onInfo) onInfo(info);
+    }, null);
+
+    // Stop searches that run past their budget; give up when even `stop` goes unanswered
+    const budget = limits.moveTime ?? limits.timeRemaining ?? this.config.maxSearchTime;
+    const stopTimer = setTimeout(() => this.send('stop'), budget + this.config.responseTimeout);
+    const abortTimer = setTimeout(() => this.rejectWaiters(new Error(`${this.name} did not answer go`)), budget + 2 * this.config.responseTimeout);
+
+    this.send(position);
+    this.send(goCommand(limits));
+
+    try {
+      const line = await reply;
+      return { bestmove: line.split(/\s+/)[1] || '', infos };
+    } finally {
+      clearTimeout(stopTimer);
+      clearTimeout(abortTimer);
+    }
+  }
+
+  private ready(): Promise<string> {
+    const reply = this.waitFor(line => line === 'readyok', this.config.responseTimeout);
+    this.send('isready');
+    return reply;
+  }
+
+  /**
+   * Wait for a line starting with `terminator`, passing every line before it to `onLine`
+   */
+  private collect(terminator: string, onLine: (line: string) => void, timeout: number | null = this.config.responseTimeout): Promise<string> {
+    this.lineHandlers.push(onLine);
+    return this.waitFor(line => line === terminator || line.startsWith(terminator + ' '), timeout).finally(() => {
+      this.lineHandlers = this.lineHandlers.filter(handler => handler !== onLine);
+    });
+  }
+
+  private waitFor(predicate: (line: string) => boolean, timeout: number | null): Promise<string> {
+    return new Promise((resolve, reject) => {
+      if (!this.process) {
+        reject(new Error(`UCI engine ${this.name} is not running`));
+        return;
+      }
+      const waiter: LineWaiter = { predicate, resolve, reject, timer: null };
+      if (timeout !== null) {
+        waiter.timer = setTimeout(() => {
+          this.waiters = this.waiters.filter(w => w !== waiter);
+          reject(new Error(`UCI engine ${this.name} did not respond in ${timeout}ms`));
+        }, timeout);
+      }
+      this.waiters.push(waiter);
+    });
+  }
+
+  private receive(rawLine: string): void {
+    const line = rawLine.trim();
+    if (!line) return;
+
+    for (const handler of this.lineHandlers) handler(line);
+    const matched = this.waiters.filter(waiter => waiter.predicate(line));
+    this.waiters = this.waiters.filter(waiter => !matched.includes(waiter));
+    for (const waiter of matched) {
+      if (waiter.timer) clearTimeout(waiter.timer);
+      waiter.resolve(line);
+    }
+  }
+
+  private send(command: string): void {
+    if (this.process && this.process.stdin && this.process.stdin.writable) {
+      this.process.stdin.write(command + '\n');
+    }
+  }
+
+  private exclusive<T>(task: () => Promise<T>): Promise<T> {
+    const result = this.queue.then(task, task);
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+
+  private rejectWaiters(error: Error): void {
+    const waiters = this.waiters;
+    this.waiters = [];
+    for (const waiter of waiters) {
+      if (waiter.timer) clearTimeout(waiter.timer);
+      waiter.reject(error);
+    }
+  }
+
+  /**
+   * Forget the process (after it exited or failed); the next request restarts it
+   */
+  private terminate(): void {
+    if (!this.process) return;
+    this.process = null;
+    this.starting = null;
+    this.lineHandlers = [];
+    this.rejectWaiters(new Error(`UCI engine ${this.name} exited`));
+  }
+
+  private toSearchLine(fen: string, info: UciInfo): SearchLine | null {
+    const board = new Chess(fen);
+    const pv: string[] = [];
+    for (const uci of info.pv) {
+      const san = sanFromUci(board, uci);
+      if (!san) break;
+      pv.push(san);
+      board.move(san);
+    }
+    if (pv.length === 0) return null;
+
+    // Engines score for the side to move, agents from White's point of view
+    const evaluation = fen.split(' ')[1] === 'b' ? -info.score : info.score;
+    return { move: pv[0], evaluation, pv };
+  }
+}
+
+function goCommand(limits: SearchLimits): string {
+  const parts = ['go'];
+  if (limits.timeRemaining !== undefined && Number.isFinite(limits.timeRemaining)) {
+    const time = Math.max(1, Math.round(limits.timeRemaining));
+    const increment = Math.round(limits.increment || 0);
+    // The opponent's clock is not known here; the engine only budgets its own
+    parts.push(`wtime ${time} btime ${time}`);
+    if (increment > 0) parts.push(`winc ${increment} binc ${increment}`);
+    if (limits.movesToGo) parts.push(`movestogo ${limits.movesToGo}`);
+  }
+  if (limits.moveTime !== undefined) parts.push(`movetime ${Math.max(1, Math.round(limits.moveTime))}`);
+  if (limits.depth !== undefined) parts.push(`depth ${limits.depth}`);
+  if (limits.nodes !== undefined) parts.push(`nodes ${limits.nodes}`);
+  if (parts.length === 1) parts.push(`movetime ${DEFAULT_UCI_OPPONENT_CONFIG.defaultLimits.moveTime}`);
+  return parts.join(' ');
+}
+
+function sanFromUci(chess: Chess, uci: string): string | null {
+  if (!playUciMove(chess, uci)) return null;
+  const move = chess.undo();
+  return move ? move.san : null;
+}
+
+function searchStatistics(nodes: number): SearchStatistics {
+  return { mainNodes: nodes, quiescenceNodes: 0, transpositionCutoffs: 0, betaCutoffs: 0, firstMoveCutoffs: 0 };
+}
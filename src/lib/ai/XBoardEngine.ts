@@ -0,0 +1,337 @@
+import { Chess } from 'chess.js';
+import { ChessAIAgent, SearchLine, SearchAlgorithm } from './ChessAIAgent';
+import { SearchLimits } from './TimeManager';
+import { PERSONA_NAMES } from './Persona';
+import { MIN_STRENGTH_ELO, MAX_STRENGTH_ELO } from './StrengthLimiter';
+import { EngineFrontend, DEFAULT_ENGINE_ELO, sanToUci, playUciMove, sideToMoveScore } from './EngineFrontend';
+
+/**
+ * XBoard Engine
+ * Chess Engine Communication Protocol (CECP, protocol version 2) handling for a
+ * ChessAIAgent, for XBoard-family GUIs and ICS servers (FICS, ICC) reached through them
+ */
+
+export interface XBoardClock {
+  movesPerControl: number; // `level` MPS; 0 = the whole game
+  base: number; // ms per control
+  increment: number; // ms per move
+  secondsPerMove: number | null; // `st`: fixed time per move
+  depth: number | null; // `sd`: depth limit
+  engineTime: number | null; // ms left on the engine's clock (`time`)
+  opponentTime: number | null; // ms left on the opponent's clock (`otim`)
+}
+
+// Mate scores in thinking output: 100000 + moves to mate
+const XBOARD_MATE_SCORE = 100000;
+
+const DEFAULT_CLOCK: XBoardClock = {
+  movesPerControl: 40,
+  base: 5 * 60 * 1000,
+  increment: 0,
+  secondsPerMove: null,
+  depth: null,
+  engineTime: null,
+  opponentTime: null,
+};
+
+const COORDINATE_MOVE = /^[a-h][1-8][a-h][1-8][qrbn]?$/;
+
+/**
+ * `level` base time, "MM" or "MM:SS", in ms
+ */
+function parseBaseTime(text: string): number {
+  const [minutes, seconds] = text.split(':').map(Number);
+  return ((minutes || 0) * 60 + (seconds || 0)) * 1000;
+}
+
+export class XBoardEngine extends EngineFrontend {
+  private name: string;
+  private forceMode: boolean = false;
+  private engineSide: 'w' | 'b' = 'b';
+  private post: boolean = false;
+  private clock: XBoardClock = { ...DEFAULT_CLOCK };
+  private gameId: number = 0; // bumped when the game changes under a running search
+
+  constructor(agent: ChessAIAgent, output: (line: string) => void, name: string = agent.name) {
+    super(agent, output);
+    this.name = name;
+  }
+
+  public getClock(): XBoardClock {
+    return { ...this.clock };
+  }
+
+  public async handleLine(line: string): Promise<boolean> {
+    const tokens = line.trim().split(/\s+/).filter(token => token.length > 0);
+    const command = tokens[0];
+    const argument = tokens.slice(1).join(' ');
+
+    switch (command) {
+      case undefined:
+      case 'xboard':
+      case 'accepted':
+      case 'rejected':
+        break;
+      case 'protover':
+        this.sendFeatures();
+        break;
+      case 'new':
+        await this.abandonSearch();
+        this.position = new Chess();
+        this.forceMode = false;
+        this.engineSide = 'b';
+        this.clock = { ...this.clock, depth: null, engineTime: null, opponentTime: null };
+        this.clearHash();
+        break;
+      case 'variant':
+        if (argument !== 'normal') this.output(`Error (unsupported variant): ${argument}`);
+        break;
+      case 'force':
+        await this.abandonSearch();
+        this.forceMode = true;
+        break;
+      case 'go':
+        await this.waitForSearch();
+        this.forceMode = false;
+        this.engineSide = this.position.turn();
+        this.think();
+        break;
+      case 'playother':
+        await this.waitForSearch();
+        this.forceMode = false;
+        this.engineSide = this.position.turn() === 'w' ? 'b' : 'w';
+        break;
+      case 'usermove':
+        await this.userMove(tokens[1] || '');
+        break;
+      case 'setboard':
+        await this.abandonSearch();
+        try {
+          this.position = new Chess(argument);
+        } catch {
+          this.output(`tellusererror Illegal position: ${argument}`);
+        }
+        break;
+      case 'undo':
+      case 'remove':
+        await this.abandonSearch();
+        for (let i = command === 'undo' ? 1 : 2; i > 0; i--) this.position.undo();
+        break;
+      case 'level':
+        this.clock = {
+          ...this.clock,
+          movesPerControl: Number(tokens[1]) || 0,
+          base: parseBaseTime(tokens[2] || '0'),
+          increment: (Number(tokens[3]) || 0) * 1000,
+          secondsPerMove: null,
+        };
+        break;
+      case 'st':
+        this.clock.secondsPerMove = Number(tokens[1]) || null;
+        break;
+      case 'sd':
+        this.clock.depth = Number(tokens[1]) || null;
+        break;
+      case 'time':
+        this.clock.engineTime = (Number(tokens[1]) || 0) * 10; // centiseconds
+        break;
+      case 'otim':
+        this.clock.opponentTime = (Number(tokens[1]) || 0) * 10;
+        break;
+      case 'ping':
+        await this.waitForSearch(); // a move being thought about comes before the pong
+        this.output(`pong ${tokens[1] || ''}`.trim());
+        break;
+      case '?':
+        this.requestStop(); // "move now"
+        break;
+      case 'result':
+        await this.abandonSearch();
+        this.forceMode = true;
+        break;
+      case 'post':
+        this.post = true;
+        break;
+      case 'nopost':
+        this.post = false;
+        break;
+      case 'memory':
+        this.setHashSize(Number(tokens[1]));
+        break;
+      case 'option':
+        this.setOption(argument);
+        break;
+      case 'egtpath':
+        // `egtpath syzygy PATH`; other tablebase formats are not read
+        if (tokens[1] === 'syzygy') this.setSyzygyPath(tokens.slice(2).join(' '));
+        break;
+      case 'quit':
+        await this.abandonSearch();
+        return false;
+      default:
+        // Moves come without `usermove` when the GUI did not accept that feature
+        if (COORDINATE_MOVE.test(command)) {
+          await this.userMove(command);
+        } else if (!['hard', 'easy', 'random', 'computer', 'name', 'rating', 'ics', 'draw', 'hint', 'bk', 'cores'].includes(command)) {
+          this.output(`Error (unknown command): ${command}`);
+        }
+    }
+
+    return true;
+  }
+
+  /**
+   * Search limits from the clock: a fixed time per move, or the engine's clock
+   * with the moves left until the next time control
+   */
+  public searchLimits(): SearchLimits {
+    const limits: SearchLimits = {};
+    if (this.clock.depth !== null) limits.depth = this.clock.depth;
+
+    if (this.clock.secondsPerMove !== null) {
+      limits.moveTime = this.clock.secondsPerMove * 1000;
+      return limits;
+    }
+
+    limits.timeRemaining = this.clock.engineTime ?? this.clock.base;
+    limits.increment = this.clock.increment;
+    if (this.clock.movesPerControl > 0) {
+      const movesPlayed = this.position.moveNumber() - 1;
+      limits.movesToGo = this.clock.movesPerControl - (movesPlayed % this.clock.movesPerControl);
+    }
+    return limits;
+  }
+
+  private sendFeatures(): void {
+    const personas = ['none', ...PERSONA_NAMES].map((name, i) => (i === 0 ? `*${name}` : name)).join(' /// ');
+    const features = [
+      `myname="${this.name}"`,
+      'ping=1', 'setboard=1', 'playother=1', 'usermove=1', 'san=0', 'time=1', 'draw=0',
+      'sigint=0', 'sigterm=0', 'reuse=1', 'analyze=0', 'colors=0', 'name=0', 'ics=0', 'memory=1',
+      'variants="normal"',
+      'egt="syzygy"',
+      'option="Own book -check 1"',
+      'option="Limit strength -check 0"',
+      `option="Elo -spin ${DEFAULT_ENGINE_ELO} ${MIN_STRENGTH_ELO} ${MAX_STRENGTH_ELO}"`,
+      `option="Persona -combo ${personas}"`,
+      'option="Search algorithm -combo *alphabeta /// mcts"',
+    ];
+    this.output(`feature ${features.join(' ')}`);
+    this.output('feature done=1');
+  }
+
+  /**
+   * `option NAME=VALUE`, for the options announced in the features
+   */
+  private setOption(argument: string): void {
+    const separator = argument.indexOf('=');
+    const name = (separator >= 0 ? argument.slice(0, separator) : argument).trim().toLowerCase();
+    const value = separator >= 0 ? argument.slice(separator + 1).trim() : '';
+
+    switch (name) {
+      case 'own book':
+        this.setOwnBook(value === '1');
+        break;
+      case 'limit strength':
+        this.setLimitStrength(value === '1');
+        break;
+      case 'elo':
+        this.setElo(Number(value));
+        break;
+      case 'persona':
+        this.setPersonaName(value);
+        break;
+      case 'search algorithm':
+        if (value === 'alphabeta' || value === 'mcts') {
+          this.agent.configureSearch({ algorithm: value as SearchAlgorithm });
+        }
+        break;
+      default:
+        this.output(`Error (unknown option): ${name}`);
+    }
+  }
+
+  private async userMove(move: string): Promise<void> {
+    await this.abandonSearch();
+    if (!COORDINATE_MOVE.test(move) || !playUciMove(this.position, move)) {
+      this.output(`Illegal move: ${move}`);
+      return;
+    }
+
+    if (this.announceResult()) return;
+    if (!this.forceMode && this.position.turn() === this.engineSide) this.think();
+  }
+
+  /**
+   * Search and play the engine's move, unless the game changes meanwhile
+   */
+  private think(): void {
+    if (this.position.isGameOver()) {
+      this.announceResult();
+      return;
+    }
+
+    const gameId = this.gameId;
+    const position = new Chess(this.position.fen());
+    const limits = this.searchLimits();
+
+    this.startSearch(async () => {
+      const decision = await this.agent.makeMove(position, limits, {
+        onIteration: iteration => this.reportThinking(position.fen(), iteration.lines[0], iteration.depth, iteration.nodes, iteration.time),
+      });
+      if (gameId !== this.gameId) return;
+
+      const move = sanToUci(position, decision.move);
+      if (!move) throw new Error(`illegal move ${decision.move}`);
+      this.position.move(decision.move);
+      this.output(`move ${move}`);
+      this.announceResult();
+    }, message => {
+      this.output(`Error (search failed): ${message}`);
+    });
+  }
+
+  /**
+   * Thinking output (when `post` is on): ply, score in centipawns for the engine,
+   * time in centiseconds, nodes and the principal variation
+   */
+  private reportThinking(fen: string, line: SearchLine | undefined, depth: number, nodes: number, time: number): void {
+    if (!this.post || !line) return;
+
+    const { score, mateIn } = sideToMoveScore(fen, line);
+    const shown = mateIn !== null ? Math.sign(mateIn) * (XBOARD_MATE_SCORE + Math.abs(mateIn)) : score;
+    this.output(`${depth} ${shown} ${Math.round(time / 10)} ${nodes} ${line.pv.join(' ')}`);
+  }
+
+  /**
+   * Send the result when the game is over (true), and stop playing
+   */
+  private announceResult(): boolean {
+    const chess = this.position;
+    if (!chess.isGameOver()) return false;
+
+    if (chess.isCheckmate()) {
+      this.output(chess.turn() === 'b' ? '1-0 {White mates}' : '0-1 {Black mates}');
+    } else if (chess.isStalemate()) {
+      this.output('1/2-1/2 {Stalemate}');
+    } else if (chess.isInsufficientMaterial()) {
+      this.output('1/2-1/2 {Insufficient material}');
+    } else if (chess.isThreefoldRepetition()) {
+      this.output('1/2-1/2 {Draw by repetition}');
+    } else {
+      this.output('1/2-1/2 {Draw by 50 move rule}');
+    }
+    this.forceMode = true;
+    return true;
+  }
+
+  /**
+   * Let a running search finish without playing its move
+   */
+  private async abandonSearch(): Promise<void> {
+    if (!this.isSearching) return;
+    this.gameId++;
+    this.requestStop();
+    await this.waitForSearch();
+  }
+}
@@ -0,0 +1,164 @@
+import { Chess, Move } from 'chess.js';
+
+/**
+ * Zobrist Hashing
+ * 64-bit position keys (stored as two 32-bit halves) with incremental updates per move
+ */
+
+export interface ZobristHash {
+  hi: number;
+  lo: number;
+}
+
+// Key layout: 12 piece kinds x 64 squares, 4 castling rights, 8 en-passant files, side to move
+const PIECE_KEYS = 0;
+const CASTLING_KEYS = 768;
+const EN_PASSANT_KEYS = 772;
+const TURN_KEY = 780;
+const KEY_COUNT = 781;
+
+const PIECE_ORDER = 'pnbrqk';
+const CASTLING_ORDER = 'KQkq';
+
+export class ZobristHasher {
+  private keysHi: Uint32Array;
+  private keysLo: Uint32Array;
+
+  /**
+   * Keys are generated from a fixed seed so hashes stay stable across sessions
+   * and can be persisted alongside agent knowledge
+   */
+  constructor(seed: number = 0x2545f491) {
+    this.keysHi = new Uint32Array(KEY_COUNT);
+    this.keysLo = new Uint32Array(KEY_COUNT);
+
+    let state = seed >>> 0;
+    const next = (): number => {
+      // splitmix32
+      state = (state + 0x9e3779b9) >>> 0;
+      let z = state;
+      z = Math.imul(z ^ (z >>> 16), 0x85ebca6b) >>> 0;
+      z = Math.imul(z ^ (z >>> 13), 0xc2b2ae35) >>> 0;
+      return (z ^ (z >>> 16)) >>> 0;
+    };
+
+    for (let i = 0; i < KEY_COUNT; i++) {
+      this.keysHi[i] = next();
+      this.keysLo[i] = next();
+    }
+  }
+
+  /**
+   * Compute the hash of a position from scratch
+   */
+  public hashPosition(chess: Chess): ZobristHash {
+    return this.hashFen(chess.fen());
+  }
+
+  public hashFen(fen: string): ZobristHash {
+    const [placement, turn, castling, enPassant] = fen.split(' ');
+    const hash: ZobristHash = { hi: 0, lo: 0 };
+
+    const rows = placement.split('/');
+    for (let row = 0; row < 8; row++) {
+      let file = 0;
+      for (const char of rows[row]) {
+        if (char >= '1' && char <= '8') {
+          file += parseInt(char);
+        } else {
+          const color = char === char.toUpperCase() ? 'w' : 'b';
+          this.toggle(hash, this.pieceKey(char.toLowerCase(), color, file + (7 - row) * 8));
+          file++;
+        }
+      }
+    }
+
+    this.toggleCastling(hash, castling);
+    this.toggleEnPassant(hash, enPassant);
+    if (turn === 'w') this.toggle(hash, TURN_KEY);
+
+    return hash;
+  }
+
+  /**
+   * Derive the hash after a move from the hash before it.
+   * Castling and en-passant state are read from the move's before/after FENs.
+   */
+  public updateHash(hash: ZobristHash, move: Move): ZobristHash {
+    const next: ZobristHash = { hi: hash.hi, lo: hash.lo };
+    const from = this.squareIndex(move.from);
+    const to = this.squareIndex(move.to);
+
+    // Moving piece leaves its origin square
+    this.toggle(next, this.pieceKey(move.piece, move.color, from));
+    this.toggle(next, this.pieceKey(move.promotion || move.piece, move.color, to));
+
+    if (move.captured) {
+      const opponent = move.color === 'w' ? 'b' : 'w';
+      // En-passant captures remove the pawn behind the target square
+      const captureSquare = move.flags.includes('e')
+        ? to + (move.color === 'w' ? -8 : 8)
+        : to;
+      this.toggle(next, this.pieceKey(move.captured, opponent, captureSquare));
+    }
+
+    if (move.flags.includes('k') || move.flags.includes('q')) {
+      // Castling also moves the rook
+      const rank = move.color === 'w' ? 0 : 56;
+      const [rookFrom, rookTo] = move.flags.includes('k') ? [rank + 7, rank + 5] : [rank, rank + 3];
+      this.toggle(next, this.pieceKey('r', move.color, rookFrom));
+      this.toggle(next, this.pieceKey('r', move.color, rookTo));
+    }
+
+    const [, , castlingBefore, enPassantBefore] = move.before.split(' ');
+    const [, , castlingAfter, enPassantAfter] = move.after.split(' ');
+
+    if (castlingBefore !== castlingAfter) {
+      this.toggleCastling(next, castlingBefore);
+      this.toggleCastling(next, castlingAfter);
+    }
+    this.toggleEnPassant(next, enPassantBefore);
+    this.toggleEnPassant(next, enPassantAfter);
+    this.toggle(next, TURN_KEY);
+
+    return next;
+  }
+
+  /**
+   * Hex representation, cheap to use as a Map key
+   */
+  public static toKey(hash: ZobristHash): string {
+    return hash.hi.toString(16).padStart(8, '0') + hash.lo.toString(16).padStart(8, '0');
+  }
+
+  public static equals(a: ZobristHash, b: ZobristHash): boolean {
+    return a.hi === b.hi && a.lo === b.lo;
+  }
+
+  private toggle(hash: ZobristHash, keyIndex: number): void {
+    hash.hi = (hash.hi ^ this.keysHi[keyIndex]) >>> 0;
+    hash.lo = (hash.lo ^ this.keysLo[keyIndex]) >>> 0;
+  }
+
+  private toggleCastling(hash: ZobristHash, castling: string): void {
+    if (castling === '-') return;
+    for (const right of castling) {
+      const index = CASTLING_ORDER.indexOf(right);
+      if (index >= 0) this.toggle(hash, CASTLING_KEYS + index);
+    }
+  }
+
+  private toggleEnPassant(hash: ZobristHash, enPassant: string): void {
+    if (!enPassant || enPassant === '-') return;
+    this.toggle(hash, EN_PASSANT_KEYS + enPassant.charCodeAt(0) - 97);
+  }
+
+  private pieceKey(piece: string, color: string, square: number): number {
+    const kind = PIECE_ORDER.indexOf(piece) * 2 + (color === 'w' ? 1 : 0);
+    return PIECE_KEYS + kind * 64 + square;
+  }
+
+  private squareIndex(square: string): number {
+    return (square.charCodeAt(1) - 49) * 8 + (square.charCodeAt(0) - 97);
+  }
+}
@@ -0,0 +1,307 @@
+import { Chess } from 'chess.js';
+import { UciEngineOpponent, parseUciInfo } from '../lib/ai/UciEngineOpponent';
+import { ChessTrainingEngine } from '../lib/ai/TrainingEngine';
+import { ChessLearningEngine } from '../lib/ai/ChessLearningEngine';
+import { parsePgn } from '../lib/ai/PgnParser';
+import { PgnGameStore, importPgnFile, importPgnStream } from '../lib/ai/PgnGameStore';
+import { StoredPositionIndex } from '../lib/ai/StoredPositionIndex';
+import { SyzygyTablebase } from '../lib/ai/SyzygyTablebase';
+import { syzygyDirectorySource } from '../lib/ai/SyzygyFiles';
+import { UciEngine } from '../lib/ai/UciEngine';
+import { mkdirSync, mkdtempSync, readdirSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { delimiter, join } from 'path';
+
+// Validation of the Node-only parts: external engine processes and files on
+// disk. AITrainingValidator also runs in the browser, so these live apart:
+//   npm run validate-node
+export class NodeValidator {
+
+  /**
+   * Test 1: UCI Engine Opponent
+   */
+  static async testUciEngineOpponent(): Promise<boolean> {
+    console.log('🧪 Testing UCI Engine Opponent...');
+    
+    // Scripted stand-in for an engine binary: 1.e4, and 1...e5 in reply to it
+    const fakeEngine = `
+      const input = require('readline').createInterface({ input: process.stdin });
+      let position = '';
+      input.on('line', line => {
+        if (line === 'uci') console.log('id name FakeEngine\\noption name MultiPV type spin default 1 min 1 max 4\\nuciok');
+        else if (line === 'isready') console.log('readyok');
+        else if (line.startsWith('position')) position = line;
+        else if (line.startsWith('go')) {
+          const pv = position.includes('e2e4') ? 'e7e5 g1f3' : 'e2e4 e7e5';
+          console.log('info depth 1 score cp 10 nodes 20 pv ' + pv.split(' ')[0]);
+          console.log('info depth 2 score upperbound 90 nodes 60 pv ' + pv);
+          console.log('info depth 2 score cp 25 nodes 120 pv ' + pv);
+          console.log('bestmove ' + pv.split(' ')[0]);
+        } else if (line === 'quit') process.exit(0);
+      });
+    `;
+    const engine = new UciEngineOpponent('fake-engine', process.execPath, { args: ['-e', fakeEngine] });
+
+    try {
+      const chess = new Chess();
+      const iterations: number[] = [];
+      const first = await engine.makeMove(chess, { depth: 2 }, { onIteration: iteration => iterations.push(iteration.depth) });
+      chess.move(first.move);
+      const reply = await engine.makeMove(chess, { moveTime: 100 });
+
+      // Scores are converted to White's point of view; bound-only lines are skipped
+      const moves = first.move === 'e4' && reply.move === 'e5' && engine.name === 'FakeEngine';
+      const scores = first.evaluation === 25 && reply.evaluation === -25 && first.depth === 2 && first.nodes === 120;
+      const lines = first.pv.join(' ') === 'e4 e5' && iterations.join(',') === '1,2';
+
+      const mate = parseUciInfo('info depth 9 seldepth 12 multipv 2 score mate -3 nodes 999 pv e2e4');
+      const parsed = mate !== null && mate.mate === -3 && mate.multipv === 2 && mate.score < 0 &&
+                     parseUciInfo('info currmove e2e4 currmovenumber 1') === null;
+
+      const analysis = await engine.analyzePosition(new Chess().fen(), { depth: 2 });
+      const analysed = analysis.lines.length === 1 && analysis.lines[0].move === 'e4';
+      await engine.quit();
+
+      let missingRejected = false;
+      try {
+        await new UciEngineOpponent('missing', '/nonexistent/uci-engine').makeMove(new Chess());
+      } catch {
+        missingRejected = true;
+      }
+
+      if (moves && scores && lines && parsed && analysed && !engine.isRunning && missingRejected) {
+        console.log('✅ UCI engine opponent validated');
+        console.log('   - Moves:', first.move, reply.move, 'evaluation:', first.evaluation);
+        return true;
+      } else {
+        console.error('❌ UCI engine opponent validation failed');
+        return false;
+      }
+    } catch (error) {
+      console.error('❌ UCI engine opponent test failed:', error);
+      await engine.quit();
+      return false;
+    }
+  }
+
+  /**
+   * Test 2: Streaming PGN Import
+   */
+  static async testStreamingPgnImport(): Promise<boolean> {
+    console.log('🧪 Testing Streaming PGN Import...');
+    
+    const directory = mkdtempSync(join(tmpdir(), 'pgn-store-'));
+    try {
+      const game = (tags: { [tag: string]: string }, moves: string) =>
+        [...Object.entries(tags).map(([tag, value]) => `[${tag} "${value}"]`), '', moves, ''].join('\n');
+      const pgn = [
+        game({ White: 'Ljubojević, Ljubomir', Black: 'Beta', Date: '1980.05.10', TimeControl: '40/7200:3600', WhiteElo: '2600', BlackElo: '2550', Result: '1-0' },
+          '1. e4 e5 2. Nf3 Nc6 3. Bb5 1-0'),
+        game({ White: 'Gamma', Black: 'Delta', Date: '2019.03.01', TimeControl: '180+2', WhiteElo: '1500', BlackElo: '1600', Result: '0-1' },
+          '1. d4 d5 0-1'),
+        game({ White: 'Epsilon', Black: 'Zeta', Date: '2021.??.??', TimeControl: '600+5', Result: '1/2-1/2' },
+          '1. c4 e5 2. Ke3 1/2-1/2'),
+        game({ White: 'Eta', Black: 'Ljubojević, Ljubomir', Date: '2020.01.01', TimeControl: '-', WhiteElo: '2300', BlackElo: '2400', Result: '0-1' },
+          '1. Nf3 d5 0-1'),
+      ].join('\n');
+
+      // Fed in 7-byte chunks, which split tags, moves and the multi-byte ć
+      const bytes = new TextEncoder().encode(pgn);
+      async function* chunks() {
+        for (let i = 0; i < bytes.length; i += 7) yield bytes.slice(i, i + 7);
+      }
+      let reports = 0;
+      const store = new PgnGameStore(join(directory, 'masters'));
+      const progress = await importPgnStream(chunks(), store, { filter: { minRating: 2000 }, onProgress: () => reports++ });
+      const imported = progress.gamesRead === 4 && progress.gamesImported === 3 && progress.gamesSkipped === 1 &&
+                       progress.gamesWithErrors === 1 && progress.bytesRead === bytes.length && reports === Math.ceil(bytes.length / 7) + 1 &&
+                       store.size === 3;
+
+      // Lazy, filtered reads from the index
+      const names = async (filter: Parameters<PgnGameStore['games']>[0]) => {
+        const found: string[] = [];
+        for await (const stored of store.games(filter)) found.push(stored.white);
+        return found.join(',');
+      };
+      const broken = store.get(1);
+      const queries =
+        await names({ timeControls: ['classical'] }) === 'Ljubojević, Ljubomir' &&
+        await names({ fromDate: '2020', toDate: '2021' }) === 'Epsilon,Eta' &&
+        await names({ results: ['0-1'] }) === 'Eta' &&
+        await names({ player: 'ljubojević, ljubomir' }) === 'Ljubojević, Ljubomir,Eta' &&
+        store.get(0)?.moves.join(' ') === 'e4 e5 Nf3 Nc6 Bb5' &&
+        broken?.moves.join(' ') === 'c4 e5' && broken.errors?.[0].startsWith('line 27: illegal move 2. Ke3') === true;
+      store.close();
+      const reopened = new PgnGameStore(join(directory, 'masters'));
+
+      // From a file, into a store read by literature training
+      const file = join(directory, 'games.pgn');
+      writeFileSync(file, pgn);
+      const blitz = new PgnGameStore(join(directory, 'blitz'));
+      const fromFile = await importPgnFile(file, blitz, { filter: { timeControls: ['blitz'] } });
+      const filtered = fromFile.gamesImported === 1 && fromFile.totalBytes === bytes.length && blitz.get(0)?.white === 'Gamma';
+
+      const engine = new ChessLearningEngine();
+      engine.addGameCollection(reopened, 'masters');
+      const agent = new ChessTrainingEngine().createAgent('Importer');
+      await engine.trainFromLiterature(agent, { focusAreas: ['openings', 'tactics'], minRating: 2000 });
+      const trained = reopened.size === 3 && engine.getLearningStats().gamesInDatabase === 3;
+      reopened.close();
+      blitz.close();
+
+      if (imported && queries && filtered && trained) {
+        console.log('✅ Streaming PGN import validated');
+        console.log('   - Progress:', progress);
+        return true;
+      } else {
+        console.error('❌ Streaming PGN import validation failed');
+        return false;
+      }
+    } catch (error) {
+      console.error('❌ Streaming PGN import test failed:', error);
+      return false;
+    } finally {
+      rmSync(directory, { recursive: true, force: true });
+    }
+  }
+
+  /**
+   * Test 3: Stored Position Index
+   */
+  static async testStoredPositionIndex(): Promise<boolean> {
+    console.log('🧪 Testing Stored Position Index...');
+    
+    const directory = mkdtempSync(join(tmpdir(), 'pgn-positions-'));
+    try {
+      const pgn = ['1. e4 e5 2. Nf3 Nc6', '1. e4 c5 2. Nf3', '1. e4 e5 2. Bc4', '1. e4 e6', '1. e4 e5 2. Nf3', '1. d4 d5 2. Nf3 Nf6', '1. Nf3 d5 2. d4 e6']
+        .map(moves => `[White "Player"]\n[Black "Opponent"]\n[Result "1-0"]\n\n${moves} 1-0\n`).join('\n');
+      const games = parsePgn(pgn).map(record => ({
+        pgn: record.text, white: record.headers.White, black: 'Opponent', result: record.result, event: '?', date: '?', moves: record.moves,
+      }));
+
+      // Kept with a game store, and caught up with games added since it was written
+      const storeDirectory = join(directory, 'store');
+      const store = new PgnGameStore(storeDirectory);
+      games.slice(0, 4).forEach(stored => store.add(stored));
+      store.close();
+      const reopened = new PgnGameStore(storeDirectory);
+      games.slice(4).forEach(stored => reopened.add(stored));
+      reopened.flush(); // not closed: the positions file still has 4 games
+      const caughtUp = new PgnGameStore(storeDirectory);
+      const persisted = caughtUp.positions.games === 7 && caughtUp.positions.query(new Chess().fen())?.games === 7;
+      reopened.close();
+      caughtUp.close();
+      const closed = new PgnGameStore(storeDirectory);
+      const counted = closed.positions.games === 7 && closed.positions.query(new Chess().fen())?.games === 7;
+      closed.close();
+
+      // Written out as positions pile up, in buckets read one at a time
+      const indexDirectory = join(directory, 'capped');
+      const capped = new StoredPositionIndex(indexDirectory, 10);
+      games.forEach((stored, id) => capped.addGame(id, stored));
+      const buckets = readdirSync(join(indexDirectory, 'positions')).filter(name => name.endsWith('.jsonl'));
+      const written = buckets.length > 1 && new StoredPositionIndex(indexDirectory).games > 0;
+      const afterE4 = new Chess();
+      afterE4.move('e4');
+      const entries = Array.from(capped.entries());
+      const read = capped.query(afterE4.fen())?.moves.map(entry => `${entry.move} ${entry.games}`).join(' ') === 'e5 3 c5 1 e6 1' &&
+                   entries.length === new Set(entries.map(entry => entry.fen)).size &&
+                   Array.from(capped.entries(5)).map(entry => entry.fen).sort().join() === [new Chess().fen(), afterE4.fen()].sort().join();
+
+      // Opening training reads a store's index
+      const learner = new ChessLearningEngine();
+      const trainedStore = new PgnGameStore(storeDirectory);
+      learner.addGameCollection(trainedStore, 'stored positions');
+      const agent = new ChessTrainingEngine().createAgent('StoredIndex');
+      await learner.trainFromLiterature(agent, { focusAreas: ['openings'] });
+      const trained = agent.knowledge.openingBook.getMove(new Chess().fen(), 'e4')?.wins === 5 &&
+                      learner.explore(afterE4.fen())?.games === 5;
+      trainedStore.close();
+
+      if (persisted && counted && written && read && trained) {
+        console.log('✅ Stored position index validated');
+        return true;
+      } else {
+        console.error('❌ Stored position index validation failed');
+        return false;
+      }
+    } catch (error) {
+      console.error('❌ Stored position index test failed:', error);
+      return false;
+    } finally {
+      rmSync(directory, { recursive: true, force: true });
+    }
+  }
+
+  /**
+   * Test 4: Syzygy Directory Source
+   */
+  static async testSyzygyDirectorySource(): Promise<boolean> {
+    console.log('🧪 Testing Syzygy Directory Source...');
+    
+    const directory = mkdtempSync(join(tmpdir(), 'syzygy-'));
+    try {
+      // The hand-built KQvK tables of the tablebase test, as files in the second of two directories
+      const tables = join(directory, 'tables');
+      mkdirSync(tables);
+      writeFileSync(join(tables, 'KQvK.rtbw'), new Uint8Array([0x71, 0xe8, 0x23, 0x5d, 0x01, 0x00, 0x66, 0x55, 0xee, 0x00, 0x80, 0x04, 0x80, 0x00]));
+      writeFileSync(join(tables, 'KQvK.rtbz'), new Uint8Array([0xd7, 0x66, 0x0c, 0xa5, 0x00, 0x00, 0x06, 0x05, 0x0e, 0x00, 0x80, 0x09]));
+      writeFileSync(join(tables, 'notes.txt'), 'not a table');
+      const tablebase = new SyzygyTablebase(syzygyDirectorySource([join(directory, 'missing'), tables].join(delimiter)));
+      const read = tablebase.size === 1 && tablebase.hasDtz('KQvK') &&
+                   tablebase.probeWdl(new Chess('8/8/8/4k3/8/8/8/3QK3 w - - 0 1')) === 2;
+      const missing = new SyzygyTablebase(syzygyDirectorySource(join(directory, 'missing'))).size === 0;
+
+      // Served to the protocol frontends: a SyzygyPath option finds the tables
+      const output: string[] = [];
+      const engine = new UciEngine(new ChessTrainingEngine().createAgent('SyzygyPath'), line => output.push(line));
+      await engine.handleLine(`setoption name SyzygyPath value ${tables}`);
+      const withoutSource = output.pop() === 'info string found 0 Syzygy tables';
+      engine.setSyzygySource(syzygyDirectorySource);
+      await engine.handleLine(`setoption name SyzygyPath value ${tables}`);
+      const served = output.pop() === 'info string found 1 Syzygy tables';
+
+      if (read && missing && withoutSource && served) {
+        console.log('✅ Syzygy directory source validated');
+        return true;
+      } else {
+        console.error('❌ Syzygy directory source validation failed');
+        return false;
+      }
+    } catch (error) {
+      console.error('❌ Syzygy directory source test failed:', error);
+      return false;
+    } finally {
+      rmSync(directory, { recursive: true, force: true });
+    }
+  }
+
+  /**
+   * Run all Node validation tests
+   */
+  static async runAllTests(): Promise<{ passed: number; total: number; results: boolean[] }> {
+    console.log('🚀 Starting Node-only Validation...\n');
+    
+    const tests = [
+      this.testUciEngineOpponent,
+      this.testStreamingPgnImport,
+      this.testStoredPositionIndex,
+      this.testSyzygyDirectorySource,
+    ];
+
+    const results: boolean[] = [];
+    let passed = 0;
+
+    for (let i = 0; i < tests.length; i++) {
+      console.log(`\n--- Test ${i + 1}/${tests.length} ---`);
+      const result = await tests[i]();
+      results.push(result);
+      if (result) passed++;
+    }
+
+    console.log('\n🏁 Node Validation Complete!');
+    console.log(`✅ Passed: ${passed}/${tests.length} tests`);
+
+    return { passed, total: tests.length, results };
+  }
+}